@@ -1,7 +1,8 @@
 #!/usr/bin/env node
 import { build } from 'esbuild'
 import { existsSync, mkdirSync, writeFileSync, cpSync, readFileSync, readdirSync, statSync, chmodSync, rmSync } from 'node:fs'
-import { join } from 'node:path'
+import { dirname, join, relative } from 'node:path'
+import { spawnSync } from 'node:child_process'
 
 const SRC_DIR = 'src'
 const OUT_DIR = 'dist'
@@ -31,7 +32,7 @@ function fixRelativeImports(dir) {
       fixRelativeImports(p)
       continue
     }
-    if (!p.endsWith('.js')) continue
+    if (!p.endsWith('.js') && !p.endsWith('.d.ts')) continue
     let text = readFileSync(p, 'utf8')
     // Handle: from '...'
     text = text.replace(/(from\s+['"])(\.{1,2}\/[^'"\n]+)(['"])/gm, (m, a, spec, c) => {
@@ -52,6 +53,62 @@ function fixRelativeImports(dir) {
   }
 }
 
+// tsconfig path aliases (e.g. @query, @utils/*) as [prefix, dist path] pairs
+function getPathAliases() {
+  const { paths } = JSON.parse(readFileSync('tsconfig.json', 'utf8')).compilerOptions
+  return Object.entries(paths)
+    .filter(([alias]) => alias !== '*')
+    .map(([alias, [target]]) => [
+      alias.replace(/\*$/, ''),
+      join(OUT_DIR, target.replace(/^src\//, '').replace(/\*$/, '').replace(/\.tsx?$/, '')),
+    ])
+}
+
+// Declarations keep the source's path aliases, which consumers can't resolve
+function fixAliasImports(dir, aliases) {
+  for (const name of readdirSync(dir)) {
+    const p = join(dir, name)
+    if (statSync(p).isDirectory()) {
+      fixAliasImports(p, aliases)
+      continue
+    }
+    if (!p.endsWith('.d.ts')) continue
+    const text = readFileSync(p, 'utf8').replace(
+      /((?:from\s+|import\(\s*)['"])(@[^'"\n]+)(['"])/gm,
+      (m, a, spec, c) => {
+        const match = aliases.find(([alias]) =>
+          alias.endsWith('/') ? spec.startsWith(alias) : spec === alias,
+        )
+        if (!match) return m
+        const target = match[1] + spec.slice(match[0].length)
+        const rel = relative(dirname(p), target).replaceAll('\\', '/')
+        return a + (rel.startsWith('.') ? rel : './' + rel) + c
+      },
+    )
+    writeFileSync(p, text)
+  }
+}
+
+// Type declarations for the SDK entry and the modules its types reference.
+// The tree doesn't type-check cleanly, so tsc's exit code is ignored; only
+// the SDK declaration itself is required.
+function emitSdkDeclarations() {
+  const tsc = spawnSync('npx', ['--no-install', 'tsc', '-p', 'tsconfig.sdk.json'], {
+    encoding: 'utf8',
+    shell: process.platform === 'win32',
+  })
+  if (!existsSync(join(OUT_DIR, 'entrypoints', 'sdk.d.ts'))) {
+    console.error(tsc.stdout, tsc.stderr)
+    throw new Error('Could not emit SDK type declarations')
+  }
+  // tsc doesn't copy hand-written declarations the emitted ones import
+  for (const p of collectEntries(SRC_DIR).filter(p => p.endsWith('.d.ts'))) {
+    cpSync(p, join(OUT_DIR, relative(SRC_DIR, p)))
+  }
+  fixAliasImports(OUT_DIR, getPathAliases())
+  console.log('✅ SDK type declarations emitted')
+}
+
 async function main() {
   console.log('🚀 Building cougar CLI for cross-platform compatibility...')
   
@@ -67,7 +124,10 @@ async function main() {
     ...Object.keys(pkg.peerDependencies ?? {}),
   ]
 
-  const entries = [join(SRC_DIR, 'entrypoints', 'cli.tsx')]
+  const entries = [
+    join(SRC_DIR, 'entrypoints', 'cli.tsx'),
+    join(SRC_DIR, 'entrypoints', 'sdk.ts'),
+  ]
 
   // Build ESM format but ensure Node.js compatibility
   await build({
@@ -86,6 +146,8 @@ async function main() {
     tsconfig: 'tsconfig.json',
   })
 
+  emitSdkDeclarations()
+
   // Fix relative import specifiers to include .js extension for ESM
   fixRelativeImports(OUT_DIR)
 
@@ -197,6 +259,8 @@ save-exact=true
   console.log('  - dist/ (ESM modules)')
   console.log('  - dist/index.js (main entrypoint)')
   console.log('  - dist/entrypoints/cli.js (CLI main)')
+  console.log('  - dist/entrypoints/sdk.js (programmatic SDK)')
+  console.log('  - dist/entrypoints/sdk.d.ts (SDK type declarations)')
   console.log('  - cli.js (cross-platform wrapper)')
   console.log('  - .npmrc (npm configuration)')
 }
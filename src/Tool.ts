@@ -1,5 +1,6 @@
 import { z } from 'zod'
 import * as React from 'react'
+import type { ConfirmBudgetFn } from '@services/budget'
 
 /**
  * Core Tool interface for cougar's extensible tool system
@@ -13,6 +14,10 @@ export type SetToolJSXFn = (jsx: {
 
 export interface ToolUseContext {
   messageId: string | undefined
+  // The assistant message whose tool use is being run
+  toolUseMessageId?: string
+  // Asks the user whether to keep going once a spend budget is exceeded
+  confirmBudget?: ConfirmBudgetFn
   agentId?: string
   safeMode?: boolean
   abortController: AbortController
@@ -1,4 +1,6 @@
 import React from 'react'
+import addDir from './commands/add-dir'
+import bashes from './commands/bashes'
 import clear from './commands/clear'
 import compact from './commands/compact'
 import config from './commands/config'
@@ -18,6 +20,10 @@ import refreshCommands from './commands/refreshCommands'
 import releaseNotes from './commands/release-notes'
 import review from './commands/review'
 import terminalSetup from './commands/terminalSetup'
+import worktree from './commands/worktree'
+import undo from './commands/undo'
+import rewind from './commands/rewind'
+import think from './commands/think'
 import { Tool, ToolUseContext } from './Tool'
 import resume from './commands/resume'
 import agents from './commands/agents'
@@ -79,7 +85,9 @@ const INTERNAL_ONLY_COMMANDS = [ctx_viz, resume, listen]
 // Declared as a function so that we don't run this until getCommands is called,
 // since underlying functions read from config, which can't be read at module initialization time
 const COMMANDS = memoize((): Command[] => [
+  addDir,
   agents,
+  bashes,
   clear,
   compact,
   config,
@@ -94,7 +102,11 @@ const COMMANDS = memoize((): Command[] => [
   refreshCommands,
   releaseNotes,
   review,
+  rewind,
   terminalSetup,
+  think,
+  undo,
+  worktree,
   ...(isAnthropicAuthEnabled() ? [logout, login()] : []),
   ...INTERNAL_ONLY_COMMANDS,
 ])
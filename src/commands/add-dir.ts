@@ -0,0 +1,51 @@
+import { existsSync, statSync } from 'fs'
+import type { Command } from '@commands'
+import {
+  getWorkspaceDirectories,
+  grantReadPermission,
+  hasReadPermission,
+  resolveDirectory,
+  saveReadPermissionForProject,
+} from '@utils/permissions/filesystem'
+import { getCwd } from '@utils/state'
+
+const addDir = {
+  type: 'local',
+  name: 'add-dir',
+  description:
+    'Let tools read another directory without asking: /add-dir [--save] <path>',
+  isEnabled: true,
+  isHidden: false,
+  async call(args) {
+    const save = /(^|\s)--save(\s|$)/.test(args)
+    const path = args.replace(/(^|\s)--save(?=\s|$)/, ' ').trim()
+
+    if (!path) {
+      if (save) {
+        return '⎿  Usage: /add-dir [--save] <path>'
+      }
+      return getWorkspaceDirectories()
+        .map(directory => `⎿  ${directory}`)
+        .join('\n')
+    }
+
+    const directory = resolveDirectory(path, getCwd())
+    if (!existsSync(directory) || !statSync(directory).isDirectory()) {
+      return `⎿  ${directory} is not a directory`
+    }
+    if (save) {
+      saveReadPermissionForProject(directory)
+      return `⎿  Added ${directory} to this project's additional directories`
+    }
+    if (hasReadPermission(directory)) {
+      return `⎿  ${directory} is already readable`
+    }
+    grantReadPermission(directory)
+    return `⎿  Added ${directory} for this session`
+  },
+  userFacingName() {
+    return 'add-dir'
+  },
+} satisfies Command
+
+export default addDir
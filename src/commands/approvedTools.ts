@@ -3,6 +3,10 @@ import {
   getCurrentProjectConfig as getCurrentProjectConfigDefault,
   saveCurrentProjectConfig as saveCurrentProjectConfigDefault,
 } from '@utils/config'
+import {
+  parsePermissionRule,
+  type PermissionRuleBehavior,
+} from '@utils/permissions/rules'
 
 export type ProjectConfigHandler = {
   getCurrentProjectConfig: () => ProjectConfig
@@ -15,6 +19,12 @@ const defaultConfigHandler: ProjectConfigHandler = {
   saveCurrentProjectConfig: saveCurrentProjectConfigDefault,
 }
 
+const RULE_LIST_KEYS = {
+  allow: 'allowedTools',
+  deny: 'deniedTools',
+  ask: 'askTools',
+} as const satisfies Record<PermissionRuleBehavior, keyof ProjectConfig>
+
 /**
  * Handler for the 'approved-tools list' command
  */
@@ -23,26 +33,78 @@ export function handleListApprovedTools(
   projectConfigHandler: ProjectConfigHandler = defaultConfigHandler,
 ): string {
   const projectConfig = projectConfigHandler.getCurrentProjectConfig()
-  return `Allowed tools for ${cwd}:\n${projectConfig.allowedTools.join('\n')}`
+  const sections = [
+    `Allowed tools for ${cwd}:\n${projectConfig.allowedTools.join('\n')}`,
+  ]
+  if (projectConfig.deniedTools?.length) {
+    sections.push(`Denied tools:\n${projectConfig.deniedTools.join('\n')}`)
+  }
+  if (projectConfig.askTools?.length) {
+    sections.push(
+      `Tools that always ask:\n${projectConfig.askTools.join('\n')}`,
+    )
+  }
+  return sections.join('\n\n')
+}
+
+/**
+ * Handler for the 'approved-tools add' command
+ */
+export function handleAddPermissionRule(
+  rule: string,
+  behavior: PermissionRuleBehavior,
+  projectConfigHandler: ProjectConfigHandler = defaultConfigHandler,
+): { success: boolean; message: string } {
+  if (!parsePermissionRule(rule)) {
+    return {
+      success: false,
+      message: `Invalid rule "${rule}". Expected ToolName or ToolName(specifier)`,
+    }
+  }
+
+  const projectConfig = projectConfigHandler.getCurrentProjectConfig()
+  const key = RULE_LIST_KEYS[behavior]
+  const rules = projectConfig[key] ?? []
+  if (rules.includes(rule)) {
+    return {
+      success: false,
+      message: `${rule} is already in the ${behavior} list`,
+    }
+  }
+
+  projectConfig[key] = [...rules, rule].sort()
+  projectConfigHandler.saveCurrentProjectConfig(projectConfig)
+  return { success: true, message: `Added ${rule} to the ${behavior} list` }
 }
 
 /**
- * Handler for the 'approved-tools remove' command
+ * Handler for the 'approved-tools remove' command. Removes the rule from
+ * the allow, deny and ask lists.
  */
 export function handleRemoveApprovedTool(
   tool: string,
   projectConfigHandler: ProjectConfigHandler = defaultConfigHandler,
 ): { success: boolean; message: string } {
   const projectConfig = projectConfigHandler.getCurrentProjectConfig()
-  const originalToolCount = projectConfig.allowedTools.length
-  const updatedAllowedTools = projectConfig.allowedTools.filter(t => t !== tool)
+  const removedFrom: PermissionRuleBehavior[] = []
+
+  for (const [behavior, key] of Object.entries(RULE_LIST_KEYS) as [
+    PermissionRuleBehavior,
+    (typeof RULE_LIST_KEYS)[PermissionRuleBehavior],
+  ][]) {
+    const rules = projectConfig[key] ?? []
+    const updatedRules = rules.filter(t => t !== tool)
+    if (updatedRules.length !== rules.length) {
+      projectConfig[key] = updatedRules
+      removedFrom.push(behavior)
+    }
+  }
 
-  if (originalToolCount !== updatedAllowedTools.length) {
-    projectConfig.allowedTools = updatedAllowedTools
+  if (removedFrom.length > 0) {
     projectConfigHandler.saveCurrentProjectConfig(projectConfig)
     return {
       success: true,
-      message: `Removed ${tool} from the list of approved tools`,
+      message: `Removed ${tool} from the ${removedFrom.join(' and ')} list`,
     }
   } else {
     return {
@@ -0,0 +1,71 @@
+import type { Command } from '@commands'
+import {
+  BackgroundShell,
+  killAllBackgroundShells,
+  killBackgroundShell,
+  listBackgroundShells,
+} from '@utils/backgroundShells'
+
+function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000)
+  if (seconds < 60) {
+    return `${seconds}s`
+  }
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) {
+    return `${minutes}m ${seconds % 60}s`
+  }
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
+
+function formatShell(shell: BackgroundShell): string {
+  const status =
+    shell.status === 'running'
+      ? `running for ${formatDuration(Date.now() - shell.startedAt)}`
+      : shell.exitCode !== null
+        ? `${shell.status} (exit code ${shell.exitCode})`
+        : shell.status
+  return `${shell.id}  ${status}  ${shell.command}`
+}
+
+const bashes = {
+  type: 'local',
+  name: 'bashes',
+  description:
+    'List background shells, or stop them with /bashes kill <id|all>',
+  isEnabled: true,
+  isHidden: false,
+  async call(args) {
+    const [action, id] = args.trim().split(/\s+/)
+
+    if (action === 'kill') {
+      if (!id) {
+        return '⎿  Usage: /bashes kill <id|all>'
+      }
+      if (id === 'all') {
+        const running = listBackgroundShells().filter(
+          shell => shell.status === 'running',
+        )
+        killAllBackgroundShells()
+        return `⎿  Stopped ${running.length} background ${running.length === 1 ? 'shell' : 'shells'}`
+      }
+      return killBackgroundShell(id)
+        ? `⎿  Stopped ${id}`
+        : `⎿  No running background shell with ID ${id}`
+    }
+    if (action) {
+      return `⎿  Unknown action "${action}". Use /bashes or /bashes kill <id|all>`
+    }
+
+    const shells = listBackgroundShells()
+    if (shells.length === 0) {
+      return '⎿  No background shells'
+    }
+    return shells.map(shell => `⎿  ${formatShell(shell)}`).join('\n')
+  },
+  userFacingName() {
+    return 'bashes'
+  },
+} satisfies Command
+
+export default bashes
@@ -1,14 +1,54 @@
 import type { Command } from '@commands'
 import { formatTotalCost } from '@costTracker'
+import { PRODUCT_COMMAND } from '@constants/product'
+import { getExceededBudget, formatBudgetStatus } from '@services/budget'
+import {
+  formatUsageReport,
+  formatUsageTable,
+  getSessionUsage,
+  readUsage,
+  summarizeUsage,
+} from '@services/usageLedger'
+
+const RECENT_DAYS = 7
 
 const cost = {
   type: 'local',
   name: 'cost',
-  description: 'Show the total cost and duration of the current session',
+  description:
+    'Show the cost of the current session, and of this project per model and day',
   isEnabled: true,
   isHidden: false,
   async call() {
-    return formatTotalCost()
+    const sections = [formatTotalCost()]
+
+    const sessionUsage = getSessionUsage()
+    if (sessionUsage.length) {
+      sections.push(
+        'This session',
+        formatUsageTable(
+          'Model',
+          summarizeUsage(sessionUsage, _ => _.model),
+        ),
+      )
+    }
+
+    const since = new Date()
+    since.setHours(0, 0, 0, 0)
+    since.setDate(since.getDate() - (RECENT_DAYS - 1))
+    const recentUsage = readUsage({ since })
+    if (recentUsage.length) {
+      sections.push(
+        `This project, last ${RECENT_DAYS} days (see \`${PRODUCT_COMMAND} usage\` for more)`,
+        formatUsageReport(recentUsage),
+      )
+    }
+
+    const exceededBudget = getExceededBudget()
+    if (exceededBudget) {
+      sections.push(formatBudgetStatus(exceededBudget))
+    }
+    return sections.join('\n\n')
   },
   userFacingName() {
     return 'cost'
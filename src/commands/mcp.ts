@@ -1,35 +1,89 @@
 import type { Command } from '@commands'
-import { listMCPServers, getClients } from '@services/mcpClient'
+import {
+  listMCPServers,
+  getMCPServerStatuses,
+  reconnectMCPServer,
+  disableMCPServer,
+  enableMCPServer,
+  type MCPServerStatus,
+} from '@services/mcpClient'
 import { PRODUCT_COMMAND } from '@constants/product'
 import chalk from 'chalk'
 import { getTheme } from '@utils/theme'
 
+const ACTIONS = {
+  reconnect: reconnectMCPServer,
+  disable: disableMCPServer,
+  enable: enableMCPServer,
+} as const
+
+type Action = keyof typeof ACTIONS
+
+const USAGE = `⎿  Usage: /mcp [${Object.keys(ACTIONS).join('|')} <server>]`
+
+function formatState({ state }: MCPServerStatus): string {
+  const theme = getTheme()
+  switch (state) {
+    case 'connected':
+      return chalk.hex(theme.success)(state)
+    case 'connecting':
+      return chalk.hex(theme.warning)(state)
+    case 'failed':
+      return chalk.hex(theme.error)(state)
+    case 'disabled':
+      return chalk.hex(theme.secondaryText)(state)
+  }
+}
+
+function formatStatus(status: MCPServerStatus): string[] {
+  const theme = getTheme()
+  const lines = [`⎿  • ${status.name}: ${formatState(status)}`]
+  if (status.lastError) {
+    lines.push(
+      chalk.hex(theme.secondaryText)(`     Last error: ${status.lastError}`),
+    )
+  }
+  if (status.state === 'failed') {
+    const retry = status.nextReconnectAt
+      ? `retrying in ${Math.max(0, Math.ceil((status.nextReconnectAt - Date.now()) / 1000))}s (attempt ${status.reconnectAttempts})`
+      : `gave up after ${status.reconnectAttempts} attempts, run /mcp reconnect ${status.name}`
+    lines.push(chalk.hex(theme.secondaryText)(`     ${retry}`))
+  }
+  return lines
+}
+
 const mcp = {
   type: 'local',
   name: 'mcp',
-  description: 'Show MCP server connection status',
+  description:
+    'Show MCP server status, or reconnect, disable or enable a server',
   isEnabled: true,
   isHidden: false,
-  async call() {
+  async call(args) {
     const servers = listMCPServers()
-    const clients = await getClients()
-    const theme = getTheme()
 
     if (Object.keys(servers).length === 0) {
       return `⎿  No MCP servers configured. Run \`${PRODUCT_COMMAND} mcp\` to learn about how to configure MCP servers.`
     }
 
+    const [action, serverName] = args.trim().split(/\s+/)
+    if (action) {
+      if (!(action in ACTIONS) || !serverName) {
+        return USAGE
+      }
+      try {
+        const status = await ACTIONS[action as Action](serverName)
+        return formatStatus(status).join('\n')
+      } catch (error) {
+        return `⎿  ${error instanceof Error ? error.message : String(error)}`
+      }
+    }
+
     // Sort servers by name and format status with colors
-    const serverStatusLines = clients
+    const statuses = await getMCPServerStatuses()
+    const serverStatusLines = statuses
       .sort((a, b) => a.name.localeCompare(b.name))
-      .map(client => {
-        const isConnected = client.type === 'connected'
-        const status = isConnected ? 'connected' : 'disconnected'
-        const coloredStatus = isConnected
-          ? chalk.hex(theme.success)(status)
-          : chalk.hex(theme.error)(status)
-        return `⎿  • ${client.name}: ${coloredStatus}`
-      })
+      .flatMap(formatStatus)
 
     return ['⎿  MCP Server Status', ...serverStatusLines].join('\n')
   },
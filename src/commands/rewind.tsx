@@ -0,0 +1,57 @@
+import * as React from 'react'
+import type { Command } from '@commands'
+import { MessageSelector } from '@components/MessageSelector'
+import { getMessagesGetter, getMessagesSetter } from '@messages'
+import { formatRestoreResult, restoreCheckpoints } from '@services/checkpoints'
+import { normalizeMessagesForAPI } from '@utils/messages'
+import { clearTerminal } from '@utils/terminal'
+
+export default {
+  type: 'local-jsx',
+  name: 'rewind',
+  description:
+    'Go back to an earlier point in the conversation and restore the files edited since',
+  isEnabled: true,
+  isHidden: false,
+  userFacingName() {
+    return 'rewind'
+  },
+  async call(onDone, context) {
+    const messages = getMessagesGetter()()
+    return (
+      <MessageSelector
+        erroredToolUseIDs={new Set()}
+        unresolvedToolUseIDs={new Set()}
+        messages={normalizeMessagesForAPI(messages)}
+        onSelect={async message => {
+          // If the user selected the current prompt, do nothing
+          if (!messages.includes(message)) {
+            onDone()
+            return
+          }
+
+          const index = messages.indexOf(message)
+          const result = restoreCheckpoints(
+            messages
+              .slice(index)
+              .filter(_ => _.type === 'assistant')
+              .map(_ => _.uuid),
+          )
+
+          await clearTerminal()
+          getMessagesSetter()([])
+          context.setForkConvoWithMessagesOnTheNextRender(
+            messages.slice(0, index),
+          )
+          onDone(
+            result.restoredFiles.length || result.warnings.length
+              ? formatRestoreResult(result)
+              : '⎿  Rewound the conversation, no files to restore',
+          )
+        }}
+        onEscape={() => onDone()}
+        tools={context.options.tools}
+      />
+    )
+  },
+} satisfies Command
@@ -0,0 +1,47 @@
+import type { Command } from '@commands'
+import {
+  THINKING_BUDGETS,
+  THINKING_LEVELS,
+  ThinkingLevel,
+  getThinkingLevel,
+  setThinkingLevel,
+} from '@utils/thinking'
+
+function describeLevel(level: ThinkingLevel | null): string {
+  if (level === null) {
+    return 'auto (prompts with "think", "think hard" or "ultrathink" turn it on)'
+  }
+  if (level === 'off') {
+    return 'off'
+  }
+  return `${level} (${THINKING_BUDGETS[level].toLocaleString()} token budget, ${level} reasoning effort)`
+}
+
+const think = {
+  type: 'local',
+  name: 'think',
+  description:
+    'Set the thinking budget for this session (off, low, medium, high)',
+  isEnabled: true,
+  isHidden: false,
+  async call(args) {
+    const value = args.trim().toLowerCase()
+    if (!value) {
+      return `⎿  Thinking: ${describeLevel(getThinkingLevel())}`
+    }
+    if (value === 'auto') {
+      setThinkingLevel(null)
+      return `⎿  Thinking set to ${describeLevel(null)}`
+    }
+    if (!THINKING_LEVELS.includes(value as ThinkingLevel)) {
+      return `⎿  Unknown thinking level "${value}". Use one of: ${[...THINKING_LEVELS, 'auto'].join(', ')}`
+    }
+    setThinkingLevel(value as ThinkingLevel)
+    return `⎿  Thinking set to ${describeLevel(value as ThinkingLevel)}`
+  },
+  userFacingName() {
+    return 'think'
+  },
+} satisfies Command
+
+export default think
@@ -0,0 +1,65 @@
+import type { Command } from '@commands'
+import { getMessagesGetter } from '@messages'
+import type { Message } from '@query'
+import {
+  formatRestoreResult,
+  hasCheckpoint,
+  restoreCheckpoints,
+} from '@services/checkpoints'
+
+function isToolResult(message: Message): boolean {
+  return (
+    message.type === 'user' &&
+    Array.isArray(message.message.content) &&
+    message.message.content[0]?.type === 'tool_result'
+  )
+}
+
+/**
+ * Assistant messages of the latest turn that edited files, where a turn runs
+ * from a user prompt up to the next one
+ */
+function getLastTurnWithEdits(messages: Message[]): string[] {
+  let end = messages.length - 1
+  while (
+    end >= 0 &&
+    !(messages[end]!.type === 'assistant' && hasCheckpoint(messages[end]!.uuid))
+  ) {
+    end--
+  }
+  if (end < 0) {
+    return []
+  }
+
+  let start = end
+  while (
+    start > 0 &&
+    !(messages[start]!.type === 'user' && !isToolResult(messages[start]!))
+  ) {
+    start--
+  }
+  return messages
+    .slice(start, end + 1)
+    .filter(_ => _.type === 'assistant')
+    .map(_ => _.uuid)
+}
+
+const undo = {
+  type: 'local',
+  name: 'undo',
+  description: 'Revert the file edits made in the last turn',
+  isEnabled: true,
+  isHidden: false,
+  async call() {
+    const messageIds = getLastTurnWithEdits(getMessagesGetter()())
+    if (messageIds.length === 0) {
+      return '⎿  Nothing to undo'
+    }
+    return formatRestoreResult(restoreCheckpoints(messageIds))
+  },
+  userFacingName() {
+    return 'undo'
+  },
+} satisfies Command
+
+export default undo
@@ -0,0 +1,81 @@
+import type { Command } from '@commands'
+import chalk from 'chalk'
+import { getBranchDiff } from '@utils/git'
+import { getTheme } from '@utils/theme'
+import {
+  discardWorktree,
+  getTaskWorktree,
+  listTaskWorktrees,
+  mergeWorktree,
+  type TaskWorktree,
+} from '@utils/worktree'
+
+const ACTIONS = {
+  merge: async (worktree: TaskWorktree) => {
+    await mergeWorktree(worktree)
+    return `⎿  Merged ${worktree.branch} and removed its worktree`
+  },
+  discard: async (worktree: TaskWorktree) => {
+    await discardWorktree(worktree)
+    return `⎿  Discarded the worktree ${worktree.path}`
+  },
+  keep: async (worktree: TaskWorktree) =>
+    `⎿  Keeping the worktree ${worktree.path} on branch ${worktree.branch}`,
+} as const
+
+type Action = keyof typeof ACTIONS
+
+const USAGE = `⎿  Usage: /worktree [${Object.keys(ACTIONS).join('|')} <id>]`
+
+async function formatWorktree(worktree: TaskWorktree): Promise<string> {
+  const theme = getTheme()
+  let stat: string
+  try {
+    const diff = await getBranchDiff(
+      worktree.repoRoot,
+      worktree.baseCommit,
+      worktree.branch,
+    )
+    stat = diff.stat.split('\n').pop()?.trim() || 'no changes'
+  } catch (error) {
+    stat = error instanceof Error ? error.message : String(error)
+  }
+  return [
+    `⎿  • ${worktree.id}: ${worktree.branch}`,
+    chalk.hex(theme.secondaryText)(`     ${worktree.path}`),
+    chalk.hex(theme.secondaryText)(`     ${stat}`),
+  ].join('\n')
+}
+
+const worktree = {
+  type: 'local',
+  name: 'worktree',
+  description: 'List task worktrees, or merge, keep or discard one',
+  isEnabled: true,
+  isHidden: false,
+  async call(args) {
+    const [action, id] = args.trim().split(/\s+/)
+    if (action) {
+      if (!(action in ACTIONS) || !id) {
+        return USAGE
+      }
+      try {
+        return await ACTIONS[action as Action](await getTaskWorktree(id))
+      } catch (error) {
+        return `⎿  ${error instanceof Error ? error.message : String(error)}`
+      }
+    }
+
+    const worktrees = await listTaskWorktrees()
+    if (worktrees.length === 0) {
+      return '⎿  No task worktrees'
+    }
+    const lines = await Promise.all(worktrees.map(formatWorktree))
+    return ['⎿  Task worktrees', ...lines, USAGE].join('\n')
+  },
+  userFacingName() {
+    return 'worktree'
+  },
+} satisfies Command
+
+export default worktree
@@ -0,0 +1,53 @@
+import { Box, Text, useInput } from 'ink'
+import React from 'react'
+import { Select } from './CustomSelect/select'
+import { getTheme } from '@utils/theme'
+import { type BudgetStatus, formatBudgetStatus } from '@services/budget'
+import { PRODUCT_COMMAND } from '@constants/product'
+
+interface Props {
+  status: BudgetStatus
+  onDone: (shouldContinue: boolean) => void
+}
+
+export function BudgetExceededDialog({
+  status,
+  onDone,
+}: Props): React.ReactNode {
+  // Handle Ctrl+C, Ctrl+D and Esc
+  useInput((input, key) => {
+    if ((key.ctrl && (input === 'c' || input === 'd')) || key.escape) {
+      onDone(false)
+    }
+  })
+
+  return (
+    <Box
+      flexDirection="column"
+      borderStyle="round"
+      padding={1}
+      borderColor={getTheme().warning}
+    >
+      <Box marginBottom={1} flexDirection="column">
+        <Text bold>{formatBudgetStatus(status)}</Text>
+        <Text>
+          {status.kind === 'hard'
+            ? 'You will be asked again before every request until the budget is raised.'
+            : 'You will not be asked again for this budget period.'}
+        </Text>
+        <Text color={getTheme().secondaryText}>
+          {`Change it with \`${PRODUCT_COMMAND} config set ${status.kind}Budget <usd>\``}
+        </Text>
+      </Box>
+      <Box>
+        <Select
+          options={[
+            { value: 'continue', label: 'Continue' },
+            { value: 'stop', label: 'Stop' },
+          ]}
+          onChange={value => onDone(value === 'continue')}
+        />
+      </Box>
+    </Box>
+  )
+}
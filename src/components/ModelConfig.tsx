@@ -7,12 +7,16 @@ import {
   getGlobalConfig,
   saveGlobalConfig,
   ModelPointerType,
+  setModelFallbacks,
   setModelPointer,
 } from '@utils/config'
 import { getModelManager } from '@utils/model'
+import { formatModelPricing, getModelPricing } from '@utils/modelPricing'
 import { useExitOnCtrlCD } from '@hooks/useExitOnCtrlCD'
 import { ModelSelector } from './ModelSelector'
 import { ModelListManager } from './ModelListManager'
+import { ModelPricingForm } from './ModelPricingForm'
+import { ModelFallbackEditor } from './ModelFallbackEditor'
 
 type Props = {
   onClose: () => void
@@ -28,6 +32,12 @@ type ModelPointerSetting = {
   onChange(value?: string): void
 }
 
+const TOOL_CALLING_MODE_LABELS = {
+  auto: 'auto (from the model)',
+  native: 'native function calling',
+  prompt: 'described in the prompt',
+}
+
 export function ModelConfig({ onClose }: Props): React.ReactNode {
   const config = getGlobalConfig()
   const theme = getTheme()
@@ -39,6 +49,11 @@ export function ModelConfig({ onClose }: Props): React.ReactNode {
   )
   const [refreshKey, setRefreshKey] = useState(0) // 添加刷新键来强制更新
   const [isDeleteMode, setIsDeleteMode] = useState(false) // 保留用于清空指针的删除模式
+  // modelName of the model whose pricing is being edited
+  const [pricingModel, setPricingModel] = useState<string | null>(null)
+  // Pointer whose fallback list is being edited
+  const [fallbackPointer, setFallbackPointer] =
+    useState<ModelPointerType | null>(null)
   const selectedIndexRef = useRef(selectedIndex) // 用ref保持焦点状态
   const exitState = useExitOnCtrlCD(() => process.exit(0))
 
@@ -155,6 +170,30 @@ export function ModelConfig({ onClose }: Props): React.ReactNode {
         }
       } else if (input === 'd' && !isDeleteMode) {
         setIsDeleteMode(true) // Enter delete mode
+      } else if (input === 'p' && !isDeleteMode) {
+        const setting = menuItems[selectedIndex]
+        if (setting.type === 'modelPointer' && setting.value) {
+          // Edit the pricing of the assigned model
+          setPricingModel(setting.value)
+        }
+      } else if (input === 't' && !isDeleteMode) {
+        const setting = menuItems[selectedIndex]
+        const profile = modelManager
+          .getAllConfiguredModels()
+          .find(p => p.modelName === setting.value)
+        if (setting.type === 'modelPointer' && profile) {
+          // Cycle auto → prompt → native
+          const modes = [undefined, 'prompt', 'native'] as const
+          const next =
+            modes[(modes.indexOf(profile.toolCallingMode) + 1) % modes.length]
+          modelManager.updateModelToolCallingMode(profile.modelName, next)
+          setRefreshKey(prev => prev + 1)
+        }
+      } else if (input === 'f' && !isDeleteMode) {
+        const setting = menuItems[selectedIndex]
+        if (setting.type === 'modelPointer' && setting.value) {
+          setFallbackPointer(setting.id as ModelPointerType)
+        }
       } else if (key.upArrow) {
         setSelectedIndex(prev => Math.max(0, prev - 1))
       } else if (key.downArrow) {
@@ -191,7 +230,84 @@ export function ModelConfig({ onClose }: Props): React.ReactNode {
     [selectedIndex, menuItems, onClose, isDeleteMode, modelManager],
   )
 
-  useInput(handleInput, { isActive: !showModelSelector && !showModelListManager })
+  useInput(handleInput, {
+    isActive:
+      !showModelSelector &&
+      !showModelListManager &&
+      !pricingModel &&
+      !fallbackPointer,
+  })
+
+  useInput(
+    (_input, key) => {
+      if (key.escape) {
+        setPricingModel(null)
+      }
+    },
+    { isActive: pricingModel !== null },
+  )
+
+  // If editing the fallbacks of a pointer, render the fallback editor
+  if (fallbackPointer) {
+    const setting = menuItems.find(item => item.id === fallbackPointer)
+    return (
+      <ModelFallbackEditor
+        pointerLabel={setting?.label ?? fallbackPointer}
+        models={modelManager
+          .getAvailableModels()
+          .filter(p => p.modelName !== setting?.value)}
+        fallbacks={config.modelFallbacks?.[fallbackPointer] ?? []}
+        onSubmit={fallbacks => {
+          setModelFallbacks(fallbackPointer, fallbacks)
+          setFallbackPointer(null)
+          setRefreshKey(prev => prev + 1)
+        }}
+        onCancel={() => setFallbackPointer(null)}
+      />
+    )
+  }
+
+  // If editing the pricing of a model, render the pricing form
+  if (pricingModel) {
+    const profile = modelManager
+      .getAllConfiguredModels()
+      .find(p => p.modelName === pricingModel)
+    return (
+      <Box
+        flexDirection="column"
+        borderStyle="round"
+        borderColor={theme.secondaryBorder}
+        paddingX={1}
+        marginTop={1}
+      >
+        <Box flexDirection="column" minHeight={2} marginBottom={1}>
+          <Text bold>Pricing · {profile?.name ?? pricingModel}</Text>
+          <Text dimColor>
+            USD per million tokens. Leave input and output empty to report the
+            cost of this model as unknown.
+          </Text>
+        </Box>
+        <ModelPricingForm
+          pricing={getModelPricing(profile, pricingModel)}
+          onSubmit={pricing => {
+            modelManager.updateModelPricing(pricingModel, pricing)
+            setPricingModel(null)
+            setRefreshKey(prev => prev + 1)
+          }}
+        />
+        <Box
+          marginTop={1}
+          paddingTop={1}
+          borderTopColor={theme.secondaryBorder}
+          borderTopStyle="single"
+        >
+          <Text dimColor>
+            Tab/↑/↓ to switch fields, Enter to save, Esc to cancel
+          </Text>
+        </Box>
+      </Box>
+    )
+  }
 
   // If showing ModelListManager, render it directly
   if (showModelListManager) {
@@ -274,8 +390,46 @@ export function ModelConfig({ onClose }: Props): React.ReactNode {
               </Box>
             </Box>
             {isSelected && (
-              <Box paddingLeft={2} marginBottom={1}>
+              <Box paddingLeft={2} marginBottom={1} flexDirection="column">
                 <Text dimColor>{setting.description}</Text>
+                {setting.type === 'modelPointer' && setting.value && (
+                  <Text dimColor>
+                    Pricing:{' '}
+                    {formatModelPricing(
+                      getModelPricing(
+                        modelManager
+                          .getAllConfiguredModels()
+                          .find(p => p.modelName === setting.value),
+                        setting.value,
+                      ),
+                    )}
+                  </Text>
+                )}
+                {setting.type === 'modelPointer' && setting.value && (
+                  <Text dimColor>
+                    Tool calling:{' '}
+                    {TOOL_CALLING_MODE_LABELS[
+                      modelManager
+                        .getAllConfiguredModels()
+                        .find(p => p.modelName === setting.value)
+                        ?.toolCallingMode ?? 'auto'
+                    ]}
+                  </Text>
+                )}
+                {setting.type === 'modelPointer' &&
+                  !!config.modelFallbacks?.[setting.id as ModelPointerType]
+                    ?.length && (
+                    <Text dimColor>
+                      Falls back to:{' '}
+                      {config.modelFallbacks[setting.id as ModelPointerType]!
+                        .map(
+                          name =>
+                            availableModels.find(_ => _.id === name)?.name ??
+                            name,
+                        )
+                        .join(' → ')}
+                    </Text>
+                  )}
               </Box>
             )}
           </Box>
@@ -293,7 +447,7 @@ export function ModelConfig({ onClose }: Props): React.ReactNode {
             ? 'CLEAR MODE: Press Enter/Space to clear assignment, Esc to cancel'
             : availableModels.length === 0
               ? 'Use ↑/↓ to navigate, Enter to configure new model, Esc to exit'
-              : 'Use ↑/↓ to navigate, Space to cycle models, Enter to configure, d to clear, Esc to exit'}
+              : 'Use ↑/↓ to navigate, Space to cycle models, Enter to configure, p to edit pricing, t to change tool calling, f to edit fallbacks, d to clear, Esc to exit'}
         </Text>
       </Box>
     </Box>
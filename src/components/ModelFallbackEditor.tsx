@@ -0,0 +1,107 @@
+import { Box, Text, useInput } from 'ink'
+import React, { useState } from 'react'
+import figures from 'figures'
+import type { ModelProfile } from '@utils/config'
+import { getTheme } from '@utils/theme'
+
+type Props = {
+  pointerLabel: string
+  models: ModelProfile[] // Candidates, without the pointer's own model
+  fallbacks: string[]
+  onSubmit: (fallbacks: string[]) => void
+  onCancel: () => void
+}
+
+/**
+ * Picks the models a pointer falls back to. Models are tried in the order
+ * they were picked in.
+ */
+export function ModelFallbackEditor({
+  pointerLabel,
+  models,
+  fallbacks: initialFallbacks,
+  onSubmit,
+  onCancel,
+}: Props): React.ReactNode {
+  const theme = getTheme()
+  const [selectedIndex, setSelectedIndex] = useState(0)
+  const [fallbacks, setFallbacks] = useState(() =>
+    initialFallbacks.filter(name => models.some(_ => _.modelName === name)),
+  )
+
+  useInput((input, key) => {
+    if (key.escape) {
+      onCancel()
+    } else if (key.return) {
+      onSubmit(fallbacks)
+    } else if (key.upArrow) {
+      setSelectedIndex(prev => Math.max(0, prev - 1))
+    } else if (key.downArrow) {
+      setSelectedIndex(prev => Math.min(models.length - 1, prev + 1))
+    } else if (input === ' ' && models[selectedIndex]) {
+      const { modelName } = models[selectedIndex]
+      setFallbacks(prev =>
+        prev.includes(modelName)
+          ? prev.filter(name => name !== modelName)
+          : [...prev, modelName],
+      )
+    }
+  })
+
+  return (
+    <Box
+      flexDirection="column"
+      borderStyle="round"
+      borderColor={theme.secondaryBorder}
+      paddingX={1}
+      marginTop={1}
+    >
+      <Box flexDirection="column" minHeight={2} marginBottom={1}>
+        <Text bold>Fallbacks · {pointerLabel}</Text>
+        <Text dimColor>
+          When a request is rate limited, keeps failing or does not fit the
+          context window, it is sent to these models in order.
+        </Text>
+      </Box>
+
+      {models.length === 0 && (
+        <Text color={theme.warning}>
+          No other models configured. Use "Manage Model List" to add some.
+        </Text>
+      )}
+      {models.map((model, i) => {
+        const isSelected = i === selectedIndex
+        const position = fallbacks.indexOf(model.modelName)
+        return (
+          <Box key={model.modelName}>
+            <Box width={6}>
+              <Text color={isSelected ? 'blue' : undefined}>
+                {isSelected ? figures.pointer : ' '}{' '}
+                {position === -1 ? ' ' : position + 1}
+              </Text>
+            </Box>
+            <Text color={position === -1 ? undefined : theme.success}>
+              {model.name}
+            </Text>
+            <Text dimColor>
+              {' '}
+              · {model.contextLength.toLocaleString()} tokens
+            </Text>
+          </Box>
+        )
+      })}
+
+      <Box
+        marginTop={1}
+        paddingTop={1}
+        borderTopColor={theme.secondaryBorder}
+        borderTopStyle="single"
+      >
+        <Text dimColor>
+          Use ↑/↓ to navigate, Space to add or remove, Enter to save, Esc to
+          cancel
+        </Text>
+      </Box>
+    </Box>
+  )
+}
@@ -0,0 +1,110 @@
+import { Box, Text, useInput } from 'ink'
+import React, { useState } from 'react'
+import type { ModelPricing } from '@utils/config'
+import { PRICING_FIELDS } from '@utils/modelPricing'
+import { getTheme } from '@utils/theme'
+import TextInput from './TextInput'
+
+type Props = {
+  pricing?: ModelPricing
+  onSubmit: (pricing: ModelPricing | undefined) => void
+}
+
+function parsePrice(value: string): number | undefined | null {
+  if (!value.trim()) {
+    return undefined
+  }
+  const price = Number(value.trim().replace(/^\$/, ''))
+  return Number.isFinite(price) && price >= 0 ? price : null
+}
+
+/**
+ * Prices of a model in USD per million tokens. Empty fields are unknown, and
+ * an empty form leaves the model without pricing.
+ */
+export function ModelPricingForm({
+  pricing,
+  onSubmit,
+}: Props): React.ReactNode {
+  const theme = getTheme()
+  const [values, setValues] = useState(() =>
+    Object.fromEntries(
+      PRICING_FIELDS.map(({ key }) => [key, pricing?.[key]?.toString() ?? '']),
+    ),
+  )
+  const [activeIndex, setActiveIndex] = useState(0)
+  const [cursorOffset, setCursorOffset] = useState(values.input.length)
+  const [error, setError] = useState<string | null>(null)
+
+  function focusField(index: number) {
+    const next = (index + PRICING_FIELDS.length) % PRICING_FIELDS.length
+    setActiveIndex(next)
+    setCursorOffset(values[PRICING_FIELDS[next].key].length)
+  }
+
+  function handleSubmit() {
+    const result: ModelPricing = {}
+    for (const { key, label } of PRICING_FIELDS) {
+      const price = parsePrice(values[key])
+      if (price === null) {
+        setError(`${label} price must be a non-negative number`)
+        focusField(PRICING_FIELDS.findIndex(_ => _.key === key))
+        return
+      }
+      if (price !== undefined) {
+        result[key] = price
+      }
+    }
+    onSubmit(Object.keys(result).length ? result : undefined)
+  }
+
+  useInput((_input, key) => {
+    if (key.tab) {
+      focusField(activeIndex + (key.shift ? -1 : 1))
+    }
+  })
+
+  return (
+    <Box flexDirection="column">
+      {PRICING_FIELDS.map(({ key, label }, index) => {
+        const isActive = index === activeIndex
+        return (
+          <Box key={key} flexDirection="row">
+            <Box width={16}>
+              <Text color={isActive ? 'blue' : undefined}>
+                {isActive ? '→ ' : '  '}
+                {label}
+              </Text>
+            </Box>
+            <Text>$</Text>
+            {isActive ? (
+              <TextInput
+                value={values[key]}
+                onChange={value => {
+                  setValues(current => ({ ...current, [key]: value }))
+                  setError(null)
+                }}
+                onSubmit={handleSubmit}
+                onHistoryUp={() => focusField(index - 1)}
+                onHistoryDown={() => focusField(index + 1)}
+                placeholder="unknown"
+                columns={20}
+                cursorOffset={cursorOffset}
+                onChangeCursorOffset={setCursorOffset}
+              />
+            ) : (
+              <Text color={values[key] ? undefined : theme.secondaryText}>
+                {values[key] || 'unknown'}
+              </Text>
+            )}
+          </Box>
+        )
+      })}
+      {error && (
+        <Box marginTop={1}>
+          <Text color={theme.error}>{error}</Text>
+        </Box>
+      )}
+    </Box>
+  )
+}
@@ -46,15 +46,22 @@ import {
   saveGlobalConfig,
   ProviderType,
   ModelPointerType,
+  ModelPricing,
   setAllPointersToModel,
   setModelPointer,
 } from '@utils/config'
 import models, { providers } from '@constants/models'
+import {
+  formatModelPricing,
+  getDefaultModelPricing,
+} from '@utils/modelPricing'
 import TextInput from './TextInput'
+import { ModelPricingForm } from './ModelPricingForm'
 import OpenAI from 'openai'
 import chalk from 'chalk'
 import { fetchAnthropicModels, verifyApiKey } from '@services/claude'
 import { fetchCustomModels, getModelFeatures } from '@services/openai'
+import { listOllamaModels } from '@services/ollama'
 import { testGPT5Connection, validateGPT5Config } from '@services/gpt5ConnectionTest'
 type Props = {
   onDone: () => void
@@ -197,6 +204,7 @@ export function ModelSelector({
       | 'modelInput'
       | 'modelParams'
       | 'contextLength'
+      | 'pricing'
       | 'connectionTest'
       | 'confirmation'
     >
@@ -218,6 +226,7 @@ export function ModelSelector({
       | 'modelInput'
       | 'modelParams'
       | 'contextLength'
+      | 'pricing'
       | 'connectionTest'
       | 'confirmation',
   ) => {
@@ -262,6 +271,9 @@ export function ModelSelector({
     DEFAULT_CONTEXT_LENGTH,
   )
 
+  // Prices in USD per million tokens, seeded from the built-in model list
+  const [pricing, setPricing] = useState<ModelPricing | undefined>(undefined)
+
   // Form focus state
   const [activeFieldIndex, setActiveFieldIndex] = useState(0)
   const [maxTokensCursorOffset, setMaxTokensCursorOffset] = useState<number>(0)
@@ -494,8 +506,15 @@ export function ModelSelector({
       details.push('vision')
     }
 
+    if (model.parameter_size) {
+      details.push(model.parameter_size)
+    }
+
     if (model.supports_function_calling) {
       details.push('tools')
+    } else if (model.provider === 'ollama') {
+      // Tools still work, described in the prompt
+      details.push('prompt tools')
     }
 
     return details.length > 0 ? ` (${details.join(', ')})` : ''
@@ -1159,149 +1178,34 @@ export function ModelSelector({
 
   async function fetchOllamaModels() {
     try {
-      const response = await fetch(`${ollamaBaseUrl}/models`)
-
-      if (!response.ok) {
-        throw new Error(`HTTP error ${response.status}: ${response.statusText}`)
-      }
-
-      const responseData = await response.json()
-
-      // Properly handle Ollama API response format
-      // Ollama API can return models in different formats based on version
-      let models = []
-
-      // Check if data field exists (newer Ollama versions)
-      if (responseData.data && Array.isArray(responseData.data)) {
-        models = responseData.data
-      }
-      // Check if models array is directly at the root (older Ollama versions)
-      else if (Array.isArray(responseData.models)) {
-        models = responseData.models
-      }
-      // If response is already an array
-      else if (Array.isArray(responseData)) {
-        models = responseData
-      } else {
-        throw new Error(
-          'Invalid response from Ollama API: missing models array',
-        )
-      }
-
-      // Transform Ollama models to our format
-      // Note: max_tokens here is for OUTPUT tokens, not context length
-      const ollamaModels = models.map((model: any) => ({
-        model:
-          model.id ??
-          model.name ??
-          model.modelName ??
-          (typeof model === 'string' ? model : ''),
-        provider: 'ollama',
-        max_tokens: DEFAULT_MAX_TOKENS, // Default output tokens (8K is reasonable)
-        supports_vision: false,
-        supports_function_calling: true,
-        supports_reasoning_effort: false,
-      }))
-
-      // Filter out models with empty names
-      const validModels = ollamaModels.filter(model => model.model)
-
-      // Helper: normalize Ollama server root for /api/show (strip trailing /v1)
-      const normalizeOllamaRoot = (url: string): string => {
-        try {
-          const u = new URL(url)
-          let pathname = u.pathname.replace(/\/+$|^$/, '')
-          if (pathname.endsWith('/v1')) {
-            pathname = pathname.slice(0, -3)
-          }
-          u.pathname = pathname
-          return u.toString().replace(/\/+$/, '')
-        } catch {
-          return url.replace(/\/v1\/?$/, '')
-        }
-      }
-
-      // Helper: extract num_ctx/context_length from /api/show response
-      const extractContextTokens = (data: any): number | null => {
-        if (!data || typeof data !== 'object') return null
-        
-        // First check model_info for architecture-specific context_length fields
-        // Example: qwen2.context_length, llama.context_length, etc.
-        if (data.model_info && typeof data.model_info === 'object') {
-          const modelInfo = data.model_info
-          for (const key of Object.keys(modelInfo)) {
-            if (key.endsWith('.context_length') || key.endsWith('_context_length')) {
-              const val = modelInfo[key]
-              if (typeof val === 'number' && isFinite(val) && val > 0) {
-                return val
-              }
-            }
-          }
-        }
-        
-        // Fallback to other common fields
-        const candidates = [
-          (data as any)?.parameters?.num_ctx,
-          (data as any)?.model_info?.num_ctx,
-          (data as any)?.config?.num_ctx,
-          (data as any)?.details?.context_length,
-          (data as any)?.context_length,
-          (data as any)?.num_ctx,
-          (data as any)?.max_tokens,
-          (data as any)?.max_new_tokens
-        ].filter((v: any) => typeof v === 'number' && isFinite(v) && v > 0)
-        if (candidates.length > 0) {
-          return Math.max(...candidates)
-        }
-        
-        // parameters may be a string like "num_ctx=4096 ..."
-        if (typeof (data as any)?.parameters === 'string') {
-          const m = (data as any).parameters.match(/num_ctx\s*[:=]\s*(\d+)/i)
-          if (m) {
-            const n = parseInt(m[1], 10)
-            if (Number.isFinite(n) && n > 0) return n
-          }
-        }
-        return null
-      }
-
-      // Enrich each model via /api/show to get accurate context length
-      // Store context length separately from max_tokens (output limit)
-      const ollamaRoot = normalizeOllamaRoot(ollamaBaseUrl)
-      const enrichedModels = await Promise.all(
-        validModels.map(async (m: any) => {
-          try {
-            const showResp = await fetch(`${ollamaRoot}/api/show`, {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ name: m.model })
-            })
-            if (showResp.ok) {
-              const showData = await showResp.json()
-              const ctx = extractContextTokens(showData)
-              if (typeof ctx === 'number' && isFinite(ctx) && ctx > 0) {
-                // Store context_length separately, don't override max_tokens
-                return { ...m, context_length: ctx }
-              }
-            }
-            // Fallback to default if missing
-            return m
-          } catch {
-            return m
-          }
-        })
+      // Installed models from /api/tags, each with the context length and
+      // tool support /api/show reports
+      const ollamaModels = (await listOllamaModels(ollamaBaseUrl)).map(
+        model => ({
+          model: model.name,
+          provider: 'ollama',
+          // Note: max_tokens here is for OUTPUT tokens, not context length
+          max_tokens: DEFAULT_MAX_TOKENS,
+          context_length: model.contextLength,
+          parameter_size: model.parameterSize,
+          supports_vision: model.supportsVision,
+          supports_function_calling: model.supportsTools,
+          supports_reasoning_effort: false,
+        }),
       )
 
-      setAvailableModels(enrichedModels)
+      setAvailableModels(ollamaModels)
 
       // Only navigate if we have models
-      if (enrichedModels.length > 0) {
+      if (ollamaModels.length > 0) {
         navigateTo('model')
       } else {
-        setModelLoadError('No models found in your Ollama installation')
+        setModelLoadError(
+          'No models found in your Ollama installation. Pull one with "ollama pull <model>".',
+        )
       }
 
-      return enrichedModels
+      return ollamaModels
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : String(error)
@@ -1606,6 +1510,7 @@ export function ModelSelector({
     // No model info available, so set default values
     setSupportsReasoningEffort(false)
     setReasoningEffort(null)
+    setPricing(getDefaultModelPricing(model, selectedProvider))
 
     // Use default max tokens for manually entered models
     setMaxTokensMode('preset')
@@ -1630,6 +1535,8 @@ export function ModelSelector({
       setReasoningEffort(null)
     }
 
+    setPricing(getDefaultModelPricing(model, selectedProvider))
+
     // Set context length if available (from Ollama /api/show)
     if (modelInfo?.context_length) {
       setContextLength(modelInfo.context_length)
@@ -2133,6 +2040,12 @@ export function ModelSelector({
 
   const handleContextLengthSubmit = () => {
     // Context length value is already in state
+    // Navigate to pricing screen
+    navigateTo('pricing')
+  }
+
+  const handlePricingSubmit = (value: ModelPricing | undefined) => {
+    setPricing(value)
     // Navigate to connection test screen
     navigateTo('connectionTest')
   }
@@ -2177,6 +2090,7 @@ export function ModelSelector({
         maxTokens: parseInt(maxTokens) || DEFAULT_MAX_TOKENS,
         contextLength: contextLength || DEFAULT_CONTEXT_LENGTH,
         reasoningEffort,
+        pricing,
       }
 
       // addModel method will throw error if duplicate exists
@@ -3504,6 +3418,53 @@ export function ModelSelector({
     )
   }
 
+  // Render Pricing Screen
+  if (currentScreen === 'pricing') {
+    return (
+      <Box flexDirection="column" gap={1}>
+        <Box
+          flexDirection="column"
+          gap={1}
+          borderStyle="round"
+          borderColor={theme.secondaryBorder}
+          paddingX={2}
+          paddingY={1}
+        >
+          <Text bold>
+            Pricing Configuration{' '}
+            {exitState.pending
+              ? `(press ${exitState.keyName} again to exit)`
+              : ''}
+          </Text>
+          <Box flexDirection="column" gap={1}>
+            <Text bold>
+              Set the price of the model in USD per million tokens:
+            </Text>
+            <Box flexDirection="column" width={70}>
+              <Text color={theme.secondaryText}>
+                Used to report the cost of your sessions. Known models start
+                with their list prices. Cache and reasoning prices default to
+                the input and output prices, and the cost of a model without
+                input and output prices is reported as unknown.
+              </Text>
+            </Box>
+
+            <ModelPricingForm
+              pricing={pricing}
+              onSubmit={handlePricingSubmit}
+            />
+          </Box>
+        </Box>
+
+        <Box marginLeft={1}>
+          <Text dimColor>
+            Tab/↑/↓ to switch fields · Enter to continue · Esc to go back
+          </Text>
+        </Box>
+      </Box>
+    )
+  }
+
   // Render Connection Test Screen
   if (currentScreen === 'connectionTest') {
     const providerDisplayName = getProviderLabel(selectedProvider, 0).split(
@@ -3713,6 +3674,13 @@ export function ModelSelector({
                   <Text color={theme.suggestion}>{reasoningEffort}</Text>
                 </Text>
               )}
+
+              <Text>
+                <Text bold>Pricing: </Text>
+                <Text color={theme.suggestion}>
+                  {formatModelPricing(pricing)}
+                </Text>
+              </Text>
             </Box>
 
             <Box marginTop={1}>
@@ -93,6 +93,7 @@ type Props = {
   readFileTimestamps: { [filename: string]: number }
   abortController: AbortController | null
   onModelChange?: () => void
+  onToggleThinking?: () => void
 }
 
 function getPastedTextPrompt(text: string): string {
@@ -124,6 +125,7 @@ function PromptInput({
   setForkConvoWithMessagesOnTheNextRender,
   readFileTimestamps,
   onModelChange,
+  onToggleThinking,
 }: Props): React.ReactNode {
   const [exitMessage, setExitMessage] = useState<{
     show: boolean
@@ -601,8 +603,14 @@ function PromptInput({
       return true
     }
 
+    // Ctrl+T -> expand or collapse thinking
+    if (key.ctrl && (inputChar === 't' || inputChar === 'T')) {
+      onToggleThinking?.()
+      return true
+    }
+
     return false // Not handled, allow normal processing
-  }, [handleQuickModelSwitch, handleExternalEdit, isEditingExternally])
+  }, [handleQuickModelSwitch, handleExternalEdit, isEditingExternally, onToggleThinking])
 
   const textInputColumns = useTerminalSize().columns - 6
   const tokenUsage = useMemo(() => countTokens(messages), [messages])
@@ -727,7 +735,7 @@ function PromptInput({
                 · # for AGENTS.md
               </Text>
               <Text dimColor>
-                  · / for commands · ctrl+m (or option+m) to switch model · ctrl+g edit in editor · shift+⏎ for newline · esc to undo
+                  · / for commands · ctrl+m (or option+m) to switch model · ctrl+g edit in editor · ctrl+t show thinking · shift+⏎ for newline · esc to undo
               </Text>
             </>
           )}
@@ -2,6 +2,7 @@ import React from 'react'
 import { Box, Text } from 'ink'
 import { getTheme } from '@utils/theme'
 import { applyMarkdown } from '@utils/markdown'
+import { getSessionState } from '@utils/sessionState'
 import {
   ThinkingBlock,
   ThinkingBlockParam,
@@ -20,6 +21,19 @@ export function AssistantThinkingMessage({
     return null
   }
 
+  // Collapsed to a summary line unless expanded with ctrl+t
+  if (!getSessionState('thinkingExpanded')) {
+    const lines = thinking.trim().split('\n').length
+    return (
+      <Box marginTop={addMargin ? 1 : 0} width="100%">
+        <Text color={getTheme().secondaryText} italic>
+          ✻ Thinking… ({lines} {lines === 1 ? 'line' : 'lines'} · ctrl+t to
+          expand)
+        </Text>
+      </Box>
+    )
+  }
+
   return (
     <Box
       flexDirection="column"
@@ -0,0 +1,109 @@
+import { Box, Text } from 'ink'
+import React, { useMemo } from 'react'
+import chalk from 'chalk'
+import { UnaryEvent } from '@hooks/usePermissionRequestLogging'
+import { ExitPlanModeTool } from '@tools/ExitPlanModeTool/ExitPlanModeTool'
+import { applyMarkdown } from '@utils/markdown'
+import { setPermissionMode } from '@utils/permissionMode'
+import { getTheme } from '@utils/theme'
+import { usePermissionRequestLogging } from '@components/permissions/hooks'
+import { type ToolUseConfirm } from '@components/permissions/PermissionRequest'
+import { PermissionRequestTitle } from '@components/permissions/PermissionRequestTitle'
+import { logUnaryPermissionEvent } from '@components/permissions/utils'
+import { Select } from '@components/CustomSelect/select'
+
+type Props = {
+  toolUseConfirm: ToolUseConfirm
+  onDone(): void
+}
+
+export function ExitPlanModePermissionRequest({
+  toolUseConfirm,
+  onDone,
+}: Props): React.ReactNode {
+  const theme = getTheme()
+
+  // ok to use parse since we've already validated args earlier
+  const { plan } = ExitPlanModeTool.inputSchema.parse(toolUseConfirm.input)
+
+  const unaryEvent = useMemo<UnaryEvent>(
+    () => ({ completion_type: 'tool_use_single', language_name: 'none' }),
+    [],
+  )
+
+  usePermissionRequestLogging(toolUseConfirm, unaryEvent)
+
+  return (
+    <Box
+      flexDirection="column"
+      borderStyle="round"
+      borderColor={theme.permission}
+      marginTop={1}
+      paddingLeft={1}
+      paddingRight={1}
+      paddingBottom={1}
+    >
+      <PermissionRequestTitle
+        title="Ready to code?"
+        riskScore={toolUseConfirm.riskScore}
+      />
+      <Box flexDirection="column" paddingX={2} paddingY={1}>
+        <Text>Here is the proposed plan:</Text>
+        <Box
+          borderStyle="round"
+          borderColor={theme.secondaryBorder}
+          paddingX={1}
+          marginTop={1}
+        >
+          <Text>{applyMarkdown(plan)}</Text>
+        </Box>
+      </Box>
+
+      <Box flexDirection="column">
+        <Text>Would you like to proceed?</Text>
+        <Select
+          options={[
+            {
+              label: 'Yes, and auto-accept edits',
+              value: 'yes-accept-edits',
+            },
+            {
+              label: 'Yes, and manually approve edits',
+              value: 'yes-default',
+            },
+            {
+              label: `No, keep planning (${chalk.bold.hex(theme.warning)('esc')})`,
+              value: 'no',
+            },
+          ]}
+          onChange={newValue => {
+            switch (newValue) {
+              case 'yes-accept-edits':
+              case 'yes-default':
+                logUnaryPermissionEvent(
+                  'tool_use_single',
+                  toolUseConfirm,
+                  'accept',
+                )
+                setPermissionMode(
+                  newValue === 'yes-accept-edits' ? 'acceptEdits' : 'default',
+                )
+                toolUseConfirm.onAllow('temporary')
+                onDone()
+                break
+              case 'no':
+                logUnaryPermissionEvent(
+                  'tool_use_single',
+                  toolUseConfirm,
+                  'reject',
+                )
+                toolUseConfirm.onReject()
+                onDone()
+                break
+            }
+          }}
+        />
+      </Box>
+    </Box>
+  )
+}
@@ -27,8 +27,13 @@ import { NotebookEditTool } from '@tools/NotebookEditTool/NotebookEditTool'
 import { NotebookReadTool } from '@tools/NotebookReadTool/NotebookReadTool'
 import { FallbackPermissionRequest } from '@components/permissions/FallbackPermissionRequest'
 import {
+  getReadPermissionDirectory,
+  grantReadPermission,
   grantWritePermissionForOriginalDir,
+  hasReadPermission,
+  isSecretFile,
   pathInOriginalCwd,
+  saveReadPermissionForProject,
   toAbsolutePath,
 } from '@utils/permissions/filesystem'
 import { getCwd } from '@utils/state'
@@ -105,9 +110,22 @@ export function FilesystemPermissionRequest({
 
 function getDontAskAgainOptions(toolUseConfirm: ToolUseConfirm, path: string) {
   if (toolUseConfirm.tool.isReadOnly()) {
-    // "Always allow" is not an option for read-only tools,
-    // because they always have write permission in the project directory.
-    return []
+    // Reads are only asked about outside the project's directories, where
+    // they can be allowed per directory. Secret files ask every time.
+    if (isSecretFile(path) || hasReadPermission(path)) {
+      return []
+    }
+    const directory = getReadPermissionDirectory(path)
+    return [
+      {
+        label: `Yes, and allow reading from ${chalk.bold(directory)} this session`,
+        value: 'yes-allow-reads-session',
+      },
+      {
+        label: `Yes, and always allow reading from ${chalk.bold(directory)} in this project`,
+        value: 'yes-allow-reads-project',
+      },
+    ]
   }
   // Only show don't ask again option for edits in original working directory
   return pathInOriginalCwd(path)
@@ -173,6 +191,13 @@ function FilesystemPermissionRequestImpl({
           )}
           )
         </Text>
+        {toolUseConfirm.tool.isReadOnly() && (
+          <Text color={getTheme().secondaryText}>
+            {isSecretFile(path)
+              ? 'This file may contain secrets'
+              : 'Outside the project and its additional directories'}
+          </Text>
+        )}
       </Box>
 
       <Box flexDirection="column">
@@ -218,6 +243,25 @@ function FilesystemPermissionRequestImpl({
                 toolUseConfirm.onAllow('permanent')
                 onDone()
                 break
+              case 'yes-allow-reads-session':
+              case 'yes-allow-reads-project':
+                logUnaryEvent({
+                  completion_type: 'tool_use_single',
+                  event: 'accept',
+                  metadata: {
+                    language_name: 'none',
+                    message_id: toolUseConfirm.assistantMessage.message.id,
+                    platform: env.platform,
+                  },
+                })
+                if (newValue === 'yes-allow-reads-project') {
+                  saveReadPermissionForProject(getReadPermissionDirectory(path))
+                } else {
+                  grantReadPermission(getReadPermissionDirectory(path))
+                }
+                toolUseConfirm.onAllow('permanent')
+                onDone()
+                break
               case 'no':
                 logUnaryEvent({
                   completion_type: 'tool_use_single',
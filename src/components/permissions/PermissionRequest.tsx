@@ -18,6 +18,10 @@ import { GrepTool } from '@tools/GrepTool/GrepTool'
 import { LSTool } from '@tools/lsTool/lsTool'
 import { FileReadTool } from '@tools/FileReadTool/FileReadTool'
 import { NotebookReadTool } from '@tools/NotebookReadTool/NotebookReadTool'
+import { ExitPlanModeTool } from '@tools/ExitPlanModeTool/ExitPlanModeTool'
+import { ExitPlanModePermissionRequest } from './ExitPlanModePermissionRequest/ExitPlanModePermissionRequest'
+import { URLFetcherTool } from '@tools/URLFetcherTool/URLFetcherTool'
+import { URLFetcherPermissionRequest } from './URLFetcherPermissionRequest/URLFetcherPermissionRequest'
 import { PRODUCT_NAME } from '@constants/product'
 
 function permissionComponentForTool(tool: Tool) {
@@ -35,6 +39,10 @@ function permissionComponentForTool(tool: Tool) {
     case NotebookReadTool:
     case NotebookEditTool:
       return FilesystemPermissionRequest
+    case ExitPlanModeTool:
+      return ExitPlanModePermissionRequest
+    case URLFetcherTool:
+      return URLFetcherPermissionRequest
     default:
       return FallbackPermissionRequest
   }
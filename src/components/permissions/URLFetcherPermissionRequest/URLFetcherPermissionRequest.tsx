@@ -0,0 +1,116 @@
+import { Box, Text } from 'ink'
+import React, { useMemo } from 'react'
+import chalk from 'chalk'
+import { UnaryEvent } from '@hooks/usePermissionRequestLogging'
+import { getUrlFetcherDomain, savePermission } from '@permissions'
+import { getCwd } from '@utils/state'
+import { getTheme } from '@utils/theme'
+import { usePermissionRequestLogging } from '@components/permissions/hooks'
+import { type ToolUseConfirm } from '@components/permissions/PermissionRequest'
+import {
+  PermissionRequestTitle,
+  textColorForRiskScore,
+} from '@components/permissions/PermissionRequestTitle'
+import { logUnaryPermissionEvent } from '@components/permissions/utils'
+import { Select } from '@components/CustomSelect/select'
+
+type Props = {
+  toolUseConfirm: ToolUseConfirm
+  onDone(): void
+}
+
+export function URLFetcherPermissionRequest({
+  toolUseConfirm,
+  onDone,
+}: Props): React.ReactNode {
+  const theme = getTheme()
+  const url = String(toolUseConfirm.input.url)
+  const domain = getUrlFetcherDomain(toolUseConfirm.input)
+
+  const unaryEvent = useMemo<UnaryEvent>(
+    () => ({ completion_type: 'tool_use_single', language_name: 'none' }),
+    [],
+  )
+
+  usePermissionRequestLogging(toolUseConfirm, unaryEvent)
+
+  return (
+    <Box
+      flexDirection="column"
+      borderStyle="round"
+      borderColor={textColorForRiskScore(toolUseConfirm.riskScore)}
+      marginTop={1}
+      paddingLeft={1}
+      paddingRight={1}
+      paddingBottom={1}
+    >
+      <PermissionRequestTitle
+        title="Fetch"
+        riskScore={toolUseConfirm.riskScore}
+      />
+      <Box flexDirection="column" paddingX={2} paddingY={1}>
+        <Text>{url}</Text>
+        <Text color={theme.secondaryText}>
+          {String(toolUseConfirm.input.prompt ?? '')}
+        </Text>
+      </Box>
+
+      <Box flexDirection="column">
+        <Text>Do you want to allow fetching from {chalk.bold(domain)}?</Text>
+        <Select
+          options={[
+            {
+              label: 'Yes',
+              value: 'yes',
+            },
+            {
+              label: `Yes, and don't ask again for ${chalk.bold(domain)} in ${chalk.bold(getCwd())}`,
+              value: 'yes-dont-ask-again',
+            },
+            {
+              label: `No, and provide instructions (${chalk.bold.hex(theme.warning)('esc')})`,
+              value: 'no',
+            },
+          ]}
+          onChange={newValue => {
+            switch (newValue) {
+              case 'yes':
+                logUnaryPermissionEvent(
+                  'tool_use_single',
+                  toolUseConfirm,
+                  'accept',
+                )
+                toolUseConfirm.onAllow('temporary')
+                onDone()
+                break
+              case 'yes-dont-ask-again':
+                logUnaryPermissionEvent(
+                  'tool_use_single',
+                  toolUseConfirm,
+                  'accept',
+                )
+                savePermission(
+                  toolUseConfirm.tool,
+                  toolUseConfirm.input,
+                  null,
+                ).then(() => {
+                  toolUseConfirm.onAllow('permanent')
+                  onDone()
+                })
+                break
+              case 'no':
+                logUnaryPermissionEvent(
+                  'tool_use_single',
+                  toolUseConfirm,
+                  'reject',
+                )
+                toolUseConfirm.onReject()
+                onDone()
+                break
+            }
+          }}
+        />
+      </Box>
+    </Box>
+  )
+}
@@ -57,6 +57,73 @@ const CHAT_COMPLETIONS_CAPABILITIES: ModelCapabilities = {
   }
 }
 
+// Gemini standard capability definition (native generateContent API)
+const GEMINI_CAPABILITIES: ModelCapabilities = {
+  apiArchitecture: {
+    primary: 'gemini_generate_content',
+    fallback: 'chat_completions'
+  },
+  parameters: {
+    maxTokensField: 'max_output_tokens',  // Sent as generationConfig.maxOutputTokens
+    supportsReasoningEffort: false,
+    supportsVerbosity: false,
+    temperatureMode: 'flexible'
+  },
+  toolCalling: {
+    mode: 'function_calling',
+    supportsFreeform: false,
+    supportsAllowedTools: false,
+    supportsParallelCalls: true
+  },
+  stateManagement: {
+    supportsResponseId: false,
+    supportsConversationChaining: false,
+    supportsPreviousResponseId: false
+  },
+  streaming: {
+    supported: true,
+    includesUsage: true
+  }
+}
+
+// Gemini 2.5 and later think, with a budget mapped from the reasoning effort
+const GEMINI_THINKING_CAPABILITIES: ModelCapabilities = {
+  ...GEMINI_CAPABILITIES,
+  parameters: {
+    ...GEMINI_CAPABILITIES.parameters,
+    supportsReasoningEffort: true
+  }
+}
+
+// Ollama native chat API; tools and thinking depend on the installed model
+const OLLAMA_CAPABILITIES: ModelCapabilities = {
+  apiArchitecture: {
+    primary: 'ollama_chat',
+    fallback: 'chat_completions'
+  },
+  parameters: {
+    maxTokensField: 'max_tokens',  // Sent as options.num_predict
+    supportsReasoningEffort: false,
+    supportsVerbosity: false,
+    temperatureMode: 'flexible'
+  },
+  toolCalling: {
+    mode: 'function_calling',
+    supportsFreeform: false,
+    supportsAllowedTools: false,
+    supportsParallelCalls: true
+  },
+  stateManagement: {
+    supportsResponseId: false,
+    supportsConversationChaining: false,
+    supportsPreviousResponseId: false
+  },
+  streaming: {
+    supported: true,
+    includesUsage: true
+  }
+}
+
 // Complete model capability mapping table
 export const MODEL_CAPABILITIES_REGISTRY: Record<string, ModelCapabilities> = {
   // GPT-5 series
@@ -77,6 +144,15 @@ export const MODEL_CAPABILITIES_REGISTRY: Record<string, ModelCapabilities> = {
   'claude-3-5-haiku-20241022': CHAT_COMPLETIONS_CAPABILITIES,
   'claude-3-opus-20240229': CHAT_COMPLETIONS_CAPABILITIES,
   
+  // Gemini series (native API for the gemini provider)
+  'gemini-2.5-pro': GEMINI_THINKING_CAPABILITIES,
+  'gemini-2.5-flash': GEMINI_THINKING_CAPABILITIES,
+  'gemini-2.5-flash-lite': GEMINI_THINKING_CAPABILITIES,
+  'gemini-2.0-flash': GEMINI_CAPABILITIES,
+  'gemini-2.0-flash-lite': GEMINI_CAPABILITIES,
+  'gemini-1.5-pro': GEMINI_CAPABILITIES,
+  'gemini-1.5-flash': GEMINI_CAPABILITIES,
+
   // O1 series (special reasoning models)
   'o1': {
     ...CHAT_COMPLETIONS_CAPABILITIES,
@@ -138,6 +214,13 @@ export function inferModelCapabilities(modelName: string): ModelCapabilities | n
     }
   }
   
+  // Gemini series - thinking from 2.5 on
+  if (lowerName.includes('gemini')) {
+    return /gemini-(1\.|2\.0)/.test(lowerName)
+      ? GEMINI_CAPABILITIES
+      : GEMINI_THINKING_CAPABILITIES
+  }
+
   // O1 series
   if (lowerName.startsWith('o1') || lowerName.includes('o1-')) {
     return {
@@ -182,3 +265,23 @@ export function getModelCapabilities(modelName: string): ModelCapabilities {
   capabilityCache.set(modelName, defaultCapabilities)
   return defaultCapabilities
 }
+
+
+// Ollama capabilities from what the server reports about a model. Models
+// that cannot call tools natively get them through the prompt; when nothing
+// is known, native tools are assumed.
+export function getOllamaCapabilities(
+  model: { supportsTools: boolean; supportsThinking: boolean } | null
+): ModelCapabilities {
+  return {
+    ...OLLAMA_CAPABILITIES,
+    parameters: {
+      ...OLLAMA_CAPABILITIES.parameters,
+      supportsReasoningEffort: model?.supportsThinking ?? false
+    },
+    toolCalling: {
+      ...OLLAMA_CAPABILITIES.toolCalling,
+      mode: model && !model.supportsTools ? 'none' : 'function_calling'
+    }
+  }
+}
@@ -4,7 +4,11 @@ import {
   INTERRUPT_MESSAGE,
   INTERRUPT_MESSAGE_FOR_TOOL_USE,
 } from '@utils/messages'
-import { getCwd } from '@utils/state'
+import { getCwd, getOriginalCwd } from '@utils/state'
+import {
+  getWorkspaceDirectories,
+  toAbsolutePath,
+} from '@utils/permissions/filesystem'
 import { PRODUCT_NAME, PROJECT_FILE, PRODUCT_COMMAND } from './product'
 import { BashTool } from '@tools/BashTool/BashTool'
 
@@ -143,9 +147,16 @@ IMPORTANT: Before you begin work, think about what the code you're editing is su
 
 export async function getEnvInfo(): Promise<string> {
   const isGit = await getIsGit()
+  const additionalDirectories = getWorkspaceDirectories().filter(
+    directory => directory !== toAbsolutePath(getOriginalCwd()),
+  )
   return `Here is useful information about the environment you are running in:
 <env>
-Working directory: ${getCwd()}
+Working directory: ${getCwd()}${
+    additionalDirectories.length > 0
+      ? `\nAdditional working directories: ${additionalDirectories.join(', ')}`
+      : ''
+  }
 Is directory a git repo: ${isGit ? 'Yes' : 'No'}
 Platform: ${env.platform}
 Today's date: ${new Date().toLocaleDateString()}
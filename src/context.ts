@@ -4,7 +4,7 @@ import {
 } from '@utils/config'
 import { logError } from './utils/log'
 import { getCodeStyle } from './utils/style'
-import { getCwd } from './utils/state'
+import { getCwd, getOriginalCwd } from './utils/state'
 import { memoize, omit } from 'lodash-es'
 import { LSTool } from './tools/lsTool/lsTool'
 import { getIsGit } from './utils/git'
@@ -18,6 +18,7 @@ import { getModelManager } from './utils/model'
 import { lastX } from './utils/generators'
 import { getGitEmail } from './utils/user'
 import { PROJECT_FILE } from './constants/product'
+import { getMCPResourceContext } from './services/mcpClient'
 /**
  * Locate AGENTS.md and CLAUDE.md files for backward compatibility with
  * existing documentation workflows.
@@ -95,7 +96,7 @@ export const getReadme = memoize(async (): Promise<string | null> => {
     logError(e)
     return null
   }
-})
+}, getOriginalCwd)
 
 /**
  * Get project documentation content (AGENTS.md and CLAUDE.md)
@@ -133,7 +134,7 @@ export const getProjectDocs = memoize(async (): Promise<string | null> => {
     logError(e)
     return null
   }
-})
+}, getOriginalCwd)
 
 export const getGitStatus = memoize(async (): Promise<string | null> => {
   if (process.env.NODE_ENV === 'test') {
@@ -202,10 +203,36 @@ export const getGitStatus = memoize(async (): Promise<string | null> => {
     logError(error)
     return null
   }
-})
+}, getOriginalCwd)
+
+/**
+ * Content of the MCP resources listed in `mcpContextUris`, each given as
+ * `server:uri`. Resources that can't be read are skipped.
+ */
+async function getMCPContextResources(
+  references: string[] = [],
+): Promise<string | null> {
+  if (references.length === 0) {
+    return null
+  }
+  const contents = await Promise.all(
+    references.map(async reference => {
+      try {
+        return await getMCPResourceContext(reference)
+      } catch (e) {
+        logError(e)
+        return null
+      }
+    }),
+  )
+  const resolved = contents.filter((_): _ is string => Boolean(_))
+  return resolved.length > 0 ? resolved.join('\n\n') : null
+}
 
 /**
  * This context is prepended to each conversation, and cached for the duration of the conversation.
+ * Like the helpers above, it is cached per project directory, so SDK queries
+ * with different `cwd`s each get their own project's context.
  */
 export const getContext = memoize(
   async (): Promise<{
@@ -214,14 +241,21 @@ export const getContext = memoize(
     const codeStyle = getCodeStyle()
     const projectConfig = getCurrentProjectConfig()
     const dontCrawl = projectConfig.dontCrawlDirectory
-    const [gitStatus, directoryStructure, claudeFiles, readme, projectDocs] =
-      await Promise.all([
-        getGitStatus(),
-        dontCrawl ? Promise.resolve('') : getDirectoryStructure(),
-        dontCrawl ? Promise.resolve('') : getClaudeFiles(),
-        getReadme(),
-        getProjectDocs(),
-      ])
+    const [
+      gitStatus,
+      directoryStructure,
+      claudeFiles,
+      readme,
+      projectDocs,
+      mcpResources,
+    ] = await Promise.all([
+      getGitStatus(),
+      dontCrawl ? Promise.resolve('') : getDirectoryStructure(),
+      dontCrawl ? Promise.resolve('') : getClaudeFiles(),
+      getReadme(),
+      getProjectDocs(),
+      getMCPContextResources(projectConfig.mcpContextUris),
+    ])
     return {
       ...projectConfig.context,
       ...(directoryStructure ? { directoryStructure } : {}),
@@ -230,8 +264,10 @@ export const getContext = memoize(
       ...(claudeFiles ? { claudeFiles } : {}),
       ...(readme ? { readme } : {}),
       ...(projectDocs ? { projectDocs } : {}),
+      ...(mcpResources ? { mcpResources } : {}),
     }
   },
+  getOriginalCwd,
 )
 
 /**
@@ -275,4 +311,5 @@ export const getDirectoryStructure = memoize(
 
 ${lines}`
   },
+  getOriginalCwd,
 )
@@ -3,6 +3,7 @@ import React, {
   useContext,
   useState,
   useCallback,
+  useEffect,
   ReactNode,
 } from 'react'
 import {
@@ -11,6 +12,11 @@ import {
   getNextPermissionMode,
   MODE_CONFIGS,
 } from '@cougar-types/PermissionMode'
+import {
+  getPermissionMode,
+  setPermissionModeChangeHandler,
+  syncPermissionMode,
+} from '@utils/permissionMode'
 
 interface PermissionContextValue {
   permissionContext: IPermissionContext
@@ -35,18 +41,18 @@ export function PermissionProvider({
   isBypassPermissionsModeAvailable = false,
 }: PermissionProviderProps) {
   const [permissionContext, setPermissionContext] =
-    useState<IPermissionContext>({
-      mode: 'default',
-      allowedTools: ['*'],
-      allowedPaths: [process.cwd()],
-      restrictions: {
-        readOnly: false,
-        requireConfirmation: true,
-        bypassValidation: false,
-      },
-      metadata: {
-        transitionCount: 0,
-      },
+    useState<IPermissionContext>(() => {
+      // Start from the mode chosen before the UI mounted (e.g. a CLI flag)
+      const initialMode = getPermissionMode()
+      return {
+        mode: initialMode,
+        allowedTools: MODE_CONFIGS[initialMode].allowedTools,
+        allowedPaths: [process.cwd()],
+        restrictions: MODE_CONFIGS[initialMode].restrictions,
+        metadata: {
+          transitionCount: 0,
+        },
+      }
     })
 
   const cycleMode = useCallback(() => {
@@ -76,6 +82,9 @@ export function PermissionProvider({
 
   const setMode = useCallback((mode: PermissionMode) => {
     setPermissionContext(prev => {
+      if (prev.mode === mode) {
+        return prev
+      }
       const modeConfig = MODE_CONFIGS[mode]
 
       return {
@@ -93,6 +102,17 @@ export function PermissionProvider({
     })
   }, [])
 
+  // Keep the module-level mirror in sync so the query loop enforces the
+  // same mode the user sees, and let tools switch modes through it
+  useEffect(() => {
+    syncPermissionMode(permissionContext.mode)
+  }, [permissionContext.mode])
+
+  useEffect(() => {
+    setPermissionModeChangeHandler(setMode)
+    return () => setPermissionModeChangeHandler(null)
+  }, [setMode])
+
   const isToolAllowed = useCallback(
     (toolName: string) => {
       const { allowedTools } = permissionContext
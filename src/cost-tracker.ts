@@ -6,6 +6,7 @@ import {
   saveCurrentProjectConfig,
 } from '@utils/config'
 import { SESSION_ID } from './utils/log'
+import { getSessionUsage, getUnpricedRequests } from '@services/usageLedger'
 
 // DO NOT ADD MORE STATE HERE OR BORIS WILL CURSE YOU
 const STATE: {
@@ -40,8 +41,15 @@ function formatCost(cost: number): string {
 }
 
 export function formatTotalCost(): string {
+  // Requests to models without pricing are left out of the total
+  const unpricedRequests = getUnpricedRequests(getSessionUsage())
+  const unknownCost = unpricedRequests
+    ? ` + unknown (${unpricedRequests} ${
+        unpricedRequests === 1 ? 'request' : 'requests'
+      } to models without pricing)`
+    : ''
   return chalk.grey(
-    `Total cost: ${formatCost(STATE.totalCost)}
+    `Total cost: ${formatCost(STATE.totalCost)}${unknownCost}
 Total duration (API): ${formatDuration(STATE.totalAPIDuration)}
 Total duration (wall): ${formatDuration(getTotalDuration())}`,
   )
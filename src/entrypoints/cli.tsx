@@ -34,13 +34,24 @@ Object.keys(dontcare)
 
 import React from 'react'
 import { ReadStream } from 'tty'
-import { openSync } from 'fs'
+import { openSync, statSync } from 'fs'
 // ink and REPL are imported lazily to avoid top-level awaits during module init
 import type { RenderOptions } from 'ink'
+import type { Message } from '@query'
 import { addToHistory } from '@history'
 import { getContext, setContext, removeContext } from '@context'
-import { Command } from '@commander-js/extra-typings'
-import { ask } from '@utils/ask'
+import {
+  Command,
+  InvalidArgumentError,
+  Option,
+} from '@commander-js/extra-typings'
+import { INPUT_FORMATS, OUTPUT_FORMATS, runPrintMode } from '@utils/printMode'
+import {
+  addSessionPermissionRules,
+  parsePermissionRuleList,
+} from '@utils/permissions/rules'
+import { setPermissionMode } from '@utils/permissionMode'
+import { MODE_CONFIGS, type PermissionMode } from '@cougar-types/PermissionMode'
 import { hasPermissionsToUseTool } from '@permissions'
 import { getTools } from '@tools'
 import {
@@ -74,8 +85,12 @@ import { omit } from 'lodash-es'
 import { getCommands } from '@commands'
 import { getNextAvailableLogForkNumber, loadLogList } from '@utils/log'
 import { loadMessagesFromLog } from '@utils/conversationRecovery'
-import { cleanupOldMessageFilesInBackground } from '@utils/cleanup'
 import {
+  cleanupBackgroundShells,
+  cleanupOldMessageFilesInBackground,
+} from '@utils/cleanup'
+import {
+  handleAddPermissionRule,
   handleListApprovedTools,
   handleRemoveApprovedTool,
 } from '@commands/approvedTools'
@@ -84,6 +99,7 @@ import {
   getMcpServer,
   listMCPServers,
   parseEnvVars,
+  parseHeaders,
   removeMcpServer,
   getClients,
   ensureConfigScope,
@@ -94,12 +110,26 @@ import { cursorShow } from 'ansi-escapes'
 import { getLatestVersion, assertMinVersion, getUpdateCommandSuggestions } from '@utils/autoUpdater'
 import { gt } from 'semver'
 import { CACHE_PATHS } from '@utils/log'
+import {
+  formatTotalUsageCost,
+  formatUsageReport,
+  getCurrentProject,
+  getTotalUsageCost,
+  getUnpricedRequests,
+  getUsageDay,
+  readUsage,
+  summarizeUsage,
+} from '@services/usageLedger'
 // import { checkAndNotifyUpdate } from '@utils/autoUpdater'
 import { PersistentShell } from '@utils/PersistentShell'
 import { clearTerminal } from '@utils/terminal'
 import { showInvalidConfigDialog } from '@components/InvalidConfigDialog'
 import { ConfigParseError } from '@utils/errors'
-import { grantReadPermissionForOriginalDir } from '@utils/permissions/filesystem'
+import {
+  grantReadPermission,
+  grantReadPermissionForOriginalDir,
+  resolveDirectory,
+} from '@utils/permissions/filesystem'
 import { MACRO } from '@constants/macros'
 export function completeOnboarding(): void {
   const config = getGlobalConfig()
@@ -297,7 +327,9 @@ async function main() {
     !process.stdin.isTTY &&
     !process.env.CI &&
     // Input hijacking breaks MCP.
-    !process.argv.includes('mcp')
+    !process.argv.includes('mcp') &&
+    // stream-json input is read turn by turn in print mode
+    !hasStreamJsonInput()
   ) {
     inputPrompt = await stdin()
     if (process.platform !== 'win32') {
@@ -312,6 +344,61 @@ async function main() {
   await parseArgs(inputPrompt, renderContext)
 }
 
+function collectPermissionRules(value: string, previous: string[]): string[] {
+  return [...previous, ...parsePermissionRuleList(value)]
+}
+
+function collectDirectories(value: string, previous: string[]): string[] {
+  return [...previous, value]
+}
+
+// --add-dir directories are relative to --cwd and readable for this session
+function addReadDirectories(directories: string[], cwd: string): void {
+  for (const directory of directories) {
+    const resolved = resolveDirectory(directory, cwd)
+    if (!existsSync(resolved) || !statSync(resolved).isDirectory()) {
+      console.error(`Error: --add-dir ${directory} is not a directory`)
+      process.exit(1)
+    }
+    grantReadPermission(resolved)
+  }
+}
+
+function parsePositiveInteger(value: string): number {
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new InvalidArgumentError('Expected a positive integer.')
+  }
+  return parsed
+}
+
+// A date such as 2025-01-27, or a duration back from now such as 7d or 12h
+function parseSinceDate(value: string): Date {
+  const duration = value.match(/^(\d+)([dh])$/)
+  if (duration) {
+    const hours = Number(duration[1]) * (duration[2] === 'd' ? 24 : 1)
+    return new Date(Date.now() - hours * 60 * 60 * 1000)
+  }
+  // Plain dates are local midnight rather than UTC
+  const date = new Date(
+    /^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00` : value,
+  )
+  if (isNaN(date.getTime())) {
+    throw new InvalidArgumentError(
+      'Expected a date such as 2025-01-27, or a duration such as 7d.',
+    )
+  }
+  return date
+}
+
+function hasStreamJsonInput(): boolean {
+  const index = process.argv.indexOf('--input-format')
+  return (
+    (index !== -1 && process.argv[index + 1] === 'stream-json') ||
+    process.argv.includes('--input-format=stream-json')
+  )
+}
+
 async function parseArgs(
   stdinContent: string,
   renderContext: RenderOptions | undefined,
@@ -359,16 +446,100 @@ ${commandList}`,
       'Print response and exit (useful for pipes)',
       () => true,
     )
+    .addOption(
+      new Option(
+        '--output-format <format>',
+        'Output format for --print: "text", "json" (single result object) or "stream-json" (one event per line)',
+      )
+        .choices(OUTPUT_FORMATS)
+        .default('text' as const),
+    )
+    .addOption(
+      new Option(
+        '--input-format <format>',
+        'Input format for --print: "text" or "stream-json" (one user message per stdin line)',
+      )
+        .choices(INPUT_FORMATS)
+        .default('text' as const),
+    )
     .option(
       '--safe',
       'Enable strict permission checking mode (default is permissive)',
       () => true,
     )
+    .option(
+      '--allowedTools <tools>',
+      'Comma or space-separated tool rules to allow for this session, e.g. "View,Bash(npm test:*)" (implies --safe)',
+      collectPermissionRules,
+      [] as string[],
+    )
+    .option(
+      '--disallowedTools <tools>',
+      'Comma or space-separated tool rules to deny for this session, e.g. "Bash(git push:*),URLFetcher"',
+      collectPermissionRules,
+      [] as string[],
+    )
+    .option(
+      '--add-dir <directory>',
+      'Another directory tools may read without asking, for this session (can be repeated)',
+      collectDirectories,
+      [] as string[],
+    )
+    .addOption(
+      new Option(
+        '--permission-mode <mode>',
+        'Permission mode to start the session in (default, acceptEdits and plan imply --safe)',
+      ).choices(Object.keys(MODE_CONFIGS) as PermissionMode[]),
+    )
+    .option(
+      '--max-turns <turns>',
+      'Stop after this many tool rounds in --print mode (exits with code 3)',
+      parsePositiveInteger,
+    )
+    .option(
+      '--continue',
+      'Continue the most recent conversation in the current directory',
+      () => true,
+    )
     .action(
-      async (prompt, { cwd, debug, verbose, enableArchitect, print, safe }) => {
-        await showSetupScreens(safe, print)
+      async (
+        prompt,
+        {
+          cwd,
+          debug,
+          verbose,
+          enableArchitect,
+          print,
+          safe: safeFlag,
+          outputFormat,
+          inputFormat,
+          allowedTools,
+          disallowedTools,
+          addDir,
+          permissionMode,
+          maxTurns,
+          continue: continueConversation,
+        },
+      ) => {
+        // Flag rules and mode apply to this invocation only and are never
+        // written to the project config. An allowlist or a non-bypass mode
+        // only makes sense with permission checks on, so they imply --safe.
+        addSessionPermissionRules('allow', allowedTools)
+        addSessionPermissionRules('deny', disallowedTools)
+        if (permissionMode) {
+          setPermissionMode(permissionMode)
+        }
+        const safe =
+          safeFlag ||
+          allowedTools.length > 0 ||
+          (permissionMode !== undefined &&
+            permissionMode !== 'bypassPermissions') ||
+          undefined
+
+        await showSetupScreens(safeFlag, print)
         
-        await setup(cwd, safe)
+        await setup(cwd, safeFlag)
+        addReadDirectories(addDir, cwd)
 
         assertMinVersion()
 
@@ -379,16 +550,26 @@ ${commandList}`,
           getClients(),
         ])
         const inputPrompt = [prompt, stdinContent].filter(Boolean).join('\n')
+        if (maxTurns !== undefined && !print) {
+          console.error('Error: --max-turns can only be used with --print')
+          process.exit(1)
+        }
         if (print) {
-          if (!inputPrompt) {
+          if (continueConversation) {
+            console.error('Error: --continue cannot be used with --print')
+            process.exit(1)
+          }
+          if (!inputPrompt && inputFormat !== 'stream-json') {
             console.error(
               'Error: Input must be provided either through stdin or as a prompt argument when using --print',
             )
             process.exit(1)
           }
 
-          addToHistory(inputPrompt)
-          const { resultText: response } = await ask({
+          if (inputPrompt) {
+            addToHistory(inputPrompt)
+          }
+          const exitCode = await runPrintMode({
             commands,
             hasPermissionsToUseTool,
             messageLogName: dateToFilename(new Date()),
@@ -396,12 +577,39 @@ ${commandList}`,
             cwd,
             tools,
             safeMode: safe,
+            verbose,
+            maxTurns,
+            outputFormat,
+            inputFormat,
           })
-          console.log(response)
-          process.exit(0)
+          process.exit(exitCode)
         } else {
           const isDefaultModel = await isDefaultSlowAndCapableModel()
 
+          // Resume the latest conversation without showing the picker. Like
+          // `resume`, it continues in a new fork of that conversation's log.
+          let resumed:
+            | { date: string; forkNumber: number; messages: Message[] }
+            | undefined
+          if (continueConversation) {
+            const log = (await loadLogList(CACHE_PATHS.messages())).find(
+              _ => !_.sidechainNumber,
+            )
+            if (!log) {
+              console.error('No conversation found to continue')
+              process.exit(1)
+            }
+            resumed = {
+              date: log.date,
+              forkNumber: getNextAvailableLogForkNumber(
+                log.date,
+                log.forkNumber ?? 1,
+                0,
+              ),
+              messages: await loadMessagesFromLog(log.fullPath, tools),
+            }
+          }
+
           // Prefetch update info before first render to place banner at top
           const updateInfo = await (async () => {
             try {
@@ -422,7 +630,9 @@ ${commandList}`,
               commands={commands}
               debug={debug}
               initialPrompt={inputPrompt}
-              messageLogName={dateToFilename(new Date())}
+              messageLogName={resumed?.date ?? dateToFilename(new Date())}
+              initialForkNumber={resumed?.forkNumber}
+              initialMessages={resumed?.messages}
               shouldShowPromptInput={true}
               verbose={verbose}
               tools={tools}
@@ -520,16 +730,32 @@ ${commandList}`,
 
   allowedTools
     .command('list')
-    .description('List all approved tools')
+    .description('List all approved, denied and always-ask tool rules')
     .action(async () => {
       const result = handleListApprovedTools(getCwd())
       console.log(result)
       process.exit(0)
     })
 
+  allowedTools
+    .command('add <rule>')
+    .description(
+      'Add a tool rule, e.g. "Bash(npm test:*)", "Edit(infra/prod/**)" or "URLFetcher(domain:docs.example.com)"',
+    )
+    .option('--deny', 'Never allow tool calls matching the rule')
+    .option('--ask', 'Always ask before tool calls matching the rule')
+    .action(async (rule: string, { deny, ask }) => {
+      const result = handleAddPermissionRule(
+        rule,
+        deny ? 'deny' : ask ? 'ask' : 'allow',
+      )
+      console.log(result.message)
+      process.exit(result.success ? 0 : 1)
+    })
+
   allowedTools
     .command('remove <tool>')
-    .description('Remove a tool from the list of approved tools')
+    .description('Remove a tool rule from the allow, deny and ask lists')
     .action(async (tool: string) => {
       const result = handleRemoveApprovedTool(tool)
       console.log(result.message)
@@ -545,8 +771,19 @@ ${commandList}`,
   mcp
     .command('serve')
     .description(`Start the ${PRODUCT_NAME} MCP server`)
-    .action(async () => {
-      const providedCwd = (program.opts() as { cwd?: string }).cwd ?? cwd()
+    .option(
+      '--tools <tools>',
+      'Comma-separated list of tool names to expose (default: all enabled tools)',
+    )
+    .option('-c, --cwd <cwd>', 'The current working directory', String)
+    .option(
+      '--safe',
+      'Enable strict permission checking mode (default is permissive)',
+      () => true,
+    )
+    .action(async ({ tools, cwd: providedCwdOption, safe }) => {
+      const providedCwd =
+        providedCwdOption ?? (program.opts() as { cwd?: string }).cwd ?? cwd()
 
       // Verify the directory exists
       if (!existsSync(providedCwd)) {
@@ -556,7 +793,13 @@ ${commandList}`,
 
       try {
         await setup(providedCwd, false)
-        await startMCPServer(providedCwd)
+        await startMCPServer(providedCwd, {
+          tools: tools
+            ?.split(',')
+            .map(tool => tool.trim())
+            .filter(Boolean),
+          safeMode: safe,
+        })
       } catch (error) {
         console.error('Error: Failed to start MCP server:', error)
         process.exit(1)
@@ -571,11 +814,24 @@ ${commandList}`,
       'Configuration scope (project or global)',
       'project',
     )
+    .option(
+      '-H, --header <header...>',
+      'Set request headers, ${VAR} is expanded (e.g. -H "Authorization: Bearer ${TOKEN}")',
+    )
     .action(async (name, url, options) => {
       try {
         const scope = ensureConfigScope(options.scope)
+        const headers = parseHeaders(options.header)
 
-        addMcpServer(name, { type: 'sse', url }, scope)
+        addMcpServer(
+          name,
+          {
+            type: 'sse',
+            url,
+            ...(Object.keys(headers).length > 0 ? { headers } : {}),
+          },
+          scope,
+        )
         console.log(
           `Added SSE MCP server ${name} with URL ${url} to ${scope} config`,
         )
@@ -594,10 +850,20 @@ ${commandList}`,
       'Configuration scope (project or global)',
       'project',
     )
+    .addOption(
+      new Option(
+        '-t, --transport <transport>',
+        'Transport type (default: stdio, or sse for URLs)',
+      ).choices(['stdio', 'sse', 'http'] as const),
+    )
     .option(
       '-e, --env <env...>',
       'Set environment variables (e.g. -e KEY=value)',
     )
+    .option(
+      '-H, --header <header...>',
+      'Set request headers for sse/http servers, ${VAR} is expanded (e.g. -H "Authorization: Bearer ${TOKEN}")',
+    )
     .action(async (name, commandOrUrl, args, options) => {
       try {
         // If name is not provided, start interactive wizard
@@ -622,11 +888,11 @@ ${commandList}`,
 
           // Get server type
           const serverType = await question(
-            'Server type (stdio or sse) [stdio]: ',
+            'Server type (stdio, sse or http) [stdio]: ',
           )
           const type =
-            serverType && ['stdio', 'sse'].includes(serverType)
-              ? serverType
+            serverType && ['stdio', 'sse', 'http'].includes(serverType)
+              ? (serverType as 'stdio' | 'sse' | 'http')
               : 'stdio'
 
           // Get command or URL
@@ -640,9 +906,10 @@ ${commandList}`,
             process.exit(1)
           }
 
-          // Get args and env if stdio
+          // Get args and env if stdio, headers otherwise
           let serverArgs: string[] = []
           let serverEnv: Record<string, string> = {}
+          let serverHeaders: Record<string, string> = {}
 
           if (type === 'stdio') {
             const argsStr = await question(
@@ -657,6 +924,15 @@ ${commandList}`,
               const envPairs = envStr.split(',').map(pair => pair.trim())
               serverEnv = parseEnvVars(envPairs.map(pair => pair))
             }
+          } else {
+            const headersStr = await question(
+              'Headers (format: Name1: value1,Name2: value2): ',
+            )
+            if (headersStr) {
+              serverHeaders = parseHeaders(
+                headersStr.split(',').map(header => header.trim()),
+              )
+            }
           }
 
           // Get scope
@@ -668,15 +944,21 @@ ${commandList}`,
           rl.close()
 
           // Add the server
-          if (type === 'sse') {
+          if (type !== 'stdio') {
             
             addMcpServer(
               serverName,
-              { type: 'sse', url: commandOrUrlValue },
+              {
+                type,
+                url: commandOrUrlValue,
+                ...(Object.keys(serverHeaders).length > 0
+                  ? { headers: serverHeaders }
+                  : {}),
+              },
               serverScope,
             )
             console.log(
-              `Added SSE MCP server ${serverName} with URL ${commandOrUrlValue} to ${serverScope} config`,
+              `Added ${type.toUpperCase()} MCP server ${serverName} with URL ${commandOrUrlValue} to ${serverScope} config`,
             )
           } else {
             
@@ -699,12 +981,24 @@ ${commandList}`,
           // Regular non-interactive flow
           const scope = ensureConfigScope(options.scope)
 
-          // Check if it's an SSE URL (starts with http:// or https://)
-          if (commandOrUrl.match(/^https?:\/\//)) {
-            
-            addMcpServer(name, { type: 'sse', url: commandOrUrl }, scope)
+          // URLs default to SSE for backwards compatibility
+          const transport =
+            options.transport ??
+            (commandOrUrl.match(/^https?:\/\//) ? 'sse' : 'stdio')
+
+          if (transport !== 'stdio') {
+            const headers = parseHeaders(options.header)
+            addMcpServer(
+              name,
+              {
+                type: transport,
+                url: commandOrUrl,
+                ...(Object.keys(headers).length > 0 ? { headers } : {}),
+              },
+              scope,
+            )
             console.log(
-              `Added SSE MCP server ${name} with URL ${commandOrUrl} to ${scope} config`,
+              `Added ${transport.toUpperCase()} MCP server ${name} with URL ${commandOrUrl} to ${scope} config`,
             )
           } else {
             
@@ -765,8 +1059,8 @@ ${commandList}`,
         )
       } else {
         for (const [name, server] of Object.entries(servers)) {
-          if (server.type === 'sse') {
-            console.log(`${name}: ${server.url} (SSE)`)
+          if (server.type === 'sse' || server.type === 'http') {
+            console.log(`${name}: ${server.url} (${server.type.toUpperCase()})`)
           } else {
             console.log(`${name}: ${server.command} ${server.args.join(' ')}`)
           }
@@ -777,7 +1071,7 @@ ${commandList}`,
 
   mcp
     .command('add-json <name> <json>')
-    .description('Add an MCP server (stdio or SSE) with a JSON string')
+    .description('Add an MCP server (stdio, SSE or HTTP) with a JSON string')
     .option(
       '-s, --scope <scope>',
       'Configuration scope (project or global)',
@@ -799,14 +1093,19 @@ ${commandList}`,
         // Validate the server config
         if (
           !serverConfig.type ||
-          !['stdio', 'sse'].includes(serverConfig.type)
+          !['stdio', 'sse', 'http'].includes(serverConfig.type)
         ) {
-          console.error('Error: Server type must be "stdio" or "sse"')
+          console.error('Error: Server type must be "stdio", "sse" or "http"')
           process.exit(1)
         }
 
-        if (serverConfig.type === 'sse' && !serverConfig.url) {
-          console.error('Error: SSE server must have a URL')
+        if (
+          (serverConfig.type === 'sse' || serverConfig.type === 'http') &&
+          !serverConfig.url
+        ) {
+          console.error(
+            `Error: ${serverConfig.type.toUpperCase()} server must have a URL`,
+          )
           process.exit(1)
         }
 
@@ -819,9 +1118,9 @@ ${commandList}`,
         
         addMcpServer(name, serverConfig, scope)
 
-        if (serverConfig.type === 'sse') {
+        if (serverConfig.type === 'sse' || serverConfig.type === 'http') {
           console.log(
-            `Added SSE MCP server ${name} with URL ${serverConfig.url} to ${scope} config`,
+            `Added ${serverConfig.type.toUpperCase()} MCP server ${name} with URL ${serverConfig.url} to ${scope} config`,
           )
         } else {
           console.log(
@@ -850,9 +1149,15 @@ ${commandList}`,
       }
       console.log(`${name}:`)
       console.log(`  Scope: ${server.scope}`)
-      if (server.type === 'sse') {
-        console.log(`  Type: sse`)
+      if (server.type === 'sse' || server.type === 'http') {
+        console.log(`  Type: ${server.type}`)
         console.log(`  URL: ${server.url}`)
+        if (server.headers) {
+          console.log('  Headers:')
+          for (const [key, value] of Object.entries(server.headers)) {
+            console.log(`    ${key}: ${value}`)
+          }
+        }
       } else {
         console.log(`  Type: stdio`)
         console.log(`  Command: ${server.command}`)
@@ -1237,6 +1542,46 @@ ${commandList}`,
       process.exit(0)
     })
 
+  // claude usage
+  program
+    .command('usage')
+    .description(
+      'Show token usage and cost of this project per model and per day',
+    )
+    .option('-c, --cwd <cwd>', 'The current working directory', String, cwd())
+    .option(
+      '--since <date>',
+      'Only include usage since a date (2025-01-27) or for a duration (7d, 12h)',
+      parseSinceDate,
+    )
+    .option('--json', 'Output the usage as JSON')
+    .action(async ({ cwd, since, json }) => {
+      await setup(cwd, false)
+      const entries = readUsage({ since })
+      if (json) {
+        console.log(
+          JSON.stringify(
+            {
+              project: getCurrentProject(),
+              since: since?.toISOString() ?? null,
+              totalCostUSD: getTotalUsageCost(entries),
+              unpricedRequests: getUnpricedRequests(entries),
+              models: summarizeUsage(entries, _ => _.model),
+              days: summarizeUsage(entries, getUsageDay),
+            },
+            null,
+            2,
+          ),
+        )
+      } else if (entries.length === 0) {
+        console.log('No usage recorded for this project')
+      } else {
+        console.log(formatUsageReport(entries))
+        console.log(`Total cost: ${formatTotalUsageCost(entries)}`)
+      }
+      process.exit(0)
+    })
+
   // claude log
   program
     .command('log')
@@ -1279,8 +1624,41 @@ ${commandList}`,
       'Enable strict permission checking mode (default is permissive)',
       () => true,
     )
-    .action(async (identifier, { cwd, enableArchitect, safe, verbose }) => {
-      await setup(cwd, safe)
+    .option(
+      '--allowedTools <tools>',
+      'Comma or space-separated tool rules to allow for this session, e.g. "View,Bash(npm test:*)" (implies --safe)',
+      collectPermissionRules,
+      [] as string[],
+    )
+    .option(
+      '--disallowedTools <tools>',
+      'Comma or space-separated tool rules to deny for this session, e.g. "Bash(git push:*),URLFetcher"',
+      collectPermissionRules,
+      [] as string[],
+    )
+    .addOption(
+      new Option(
+        '--permission-mode <mode>',
+        'Permission mode to start the session in (default, acceptEdits and plan imply --safe)',
+      ).choices(Object.keys(MODE_CONFIGS) as PermissionMode[]),
+    )
+    .action(async (identifier, options) => {
+      const { cwd, enableArchitect, safe: safeFlag, verbose } = options
+      const { allowedTools, disallowedTools, permissionMode } = options
+      // Same session-only rules and mode as the main command
+      addSessionPermissionRules('allow', allowedTools)
+      addSessionPermissionRules('deny', disallowedTools)
+      if (permissionMode) {
+        setPermissionMode(permissionMode)
+      }
+      const safe =
+        safeFlag ||
+        allowedTools.length > 0 ||
+        (permissionMode !== undefined &&
+          permissionMode !== 'bypassPermissions') ||
+        undefined
+
+      await setup(cwd, safeFlag)
       assertMinVersion()
 
       const [tools, commands, logs, mcpClients] = await Promise.all([
@@ -1358,6 +1736,7 @@ ${commandList}`,
               logs={logs}
               tools={tools}
               verbose={verbose}
+              safeMode={safe}
             />,
             renderContextWithExitOnCtrlC,
           )
@@ -1474,11 +1853,13 @@ async function stdin() {
 process.on('exit', () => {
   resetCursor()
   PersistentShell.closeIfInitialized()
+  cleanupBackgroundShells()
 })
 
 function gracefulExit(code = 0) {
   try { resetCursor() } catch {}
   PersistentShell.closeIfInitialized()
+  cleanupBackgroundShells()
   process.exit(code)
 }
 
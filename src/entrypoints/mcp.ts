@@ -2,31 +2,39 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js'
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
-  CallToolResultSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
   ListToolsRequestSchema,
-  ListToolsResultSchema,
-  ToolSchema,
+  ReadResourceRequestSchema,
+  type CallToolResult,
+  type GetPromptResult,
+  type ListPromptsResult,
+  type ListResourcesResult,
+  type ListToolsResult,
+  type ReadResourceResult,
+  type Tool as MCPTool,
 } from '@modelcontextprotocol/sdk/types.js'
-import { z } from 'zod'
+import type { MessageParam } from '@anthropic-ai/sdk/resources/index.mjs'
+import { randomUUID } from 'crypto'
+import { existsSync, readFileSync } from 'fs'
+import { join } from 'path'
+import { pathToFileURL } from 'url'
 import { zodToJsonSchema } from 'zod-to-json-schema'
-import { TaskTool } from '@tools/TaskTool/TaskTool'
 import { hasPermissionsToUseTool } from '@permissions'
-import { setCwd } from '@utils/state'
-import { getModelManager } from '@utils/model'
+import { getCwd, setCwd } from '@utils/state'
 import { logError } from '@utils/log'
-import { LSTool } from '@tools/lsTool/lsTool'
-import { BashTool } from '@tools/BashTool/BashTool'
-import { FileEditTool } from '@tools/FileEditTool/FileEditTool'
-import { FileReadTool } from '@tools/FileReadTool/FileReadTool'
-import { GlobTool } from '@tools/GlobTool/GlobTool'
-import { GrepTool } from '@tools/GrepTool/GrepTool'
-import { FileWriteTool } from '@tools/FileWriteTool/FileWriteTool'
-import { Tool, getToolDescription } from '@tool'
+import { getTools } from '@tools'
+import { ExitPlanModeTool } from '@tools/ExitPlanModeTool/ExitPlanModeTool'
+import { Tool, ToolUseContext, getToolDescription } from '@tool'
 import { Command } from '@commands'
 import review from '@commands/review'
-import { lastX } from '@utils/generators'
+import { loadCustomCommands } from '@services/customCommands'
+import { checkPermissionsAndCallTool, type UserMessage } from '@query'
+import { createAssistantMessage } from '@utils/messages'
+import { getTodos } from '@utils/todoStorage'
 import { MACRO } from '@constants/macros'
-type ToolInput = z.infer<typeof ToolSchema.shape.inputSchema>
+import { PRODUCT_COMMAND, PROJECT_FILE } from '@constants/product'
 
 const state: {
   readFileTimestamps: Record<string, number>
@@ -36,39 +44,133 @@ const state: {
 
 const MCP_COMMANDS: Command[] = [review]
 
-const MCP_TOOLS: Tool[] = [
-  TaskTool as unknown as Tool,
-  BashTool as unknown as Tool,
-  FileEditTool as unknown as Tool,
-  FileReadTool as unknown as Tool,
-  GlobTool as unknown as Tool,
-  GrepTool as unknown as Tool,
-  FileWriteTool as unknown as Tool,
-  LSTool as unknown as Tool,
-]
-
-export async function startMCPServer(cwd: string): Promise<void> {
+const TODOS_RESOURCE_URI = `${PRODUCT_COMMAND}://todos`
+
+// ExitPlanMode needs the interactive plan approval dialog
+const INTERACTIVE_ONLY_TOOLS: Tool[] = [ExitPlanModeTool as unknown as Tool]
+
+type MCPServerOptions = {
+  // Tool names to expose; every enabled tool when omitted
+  tools?: string[]
+  safeMode?: boolean
+}
+
+async function getServerTools(allowlist?: string[]): Promise<Tool[]> {
+  const tools = (await getTools()).filter(
+    tool => !INTERACTIVE_ONLY_TOOLS.includes(tool),
+  )
+  if (!allowlist?.length) {
+    return tools
+  }
+  return tools.filter(tool => allowlist.includes(tool.name))
+}
+
+async function getServerCommands(): Promise<Command[]> {
+  const customCommands = (await loadCustomCommands()) as Command[]
+  return [...MCP_COMMANDS, ...customCommands].filter(
+    command => command.type === 'prompt' && command.isEnabled,
+  )
+}
+
+async function getServerToolDescription(tool: Tool): Promise<string> {
+  if (typeof tool.description === 'function') {
+    try {
+      return await tool.description()
+    } catch (error) {
+      logError(error)
+    }
+  }
+  return getToolDescription(tool)
+}
+
+function messageContentToText(content: MessageParam['content']): string {
+  if (typeof content === 'string') {
+    return content
+  }
+  return content
+    .map(block => (block.type === 'text' ? block.text : ''))
+    .filter(Boolean)
+    .join('\n')
+}
+
+/**
+ * Convert a tool's result for the assistant (a string or Anthropic content
+ * blocks) into MCP content
+ */
+function toMCPContent(result: string | unknown[]): CallToolResult['content'] {
+  if (typeof result === 'string') {
+    return [{ type: 'text', text: result }]
+  }
+  return result.map(item => {
+    const block = item as {
+      type?: string
+      text?: string
+      source?: { data?: string; media_type?: string }
+    }
+    if (block.type === 'image' && block.source?.data) {
+      return {
+        type: 'image' as const,
+        data: block.source.data,
+        mimeType: block.source.media_type ?? 'image/png',
+      }
+    }
+    return {
+      type: 'text' as const,
+      text: block.type === 'text' ? (block.text ?? '') : JSON.stringify(item),
+    }
+  })
+}
+
+function getProjectFilePath(): string {
+  return join(getCwd(), PROJECT_FILE)
+}
+
+export async function startMCPServer(
+  cwd: string,
+  options: MCPServerOptions = {},
+): Promise<void> {
   await setCwd(cwd)
   const server = new Server(
     {
-      name: 'claude/tengu',
+      name: PRODUCT_COMMAND,
       version: MACRO.VERSION,
     },
     {
       capabilities: {
         tools: {},
+        prompts: {},
+        resources: {},
       },
     },
   )
 
+  async function createToolUseContext(): Promise<ToolUseContext> {
+    return {
+      abortController: new AbortController(),
+      messageId: undefined,
+      safeMode: options.safeMode,
+      options: {
+        commands: await getServerCommands(),
+        tools: await getServerTools(options.tools),
+        forkNumber: 0,
+        messageLogName: 'unused',
+        maxThinkingTokens: 0,
+        safeMode: options.safeMode,
+      },
+      readFileTimestamps: state.readFileTimestamps,
+    }
+  }
+
   server.setRequestHandler(
     ListToolsRequestSchema,
-    async (): Promise<z.infer<typeof ListToolsResultSchema>> => {
+    async (): Promise<ListToolsResult> => {
       const tools = await Promise.all(
-        MCP_TOOLS.map(async tool => ({
-          ...tool,
-          description: getToolDescription(tool),
-          inputSchema: zodToJsonSchema(tool.inputSchema) as ToolInput,
+        (await getServerTools(options.tools)).map(async tool => ({
+          name: tool.name,
+          description: await getServerToolDescription(tool),
+          inputSchema: (tool.inputJSONSchema ??
+            zodToJsonSchema(tool.inputSchema)) as MCPTool['inputSchema'],
+          annotations: { readOnlyHint: tool.isReadOnly() },
         })),
       )
 
@@ -80,76 +182,46 @@ export async function startMCPServer(cwd: string): Promise<void> {
 
   server.setRequestHandler(
     CallToolRequestSchema,
-    async (request): Promise<z.infer<typeof CallToolResultSchema>> => {
+    async (request): Promise<CallToolResult> => {
       const { name, arguments: args } = request.params
-      const tool = MCP_TOOLS.find(_ => _.name === name)
+      const tool = (await getServerTools(options.tools)).find(
+        _ => _.name === name,
+      )
       if (!tool) {
         throw new Error(`Tool ${name} not found`)
       }
 
-      // TODO: validate input types with zod
       try {
-        if (!(await tool.isEnabled())) {
-          throw new Error(`Tool ${name} is not enabled`)
+        // Same pipeline as the query loop: hooks, permission mode, deny rules
+        // and permissions. There is nobody to ask, so calls that would prompt
+        // in the REPL are refused.
+        const toolUseID = randomUUID()
+        let lastMessage: UserMessage | undefined
+        for await (const message of checkPermissionsAndCallTool(
+          tool,
+          toolUseID,
+          new Set([toolUseID]),
+          (args ?? {}) as { [key: string]: boolean | string | number },
+          await createToolUseContext(),
+          hasPermissionsToUseTool,
+          createAssistantMessage(''),
+        )) {
+          if (message.type === 'user') {
+            lastMessage = message
+          }
         }
-        const model = getModelManager().getModelName('main')
-        const validationResult = await tool.validateInput?.(
-          (args as never) ?? {},
-          {
-            abortController: new AbortController(),
-            options: {
-              commands: MCP_COMMANDS,
-              tools: MCP_TOOLS,
-              forkNumber: 0,
-              messageLogName: 'unused',
-              maxThinkingTokens: 0,
-            },
-            messageId: undefined,
-            readFileTimestamps: state.readFileTimestamps,
-          },
-        )
-        if (validationResult && !validationResult.result) {
-          throw new Error(
-            `Tool ${name} input is invalid: ${validationResult.message}`,
-          )
-        }
-        const result = tool.call(
-          (args ?? {}) as never,
-          {
-            abortController: new AbortController(),
-            messageId: undefined,
-            options: {
-              commands: MCP_COMMANDS,
-              tools: MCP_TOOLS,
-              forkNumber: 0,
-              messageLogName: 'unused',
-              maxThinkingTokens: 0,
-            },
-            readFileTimestamps: state.readFileTimestamps,
-          },
-        )
-
-        const finalResult = await lastX(result)
 
-        if (finalResult.type !== 'result') {
+        const content = lastMessage?.message.content
+        const toolResult = Array.isArray(content)
+          ? content.find(block => block.type === 'tool_result')
+          : undefined
+        if (!toolResult || toolResult.type !== 'tool_result') {
           throw new Error(`Tool ${name} did not return a result`)
         }
 
         return {
-          content: Array.isArray(finalResult)
-            ? finalResult.map(item => ({
-                type: 'text' as const,
-                text: 'text' in item ? item.text : JSON.stringify(item),
-              }))
-            : [
-                {
-                  type: 'text' as const,
-                  text:
-                    typeof finalResult === 'string'
-                      ? finalResult
-                      : JSON.stringify(finalResult.data),
-                },
-              ],
+          ...(toolResult.is_error ? { isError: true } : {}),
+          content: toMCPContent(toolResult.content ?? ''),
         }
       } catch (error) {
         logError(error)
@@ -166,6 +238,113 @@ export async function startMCPServer(cwd: string): Promise<void> {
     },
   )
 
+  server.setRequestHandler(
+    ListPromptsRequestSchema,
+    async (): Promise<ListPromptsResult> => {
+      const commands = await getServerCommands()
+      return {
+        prompts: commands.map(command => ({
+          name: command.userFacingName(),
+          description: command.description,
+          arguments:
+            command.type === 'prompt' && command.argNames?.length
+              ? command.argNames.map(argName => ({
+                  name: argName,
+                  required: false,
+                }))
+              : [{ name: 'args', description: 'Arguments', required: false }],
+        })),
+      }
+    },
+  )
+
+  server.setRequestHandler(
+    GetPromptRequestSchema,
+    async (request): Promise<GetPromptResult> => {
+      const { name, arguments: promptArgs = {} } = request.params
+      const command = (await getServerCommands()).find(
+        _ => _.userFacingName() === name,
+      )
+      if (!command || command.type !== 'prompt') {
+        throw new Error(`Prompt ${name} not found`)
+      }
+
+      const args = command.argNames?.length
+        ? command.argNames.map(argName => promptArgs[argName] ?? '').join(' ')
+        : (promptArgs.args ?? '')
+      const messages = await command.getPromptForCommand(args)
+      return {
+        description: command.description,
+        messages: messages.map(message => ({
+          role: message.role,
+          content: {
+            type: 'text' as const,
+            text: messageContentToText(message.content),
+          },
+        })),
+      }
+    },
+  )
+
+  server.setRequestHandler(
+    ListResourcesRequestSchema,
+    async (): Promise<ListResourcesResult> => {
+      const resources: ListResourcesResult['resources'] = []
+      const projectFilePath = getProjectFilePath()
+      if (existsSync(projectFilePath)) {
+        resources.push({
+          uri: pathToFileURL(projectFilePath).href,
+          name: PROJECT_FILE,
+          description: 'Project instructions for coding agents',
+          mimeType: 'text/markdown',
+        })
+      }
+      resources.push({
+        uri: TODOS_RESOURCE_URI,
+        name: 'Todo list',
+        description: 'The current todo list, as maintained by TodoWrite',
+        mimeType: 'application/json',
+      })
+      return { resources }
+    },
+  )
+
+  server.setRequestHandler(
+    ReadResourceRequestSchema,
+    async (request): Promise<ReadResourceResult> => {
+      const { uri } = request.params
+      if (uri === TODOS_RESOURCE_URI) {
+        return {
+          contents: [
+            {
+              uri,
+              mimeType: 'application/json',
+              text: JSON.stringify(getTodos(), null, 2),
+            },
+          ],
+        }
+      }
+
+      const projectFilePath = getProjectFilePath()
+      if (
+        uri === pathToFileURL(projectFilePath).href &&
+        existsSync(projectFilePath)
+      ) {
+        return {
+          contents: [
+            {
+              uri,
+              mimeType: 'text/markdown',
+              text: readFileSync(projectFilePath, 'utf-8'),
+            },
+          ],
+        }
+      }
+
+      throw new Error(`Resource ${uri} not found`)
+    },
+  )
+
   async function runServer() {
     const transport = new StdioServerTransport()
     await server.connect(transport)
@@ -0,0 +1,168 @@
+import type { ContentBlockParam } from '@anthropic-ai/sdk/resources/index.mjs'
+import { getSystemPrompt } from '@constants/prompts'
+import { getContext } from '@context'
+import type { CanUseToolFn } from '@hooks/useCanUseTool'
+import { hasPermissionsToUseTool } from '@permissions'
+import { Message, query as runQuery } from '@query'
+import { Tool } from '@tool'
+import { getTools } from '@tools'
+import { ExitPlanModeTool } from '@tools/ExitPlanModeTool/ExitPlanModeTool'
+import { cleanupBackgroundShells } from '@utils/cleanup'
+import { enableConfigs } from '@utils/config'
+import { createUserMessage } from '@utils/messages'
+import { getModelManager } from '@utils/model'
+import { resolveDirectory } from '@utils/permissions/filesystem'
+import { type CwdScope, runInCwdScope } from '@utils/state'
+import { getMaxThinkingTokens } from '@utils/thinking'
+import { PersistentShell } from '@utils/PersistentShell'
+
+/**
+ * Programmatic entrypoint (`cougar/sdk`) for driving the agent loop from
+ * Node. Nothing is rendered and nothing is asked on the terminal: models come
+ * from the configured profiles, and tool permissions go through `canUseTool`.
+ */
+
+export type {
+  AssistantMessage,
+  Message,
+  ProgressMessage,
+  UserMessage,
+} from '@query'
+export type { CanUseToolFn } from '@hooks/useCanUseTool'
+export type { Tool, ToolUseContext } from '@tool'
+export type { ModelProfile } from '@utils/config'
+export { BudgetExceededError, MaxTurnsExceededError } from '@utils/errors'
+
+// ExitPlanMode needs the interactive plan approval dialog
+const INTERACTIVE_ONLY_TOOLS: Tool[] = [ExitPlanModeTool as unknown as Tool]
+
+export type QueryOptions = {
+  prompt: string | ContentBlockParam[]
+  // Earlier turns of the conversation, as yielded by a previous query()
+  messages?: Message[]
+  // Working directory for tools and the project whose settings apply; the
+  // process's cwd when omitted
+  cwd?: string
+  // Directories besides cwd that read tools may use without asking, as
+  // with --add-dir
+  additionalDirectories?: string[]
+  // Model profile name, model name or pointer ('main', 'task', ...)
+  model?: string
+  // Tool names the agent may use; every enabled tool when omitted
+  allowedTools?: string[]
+  // Decides each tool use. Defaults to the project's permission rules, as
+  // in --print mode.
+  canUseTool?: CanUseToolFn
+  // Only applies to the default canUseTool
+  safeMode?: boolean
+  abortSignal?: AbortSignal
+  // Maximum number of tool rounds; query() throws MaxTurnsExceededError
+  // once reached. Going past the project's hard budget throws
+  // BudgetExceededError.
+  maxTurns?: number
+}
+
+async function getSDKTools(allowlist?: string[]): Promise<Tool[]> {
+  const tools = (await getTools()).filter(
+    tool => !INTERACTIVE_ONLY_TOOLS.includes(tool),
+  )
+  if (!allowlist) {
+    return tools
+  }
+  return tools.filter(tool => allowlist.includes(tool.name))
+}
+
+/**
+ * Runs one user turn and yields every message along the way: the prompt,
+ * assistant responses, tool results and tool progress. Progress messages
+ * with a `notice` (e.g. a model fallback) aren't tied to a tool use. Pass the
+ * collected messages back as `messages` to continue the conversation.
+ *
+ * Each call gets its own shell in `cwd`, so calls may overlap, and shell
+ * state such as `cd` or exported variables doesn't carry over between them.
+ */
+export async function* query(
+  options: QueryOptions,
+): AsyncGenerator<Message, void> {
+  enableConfigs()
+  const cwd = resolveDirectory(options.cwd ?? process.cwd(), process.cwd())
+  const scope: CwdScope = {
+    root: cwd,
+    projectCwd: cwd,
+    shell: new PersistentShell(cwd),
+    isolated: false,
+    readDirectories: (options.additionalDirectories ?? []).map(directory =>
+      resolveDirectory(directory, cwd),
+    ),
+  }
+  try {
+    yield* runInCwdScope(scope, runTurn(options))
+  } finally {
+    scope.shell.close()
+  }
+}
+
+async function* runTurn({
+  prompt,
+  messages: previousMessages = [],
+  model = 'main',
+  allowedTools,
+  canUseTool = hasPermissionsToUseTool,
+  safeMode = false,
+  abortSignal,
+  maxTurns,
+}: QueryOptions): AsyncGenerator<Message, void> {
+  const modelResolution = getModelManager().resolveModelWithInfo(model)
+  if (!modelResolution.success) {
+    throw new Error(
+      modelResolution.error || `Failed to resolve model: ${model}`,
+    )
+  }
+
+  const abortController = new AbortController()
+  if (abortSignal?.aborted) {
+    abortController.abort()
+  }
+  const onAbort = () => abortController.abort()
+  abortSignal?.addEventListener('abort', onAbort, { once: true })
+
+  const userMessage = createUserMessage(prompt)
+  const messages: Message[] = [...previousMessages, userMessage]
+  const [systemPrompt, context, tools] = await Promise.all([
+    getSystemPrompt(),
+    getContext(),
+    getSDKTools(allowedTools),
+  ])
+
+  try {
+    yield userMessage
+    yield* runQuery(messages, systemPrompt, context, canUseTool, {
+      options: {
+        commands: [],
+        tools,
+        verbose: false,
+        safeMode,
+        forkNumber: 0,
+        messageLogName: 'unused',
+        maxThinkingTokens: await getMaxThinkingTokens(messages),
+        model,
+        maxTurns,
+      },
+      abortController,
+      messageId: undefined,
+      readFileTimestamps: {},
+      setToolJSX: () => {}, // Nothing is rendered
+    })
+  } finally {
+    abortSignal?.removeEventListener('abort', onAbort)
+  }
+}
+
+/**
+ * Stops background jobs started by tools and any shell left running outside
+ * a query, so the process can exit
+ */
+export function close(): void {
+  PersistentShell.restart()
+  cleanupBackgroundShells()
+}
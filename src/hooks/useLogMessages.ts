@@ -1,6 +1,6 @@
 import { useEffect } from 'react'
 import { type Message } from '@query'
-import { overwriteLog, getMessagesPath } from '@utils/log'
+import { appendToTranscript, getMessagesPath } from '@utils/log'
 
 export function useLogMessages(
   messages: Message[],
@@ -8,7 +8,7 @@ export function useLogMessages(
   forkNumber: number,
 ): void {
   useEffect(() => {
-    overwriteLog(
+    appendToTranscript(
       getMessagesPath(messageLogName, forkNumber, 0),
       messages.filter(_ => _.type !== 'progress'),
     )
@@ -6,6 +6,11 @@ import { getCwd } from '@utils/state'
 import { getCommand } from '@commands'
 import { getActiveAgents } from '@utils/agentLoader'
 import { getModelManager } from '@utils/model'
+import {
+  getMCPResources,
+  getMCPResourceTemplates,
+} from '@services/mcpClient'
+import { logError } from '@utils/log'
 import { glob } from 'glob'
 import { matchCommands } from '@utils/fuzzyMatcher'
 import { 
@@ -20,7 +25,7 @@ import type { Command } from '@commands'
 export interface UnifiedSuggestion {
   value: string
   displayValue: string
-  type: 'command' | 'agent' | 'file' | 'ask'
+  type: 'command' | 'agent' | 'file' | 'ask' | 'resource'
   icon?: string
   score: number
   metadata?: any
@@ -582,6 +587,45 @@ export function useUnifiedCompletion({
     })
   }, [])
 
+  // MCP resource suggestions cache
+  const [resourceSuggestions, setResourceSuggestions] = useState<UnifiedSuggestion[]>([])
+
+  // Load MCP resource suggestions on mount
+  useEffect(() => {
+    Promise.all([getMCPResources(), getMCPResourceTemplates()]).then(([resources, templates]) => {
+      setResourceSuggestions([
+        ...resources.map(resource => ({
+          value: `${resource.server}:${resource.uri}`,
+          displayValue: `📎 ${resource.server}:${resource.uri} :: ${resource.description || resource.name}`,
+          type: 'resource' as const,
+          score: 80,
+          metadata: resource,
+        })),
+        // Templates complete up to their first {variable} for the user to fill in
+        ...templates.map(template => ({
+          value: `${template.server}:${template.uriTemplate.split('{')[0]}`,
+          displayValue: `📎 ${template.server}:${template.uriTemplate} :: ${template.description || template.name}`,
+          type: 'resource' as const,
+          score: 75,
+          metadata: { ...template, isTemplate: true },
+        })),
+      ])
+    }).catch(error => {
+      logError(error)
+      setResourceSuggestions([])
+    })
+  }, [])
+
+  // MCP resources are referenced as @server:uri, so match on the prefix
+  const generateResourceSuggestions = useCallback((prefix: string): UnifiedSuggestion[] => {
+    const lowerPrefix = prefix.toLowerCase()
+    return resourceSuggestions.filter(
+      s =>
+        s.value.toLowerCase().startsWith(lowerPrefix) ||
+        (s.metadata?.name ?? '').toLowerCase().startsWith(lowerPrefix),
+    )
+  }, [resourceSuggestions])
+
   // Generate agent and model suggestions using fuzzy matching
   const generateMentionSuggestions = useCallback((prefix: string): UnifiedSuggestion[] => {
     // Combine agent and model suggestions
@@ -809,6 +853,7 @@ export function useUnifiedCompletion({
         // @ reference: combine mentions and files with clean priority
         const mentionSuggestions = generateMentionSuggestions(context.prefix)
         const fileSuggestions = generateFileSuggestions(context.prefix, true) // isAtReference=true
+        const mcpResourceSuggestions = generateResourceSuggestions(context.prefix)
         
         // Apply weights for @ context (agents/models should be prioritized but files visible)
         const weightedSuggestions = [
@@ -817,6 +862,11 @@ export function useUnifiedCompletion({
             // In @ context, agents/models get high priority
             weightedScore: s.score + 150
           })),
+          ...mcpResourceSuggestions.map(s => ({
+            ...s,
+            // MCP resources sit between agents/models and files
+            weightedScore: s.score + 100
+          })),
           ...fileSuggestions.map(s => ({
             ...s,
             // Files get lower priority but still visible
@@ -886,7 +936,7 @@ export function useUnifiedCompletion({
       default:
         return []
     }
-  }, [generateCommandSuggestions, generateMentionSuggestions, generateFileSuggestions, generateUnixCommandSuggestions, generateSmartMentionSuggestions])
+  }, [generateCommandSuggestions, generateMentionSuggestions, generateFileSuggestions, generateResourceSuggestions, generateUnixCommandSuggestions, generateSmartMentionSuggestions])
 
 
   // Complete with a suggestion - 支持万能@引用 + slash命令自动执行
@@ -901,6 +951,9 @@ export function useUnifiedCompletion({
         completion = `@${suggestion.value} ` // 代理补全
       } else if (suggestion.type === 'ask') {
         completion = `@${suggestion.value} ` // Ask模型补全
+      } else if (suggestion.type === 'resource') {
+        // MCP resource; no space after a template so its variables can be typed
+        completion = `@${suggestion.value}${suggestion.metadata?.isTemplate ? '' : ' '}`
       } else {
         // File reference in @mention context - no space for directories to allow expansion
         const isDirectory = suggestion.value.endsWith('/')
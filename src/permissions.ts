@@ -4,6 +4,15 @@ import { BashTool, inputSchema } from './tools/BashTool/BashTool'
 import { FileEditTool } from './tools/FileEditTool/FileEditTool'
 import { FileWriteTool } from './tools/FileWriteTool/FileWriteTool'
 import { NotebookEditTool } from './tools/NotebookEditTool/NotebookEditTool'
+import { MultiEditTool } from './tools/MultiEditTool/MultiEditTool'
+import { ExitPlanModeTool } from './tools/ExitPlanModeTool/ExitPlanModeTool'
+import { URLFetcherTool } from './tools/URLFetcherTool/URLFetcherTool'
+import { FileReadTool } from './tools/FileReadTool/FileReadTool'
+import { NotebookReadTool } from './tools/NotebookReadTool/NotebookReadTool'
+import { GrepTool } from './tools/GrepTool/GrepTool'
+import { GlobTool } from './tools/GlobTool/GlobTool'
+import { LSTool } from './tools/lsTool/lsTool'
+import { parse } from 'shell-quote'
 import { getCommandSubcommandPrefix, splitCommand } from './utils/commands'
 import {
   getCurrentProjectConfig,
@@ -11,8 +20,22 @@ import {
 } from '@utils/config'
 import { AbortError } from './utils/errors'
 import { logError } from './utils/log'
-import { grantWritePermissionForOriginalDir } from './utils/permissions/filesystem'
-import { getCwd } from './utils/state'
+import {
+  grantWritePermissionForOriginalDir,
+  hasWritePermission,
+  isSecretFile,
+  needsSandboxedReadPermission,
+  resolveDirectory,
+} from './utils/permissions/filesystem'
+import { getSandboxSettings } from './utils/sandbox'
+import {
+  evaluatePermissionRules,
+  formatPermissionRule,
+  getSessionPermissionRules,
+} from './utils/permissions/rules'
+import { getCwd, getCwdScope, getOriginalCwd, getShell } from './utils/state'
+import { getPermissionMode } from './utils/permissionMode'
+import { MODE_CONFIGS, type PermissionMode } from './types/PermissionMode'
 import { PRODUCT_NAME } from './constants/product'
 
 // Commands that are known to be safe for execution
@@ -59,6 +82,35 @@ export const bashToolCommandHasPermission = (
   return allowedTools.includes(getPermissionKey(tool, { command }, prefix))
 }
 
+/**
+ * Whether a sandboxed command names a path the user should still approve
+ * reading: a secret file, or one outside the workspace and the sandbox's
+ * mounts. Any argument that looks like a path counts, including redirects
+ * and `--flag=path` values.
+ */
+function sandboxedCommandNeedsApproval(command: string): boolean {
+  const scope = getCwdScope()
+  const { readablePaths, writablePaths } = getSandboxSettings(
+    getOriginalCwd(),
+    scope?.projectCwd ?? getOriginalCwd(),
+  )
+  // bwrap mounts a fresh /dev, so e.g. 2>/dev/null is fine
+  const sandboxPaths = [...readablePaths, ...writablePaths, '/dev']
+  return parse(command).some(token => {
+    if (typeof token !== 'string') {
+      return false
+    }
+    const path = token.slice(token.indexOf('=') + 1)
+    if (!/^[~./]/.test(path) && !path.includes('/') && !isSecretFile(path)) {
+      return false
+    }
+    return needsSandboxedReadPermission(
+      resolveDirectory(path, getCwd()),
+      sandboxPaths,
+    )
+  })
+}
+
 export const bashToolHasPermission = async (
   tool: Tool,
   command: string,
@@ -66,6 +118,15 @@ export const bashToolHasPermission = async (
   allowedTools: string[],
   getCommandSubcommandPrefixFn = getCommandSubcommandPrefix,
 ): Promise<PermissionResult> => {
+  // Like SAFE_COMMANDS: in the sandbox a command can only write to the
+  // project (but not its settings or git hooks and config), reach allowed
+  // hosts and read what the sandbox mounts of the home directory, so there
+  // is nothing to approve. Reading secrets in the project or paths outside
+  // the workspace still goes through the usual checks.
+  if (getShell().sandboxed && !sandboxedCommandNeedsApproval(command)) {
+    return { result: true }
+  }
+
   if (bashToolCommandHasExactMatchPermission(tool, command, allowedTools)) {
     // This is an exact match for a command that is allowed, so we can skip the prefix check
     return { result: true }
@@ -152,17 +213,183 @@ export const bashToolHasPermission = async (
 
 type PermissionResult = { result: true } | { result: false; message: string }
 
+// Tools that acceptEdits mode approves without asking
+const EDIT_TOOLS: Tool[] = [
+  FileEditTool as unknown as Tool,
+  MultiEditTool as unknown as Tool,
+  FileWriteTool as unknown as Tool,
+  NotebookEditTool as unknown as Tool,
+]
+
+// Tools whose reads are limited to the project and additionalDirectories
+const READ_TOOLS: Tool[] = [
+  FileReadTool as unknown as Tool,
+  NotebookReadTool as unknown as Tool,
+  GrepTool as unknown as Tool,
+  GlobTool as unknown as Tool,
+  LSTool as unknown as Tool,
+]
+
+function getReadToolPath(input: { [key: string]: unknown }): string {
+  const path = input.file_path ?? input.notebook_path ?? input.path
+  return typeof path === 'string' && path ? path : getCwd()
+}
+
+/**
+ * Enforce the read scope. Reads outside the project and its
+ * additionalDirectories need approval, unless an allow rule covers them, and
+ * secret-looking files always do. Unlike other checks this runs even when
+ * safe mode is off; only bypassPermissions mode skips it.
+ */
+export function checkReadScope(
+  tool: Tool,
+  input: { [key: string]: unknown },
+  hasAllowRule: boolean,
+): PermissionResult {
+  if (
+    !READ_TOOLS.includes(tool) ||
+    getPermissionMode() === 'bypassPermissions'
+  ) {
+    return { result: true }
+  }
+  const path = getReadToolPath(input)
+  if (isSecretFile(path)) {
+    return {
+      result: false,
+      message: `${PRODUCT_NAME} requested permissions to read ${path}, which may contain secrets.`,
+    }
+  }
+  if (!hasAllowRule && tool.needsPermissions(input as never)) {
+    return {
+      result: false,
+      message: `${PRODUCT_NAME} requested permissions to read ${path}, which is outside the project's directories.`,
+    }
+  }
+  return { result: true }
+}
+
+/**
+ * Confine edits to the worktree of an isolated task. Like the permission
+ * mode, this runs even when safe mode is off.
+ */
+export function checkWriteScope(
+  tool: Tool,
+  input: { [key: string]: unknown },
+): PermissionResult {
+  const scope = getCwdScope()
+  if (!scope?.isolated || !EDIT_TOOLS.includes(tool)) {
+    return { result: true }
+  }
+  const path = input.file_path ?? input.notebook_path
+  if (typeof path === 'string' && !hasWritePermission(path)) {
+    return {
+      result: false,
+      message: `${tool.name} can only edit files inside the task's worktree (${scope.root}), not ${path}.`,
+    }
+  }
+  return { result: true }
+}
+
+/**
+ * Enforce the restrictions of the active permission mode. This runs before
+ * the regular permission check and cannot be bypassed by safe mode being off
+ * or by a previously granted permission.
+ */
+export function checkPermissionMode(
+  tool: Tool,
+  mode: PermissionMode = getPermissionMode(),
+): PermissionResult {
+  const { allowedTools, restrictions, label } = MODE_CONFIGS[mode]
+  if (allowedTools.includes(tool.name)) {
+    return { result: true }
+  }
+  if (restrictions.readOnly) {
+    if (tool.isReadOnly()) {
+      return { result: true }
+    }
+    return {
+      result: false,
+      message: `${tool.name} is not available in ${label}: only read-only tools can be used. Use ${ExitPlanModeTool.name} to present your plan to the user for approval before making any changes.`,
+    }
+  }
+  if (allowedTools.includes('*')) {
+    return { result: true }
+  }
+  return {
+    result: false,
+    message: `${tool.name} is not available in ${label}.`,
+  }
+}
+
+/**
+ * Enforce deny rules. This runs before the regular permission check so that
+ * the user is never prompted for a call that a rule forbids.
+ */
+export function checkDenyRules(
+  tool: Tool,
+  input: { [key: string]: unknown },
+): PermissionResult {
+  const match = evaluatePermissionRules(tool.name, input)
+  if (match?.behavior === 'deny') {
+    return {
+      result: false,
+      message: `Permission to use ${tool.name} has been denied by the rule ${formatPermissionRule(match.rule)}.`,
+    }
+  }
+  return { result: true }
+}
+
 export const hasPermissionsToUseTool: CanUseToolFn = async (
   tool,
   input,
   context,
   _assistantMessage,
 ): Promise<PermissionResult> => {
+  // Leaving plan mode always requires the user's sign-off on the plan
+  if (tool === ExitPlanModeTool) {
+    return {
+      result: false,
+      message: `${PRODUCT_NAME} requested to exit plan mode, but the plan hasn't been approved yet.`,
+    }
+  }
+
+  // Deny and ask rules apply even when safe mode is off
+  const ruleMatch = evaluatePermissionRules(tool.name, input)
+  if (ruleMatch?.behavior === 'deny') {
+    return checkDenyRules(tool, input)
+  }
+  if (ruleMatch?.behavior === 'ask') {
+    return {
+      result: false,
+      message: `${PRODUCT_NAME} requested permissions to use ${tool.name}, which always requires approval (${formatPermissionRule(ruleMatch.rule)}).`,
+    }
+  }
+
+  const readScope = checkReadScope(
+    tool,
+    input,
+    ruleMatch?.behavior === 'allow',
+  )
+  if (!readScope.result) {
+    return readScope
+  }
+
   // If safe mode is not enabled, allow all tools (permissive by default)
   if (!context.options.safeMode) {
     return { result: true }
   }
 
+  const mode = getPermissionMode()
+  if (mode === 'bypassPermissions') {
+    return { result: true }
+  }
+  if (mode === 'acceptEdits' && EDIT_TOOLS.includes(tool)) {
+    return { result: true }
+  }
+  if (ruleMatch?.behavior === 'allow') {
+    return { result: true }
+  }
+
   if (context.abortController.signal.aborted) {
     throw new AbortError()
   }
@@ -178,7 +405,10 @@ export const hasPermissionsToUseTool: CanUseToolFn = async (
   }
 
   const projectConfig = getCurrentProjectConfig()
-  const allowedTools = projectConfig.allowedTools ?? []
+  const allowedTools = [
+    ...(projectConfig.allowedTools ?? []),
+    ...getSessionPermissionRules('allow'),
+  ]
   // Special case for BashTool to allow blanket commands without exposing them in the UI
   if (tool === BashTool && allowedTools.includes(BashTool.name)) {
     return { result: true }
@@ -251,6 +481,10 @@ export async function savePermission(
   saveCurrentProjectConfig(projectConfig)
 }
 
+export function getUrlFetcherDomain(input: { [k: string]: unknown }): string {
+  return new URL(String(input.url)).hostname
+}
+
 function getPermissionKey(
   tool: Tool,
   input: { [k: string]: unknown },
@@ -262,6 +496,9 @@ function getPermissionKey(
         return `${BashTool.name}(${prefix}:*)`
       }
       return `${BashTool.name}(${BashTool.renderToolUseMessage(input as never)})`
+    case URLFetcherTool:
+      // Matches the host and its subdomains, like any domain: rule
+      return `${URLFetcherTool.name}(domain:${getUrlFetcherDomain(input)})`
     default:
       return tool.name
   }
@@ -10,12 +10,34 @@ import {
   shouldUseBinaryFeedback,
 } from '@components/binary-feedback/utils'
 import { CanUseToolFn } from './hooks/useCanUseTool'
+import {
+  checkDenyRules,
+  checkPermissionMode,
+  checkWriteScope,
+} from './permissions'
+import { getPermissionMode } from './utils/permissionMode'
+import { ExitPlanModeTool } from './tools/ExitPlanModeTool/ExitPlanModeTool'
+import { PLAN_MODE_SYSTEM_PROMPT } from './tools/ExitPlanModeTool/prompt'
 import {
   formatSystemPromptWithContext,
   queryLLM,
   queryModel,
 } from '@services/claude'
 import { emitReminderEvent } from '@services/systemReminder'
+import { runWithCheckpoint } from '@services/checkpoints'
+import { checkBudget, formatBudgetStatus } from '@services/budget'
+import {
+  MALFORMED_TOOL_CALL,
+  MalformedToolCallInput,
+  formatMalformedToolCallError,
+} from '@services/adapters/promptToolCalling'
+import { PRODUCT_COMMAND } from '@constants/product'
+import {
+  runPostToolUseHooks,
+  runPreToolUseHooks,
+  runStopHooks,
+  runUserPromptSubmitHooks,
+} from '@services/lifecycleHooks'
 import { all } from '@utils/generators'
 import { logError } from '@utils/log'
 import {
@@ -27,6 +49,7 @@ import {
 import { getModelManager } from '@utils/model'
 import {
   createAssistantMessage,
+  createNoticeMessage,
   createProgressMessage,
   createToolResultStopMessage,
   createUserMessage,
@@ -40,6 +63,7 @@ import { createToolExecutionController } from '@utils/toolExecutionController'
 import { BashTool } from '@tools/BashTool/BashTool'
 import { getCwd } from './utils/state'
 import { checkAutoCompact } from './utils/autoCompactCore'
+import { BudgetExceededError, MaxTurnsExceededError } from './utils/errors'
 
 // Extended ToolUseContext for query functions
 interface ExtendedToolUseContext extends ToolUseContext {
@@ -54,10 +78,16 @@ interface ExtendedToolUseContext extends ToolUseContext {
     maxThinkingTokens: number
     isKodingRequest?: boolean
     model?: string | import('./utils/config').ModelPointerType
+    // Maximum number of tool rounds before the loop stops (non-interactive)
+    maxTurns?: number
   }
   readFileTimestamps: { [filename: string]: number }
   setToolJSX: (jsx: any) => void
   requestId?: string
+  // Set once a Stop hook has kept the agent going, so hooks can avoid loops
+  stopHookActive?: boolean
+  // Number of tool rounds completed so far in this query
+  turnCount?: number
 }
 
 export type Response = { costUSD: number; response: string }
@@ -97,6 +127,8 @@ export type ProgressMessage = {
   toolUseID: string
   type: 'progress'
   uuid: UUID
+  // Set on notices that aren't tied to a tool use, e.g. a model fallback
+  notice?: string
 }
 
 // Each array item is either a single message or a message-and-response pair
@@ -182,11 +214,52 @@ export async function* query(
     messages = processedMessages
   }
 
+  // Run UserPromptSubmit hooks when this turn starts from a fresh user prompt
+  const lastMessage = messages[messages.length - 1]
+  if (
+    !toolUseContext.agentId &&
+    !toolUseContext.stopHookActive &&
+    lastMessage?.type === 'user' &&
+    !isToolResultMessage(lastMessage)
+  ) {
+    const hookResult = await runUserPromptSubmitHooks(
+      getUserMessageText(lastMessage),
+      toolUseContext.abortController.signal,
+    )
+    if (hookResult.blocked) {
+      yield createAssistantMessage(
+        `Prompt blocked by UserPromptSubmit hook: ${hookResult.reason}`,
+      )
+      return
+    }
+    if (hookResult.additionalContext) {
+      messages = [
+        ...messages.slice(0, -1),
+        appendTextToUserMessage(lastMessage, hookResult.additionalContext),
+      ]
+    }
+  }
+
+  const exceededBudget = await checkBudget(toolUseContext.confirmBudget)
+  if (exceededBudget) {
+    const stopMessage = `Stopped: ${formatBudgetStatus(exceededBudget)} Raise it with \`${PRODUCT_COMMAND} config set ${exceededBudget.kind}Budget <usd>\`.`
+    // Without anyone to ask, let the caller tell this apart from a finished run
+    if (!toolUseContext.confirmBudget) {
+      throw new BudgetExceededError(stopMessage)
+    }
+    yield createAssistantMessage(stopMessage)
+    return
+  }
+
   markPhase('SYSTEM_PROMPT_BUILD')
   
   const { systemPrompt: fullSystemPrompt, reminders } =
     formatSystemPromptWithContext(systemPrompt, context, toolUseContext.agentId)
 
+  if (getPermissionMode() === 'plan') {
+    fullSystemPrompt.push(PLAN_MODE_SYSTEM_PROMPT)
+  }
+
   // Emit session startup event
   emitReminderEvent('session:startup', {
     agentId: toolUseContext.agentId,
@@ -223,6 +296,7 @@ export async function* query(
 
   markPhase('LLM_PREPARATION')
 
+  const fallbackNotices: string[] = []
   function getAssistantResponse() {
     return queryLLM(
       normalizeMessagesForAPI(messages),
@@ -235,6 +309,7 @@ export async function* query(
         model: toolUseContext.options.model || 'main',
         prependCLISysprompt: true,
         toolUseContext: toolUseContext,
+        onModelFallback: notice => fallbackNotices.push(notice),
       },
     )
   }
@@ -245,6 +320,10 @@ export async function* query(
     getBinaryFeedbackResponse,
   )
 
+  for (const notice of fallbackNotices) {
+    yield createNoticeMessage(notice)
+  }
+
   // If request was cancelled, return immediately with interrupt message  
   if (toolUseContext.abortController.signal.aborted) {
     yield createAssistantMessage(INTERRUPT_MESSAGE)
@@ -267,8 +346,30 @@ export async function* query(
     _ => _.type === 'tool_use',
   )
 
-  // If there's no more tool use, we're done
+  // If there's no more tool use, we're done unless a Stop hook says otherwise
   if (!toolUseMessages.length) {
+    if (toolUseContext.agentId || toolUseContext.abortController.signal.aborted) {
+      return
+    }
+    const { blockReason } = await runStopHooks(
+      !!toolUseContext.stopHookActive,
+      toolUseContext.abortController.signal,
+    )
+    if (!blockReason) {
+      return
+    }
+    const stopHookFeedback = createUserMessage(
+      `Stop hook feedback:\n${blockReason}`,
+    )
+    yield stopHookFeedback
+    yield* query(
+      [...messages, assistantMessage, stopHookFeedback],
+      systemPrompt,
+      context,
+      canUseTool,
+      { ...toolUseContext, stopHookActive: true },
+      getBinaryFeedbackResponse,
+    )
     return
   }
 
@@ -325,6 +426,12 @@ export async function* query(
     return aIndex - bIndex
   })
 
+  const turnCount = (toolUseContext.turnCount ?? 0) + 1
+  const { maxTurns } = toolUseContext.options
+  if (maxTurns !== undefined && turnCount >= maxTurns) {
+    throw new MaxTurnsExceededError(maxTurns)
+  }
+
   // Recursive query
 
   try {
@@ -333,7 +440,7 @@ export async function* query(
       systemPrompt,
       context,
       canUseTool,
-      toolUseContext,
+      { ...toolUseContext, turnCount },
       getBinaryFeedbackResponse,
     )
   } catch (error) {
@@ -417,6 +524,22 @@ export async function* runToolUse(
   
 
   const toolName = toolUse.name
+
+  // A tool call the model wrote as text but got wrong
+  if (toolName === MALFORMED_TOOL_CALL) {
+    yield createUserMessage([
+      {
+        type: 'tool_result',
+        content: formatMalformedToolCallError(
+          toolUse.input as MalformedToolCallInput,
+        ),
+        is_error: true,
+        tool_use_id: toolUse.id,
+      },
+    ])
+    return
+  }
+
   const tool = toolUseContext.options.tools.find(t => t.name === toolName)
 
   // Check if the tool exists
@@ -545,7 +668,7 @@ export function normalizeToolInput(
   }
 }
 
-async function* checkPermissionsAndCallTool(
+export async function* checkPermissionsAndCallTool(
   tool: Tool,
   toolUseID: string,
   siblingToolUseIDs: Set<string>,
@@ -579,7 +702,40 @@ async function* checkPermissionsAndCallTool(
     return
   }
 
-  const normalizedInput = normalizeToolInput(tool, input)
+  let normalizedInput = normalizeToolInput(tool, input)
+
+  // Let PreToolUse hooks deny the call or rewrite its input
+  const preToolUseResult = await runPreToolUseHooks(
+    tool.name,
+    normalizedInput,
+    context.abortController.signal,
+  )
+  if (preToolUseResult.decision === 'deny') {
+    yield createUserMessage([
+      {
+        type: 'tool_result',
+        content: `PreToolUse hook denied this ${tool.name} call: ${preToolUseResult.reason}`,
+        is_error: true,
+        tool_use_id: toolUseID,
+      },
+    ])
+    return
+  }
+  if (preToolUseResult.input !== normalizedInput) {
+    const isValidRewrite = tool.inputSchema.safeParse(preToolUseResult.input)
+    if (!isValidRewrite.success) {
+      yield createUserMessage([
+        {
+          type: 'tool_result',
+          content: `PreToolUse hook produced invalid input for ${tool.name}: ${isValidRewrite.error.message}`,
+          is_error: true,
+          tool_use_id: toolUseID,
+        },
+      ])
+      return
+    }
+    normalizedInput = preToolUseResult.input as typeof normalizedInput
+  }
 
   // Validate input values. Each tool has its own validation logic
   const isValidCall = await tool.validateInput?.(
@@ -598,11 +754,46 @@ async function* checkPermissionsAndCallTool(
     return
   }
 
+  // Enforce the active permission mode (e.g. plan mode is read-only), deny
+  // rules and an isolated task's worktree before anything can prompt the user
+  const modeResult = checkPermissionMode(tool)
+  const scopeResult =
+    modeResult.result === false
+      ? modeResult
+      : checkWriteScope(tool, normalizedInput)
+  const denyResult =
+    scopeResult.result === false
+      ? scopeResult
+      : checkDenyRules(tool, normalizedInput)
+  if (denyResult.result === false) {
+    yield createUserMessage([
+      {
+        type: 'tool_result',
+        content: denyResult.message,
+        is_error: true,
+        tool_use_id: toolUseID,
+      },
+    ])
+    return
+  }
+
   // Check whether we have permission to use the tool,
   // and ask the user for permission if we don't
-  const permissionResult = shouldSkipPermissionCheck
-    ? ({ result: true } as const)
-    : await canUseTool(tool, normalizedInput, context, assistantMessage)
+  // A hook may pre-approve the call, or ask for confirmation even when
+  // safe mode is off. Leaving plan mode always needs the user's approval.
+  const hookAllowed =
+    preToolUseResult.decision === 'allow' && tool !== ExitPlanModeTool
+  const permissionResult =
+    shouldSkipPermissionCheck || hookAllowed
+      ? ({ result: true } as const)
+      : await canUseTool(
+          tool,
+          normalizedInput,
+          preToolUseResult.decision === 'ask'
+            ? { ...context, options: { ...context.options, safeMode: true } }
+            : context,
+          assistantMessage,
+        )
   if (permissionResult.result === false) {
     yield createUserMessage([
       {
@@ -617,25 +808,46 @@ async function* checkPermissionsAndCallTool(
 
   // Call the tool
   try {
-    const generator = tool.call(normalizedInput as never, context)
+    // Files the tool writes are checkpointed for /undo and /rewind
+    const generator = runWithCheckpoint(
+      assistantMessage.uuid,
+      tool.call(normalizedInput as never, {
+        ...context,
+        toolUseMessageId: assistantMessage.uuid,
+      }),
+    )
     for await (const result of generator) {
       switch (result.type) {
-        case 'result':
-          
+        case 'result': {
+          let content: string | any[] =
+            result.resultForAssistant || String(result.data)
+          const { feedback } = await runPostToolUseHooks(
+            tool.name,
+            normalizedInput,
+            result.data,
+            context.abortController.signal,
+          )
+          if (feedback) {
+            content = appendToToolResultContent(
+              content,
+              `PostToolUse hook feedback:\n${feedback}`,
+            )
+          }
           yield createUserMessage(
             [
               {
                 type: 'tool_result',
-                content: result.resultForAssistant || String(result.data),
+                content,
                 tool_use_id: toolUseID,
               },
             ],
             {
               data: result.data,
-              resultForAssistant: result.resultForAssistant || String(result.data),
+              resultForAssistant: content,
             },
           )
           return
+        }
         case 'progress':
           
           yield createProgressMessage(
@@ -663,6 +875,51 @@ async function* checkPermissionsAndCallTool(
   }
 }
 
+function isToolResultMessage(message: UserMessage): boolean {
+  return (
+    Array.isArray(message.message.content) &&
+    message.message.content.some(block => block.type === 'tool_result')
+  )
+}
+
+function getUserMessageText(message: UserMessage): string {
+  const { content } = message.message
+  if (typeof content === 'string') {
+    return content
+  }
+  return content
+    .filter(block => block.type === 'text')
+    .map(block => (block.type === 'text' ? block.text : ''))
+    .join('\n')
+}
+
+function appendTextToUserMessage(
+  message: UserMessage,
+  text: string,
+): UserMessage {
+  const { content } = message.message
+  return {
+    ...message,
+    message: {
+      ...message.message,
+      content:
+        typeof content === 'string'
+          ? `${content}\n\n${text}`
+          : [...content, { type: 'text', text }],
+    },
+  }
+}
+
+function appendToToolResultContent(
+  content: string | any[],
+  text: string,
+): string | any[] {
+  if (typeof content === 'string') {
+    return `${content}\n\n${text}`
+  }
+  return [...content, { type: 'text', text }]
+}
+
 function formatError(error: unknown): string {
   if (!(error instanceof Error)) {
     return String(error)
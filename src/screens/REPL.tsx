@@ -3,7 +3,8 @@ import { Box, Newline, Static, Text } from 'ink'
 import ProjectOnboarding, {
   markProjectOnboardingComplete,
 } from '@components/ProjectOnboarding'
-import { CostThresholdDialog } from '@components/CostThresholdDialog'
+import { BudgetExceededDialog } from '@components/BudgetExceededDialog'
+import type { BudgetStatus } from '@services/budget'
 import * as React from 'react'
 import { useEffect, useMemo, useRef, useState, useCallback } from 'react'
 import { Command } from '@commands'
@@ -19,7 +20,7 @@ import PromptInput from '@components/PromptInput'
 import { Spinner } from '@components/Spinner'
 import { getSystemPrompt } from '@constants/prompts'
 import { getContext } from '@context'
-import { getTotalCost, useCostSummary } from '@costTracker'
+import { useCostSummary } from '@costTracker'
 import { useLogStartupTime } from '@hooks/useLogStartupTime'
 import { addToHistory } from '@history'
 import { useApiKeyVerification } from '@hooks/useApiKeyVerification'
@@ -40,12 +41,16 @@ import {
   type ProgressMessage,
   query,
 } from '@query'
-import type { WrappedClient } from '@services/mcpClient'
+import {
+  getMCPTools,
+  onMCPToolsChanged,
+  type WrappedClient,
+} from '@services/mcpClient'
 import type { Tool } from '@tool'
 // Auto-updater removed; only show a new version banner passed from CLI
-import { getGlobalConfig, saveGlobalConfig } from '@utils/config'
+import { getGlobalConfig } from '@utils/config'
 import { MACRO } from '@constants/macros'
-import { getNextAvailableLogForkNumber } from '@utils/log'
+import { getNextAvailableLogForkNumber, logError } from '@utils/log'
 import {
   getErroredToolUseMessages,
   getInProgressToolUseIDs,
@@ -67,6 +72,7 @@ import { clearTerminal, updateTerminalTitle } from '@utils/terminal'
 import { BinaryFeedback } from '@components/binary-feedback/BinaryFeedback'
 import { getMaxThinkingTokens } from '@utils/thinking'
 import { getOriginalCwd } from '@utils/state'
+import { getSessionState, setSessionState } from '@utils/sessionState'
 import { handleHashCommand } from '@commands/terminalSetup'
 import { debug as debugLogger } from '@utils/debugLogger'
 
@@ -103,7 +109,7 @@ export function REPL({
   initialPrompt,
   messageLogName,
   shouldShowPromptInput,
-  tools,
+  tools: initialTools,
   verbose: verboseFromCLI,
   initialMessages,
   mcpClients = [],
@@ -135,6 +141,7 @@ export function REPL({
     null,
   )
   const [messages, setMessages] = useState<MessageType[]>(initialMessages ?? [])
+  const [tools, setTools] = useState<Tool[]>(initialTools)
   const [inputValue, setInputValue] = useState('')
   const [inputMode, setInputMode] = useState<'bash' | 'prompt' | 'koding'>(
     'prompt',
@@ -142,10 +149,11 @@ export function REPL({
   const [submitCount, setSubmitCount] = useState(0)
   const [isMessageSelectorVisible, setIsMessageSelectorVisible] =
     useState(false)
-  const [showCostDialog, setShowCostDialog] = useState(false)
-  const [haveShownCostDialog, setHaveShownCostDialog] = useState(
-    getGlobalConfig().hasAcknowledgedCostThreshold,
-  )
+  const [budgetContext, setBudgetContext] = useState<{
+    status: BudgetStatus
+    resolve: (shouldContinue: boolean) => void
+  } | null>(null)
+  const pendingBudgetConfirmation = useRef<Promise<boolean> | null>(null)
 
   const [binaryFeedbackContext, setBinaryFeedbackContext] =
     useState<BinaryFeedbackContext | null>(null)
@@ -183,6 +191,23 @@ export function REPL({
     }
   }
 
+  // Pick up MCP tools from servers that (re)connect, drop the ones of servers
+  // that went away, and follow tools/list_changed notifications
+  useEffect(
+    () =>
+      onMCPToolsChanged(() => {
+        getMCPTools()
+          .then(mcpTools =>
+            setTools(current => [
+              ...current.filter(tool => !tool.name.startsWith('mcp__')),
+              ...mcpTools,
+            ]),
+          )
+          .catch(logError)
+      }),
+    [],
+  )
+
   useCancelRequest(
     setToolJSX,
     setToolUseConfirm,
@@ -201,13 +226,13 @@ export function REPL({
     }
   }, [forkConvoWithMessagesOnTheNextRender])
 
-  useEffect(() => {
-    const totalCost = getTotalCost()
-    if (totalCost >= 5 /* $5 */ && !showCostDialog && !haveShownCostDialog) {
-      
-      setShowCostDialog(true)
-    }
-  }, [messages, showCostDialog, haveShownCostDialog])
+  // Parallel sub-agents that go over budget together share one prompt
+  const confirmBudget = useCallback((status: BudgetStatus) => {
+    pendingBudgetConfirmation.current ??= new Promise<boolean>(resolve => {
+      setBudgetContext({ status, resolve })
+    })
+    return pendingBudgetConfirmation.current
+  }, [])
 
   // Update banner is provided by CLI at startup; no async check here.
 
@@ -293,6 +318,7 @@ export function REPL({
           readFileTimestamps: readFileTimestamps.current,
           abortController: newAbortController,
           setToolJSX,
+          confirmBudget,
         },
         getBinaryFeedbackResponse,
       )) {
@@ -303,10 +329,6 @@ export function REPL({
       // TODO: setHistoryIndex
     }
 
-    setHaveShownCostDialog(
-      getGlobalConfig().hasAcknowledgedCostThreshold || false,
-    )
-
     // 🔧 Fix: Clean up state after onInit completion
     setIsLoading(false)
     setAbortController(null)
@@ -380,6 +402,7 @@ export function REPL({
         readFileTimestamps: readFileTimestamps.current,
         abortController: controllerToUse,
         setToolJSX,
+        confirmBudget,
       },
       getBinaryFeedbackResponse,
     )) {
@@ -601,9 +624,6 @@ export function REPL({
     isDefaultModel,
   ])
 
-  // only show the dialog once not loading
-  const showingCostDialog = !isLoading && showCostDialog
-
   return (
     <PermissionProvider 
       isBypassPermissionsModeAvailable={!safeMode}
@@ -624,9 +644,11 @@ export function REPL({
         flexDirection="column"
         width="100%"
       >
-        {!toolJSX && !toolUseConfirm && !binaryFeedbackContext && isLoading && (
-          <Spinner />
-        )}
+        {!toolJSX &&
+          !toolUseConfirm &&
+          !binaryFeedbackContext &&
+          !budgetContext &&
+          isLoading && <Spinner />}
         {toolJSX ? toolJSX.jsx : null}
         {!toolJSX && binaryFeedbackContext && !isMessageSelectorVisible && (
           <BinaryFeedback
@@ -659,17 +681,13 @@ export function REPL({
           !toolUseConfirm &&
           !isMessageSelectorVisible &&
           !binaryFeedbackContext &&
-          showingCostDialog && (
-            <CostThresholdDialog
-              onDone={() => {
-                setShowCostDialog(false)
-                setHaveShownCostDialog(true)
-                const projectConfig = getGlobalConfig()
-                saveGlobalConfig({
-                  ...projectConfig,
-                  hasAcknowledgedCostThreshold: true,
-                })
-                
+          budgetContext && (
+            <BudgetExceededDialog
+              status={budgetContext.status}
+              onDone={shouldContinue => {
+                pendingBudgetConfirmation.current = null
+                budgetContext.resolve(shouldContinue)
+                setBudgetContext(null)
               }}
             />
           )}
@@ -679,7 +697,7 @@ export function REPL({
           shouldShowPromptInput &&
           !isMessageSelectorVisible &&
           !binaryFeedbackContext &&
-          !showingCostDialog && (
+          !budgetContext && (
             <>
               <PromptInput
                 commands={commands}
@@ -710,6 +728,15 @@ export function REPL({
                 readFileTimestamps={readFileTimestamps.current}
                 abortController={abortController}
                 onModelChange={() => setForkNumber(prev => prev + 1)}
+                onToggleThinking={async () => {
+                  setSessionState(
+                    'thinkingExpanded',
+                    !getSessionState('thinkingExpanded'),
+                  )
+                  // Static output only re-renders after a clear
+                  await clearTerminal()
+                  setForkNumber(prev => prev + 1)
+                }}
               />
             </>
           )}
@@ -15,6 +15,7 @@ type Props = {
   logs: LogOption[]
   tools: Tool[]
   verbose: boolean | undefined
+  safeMode?: boolean
 }
 
 export function ResumeConversation({
@@ -23,6 +24,7 @@ export function ResumeConversation({
   logs,
   tools,
   verbose,
+  safeMode,
 }: Props): React.ReactNode {
   async function onSelect(index: number) {
     const log = logs[index]
@@ -46,6 +48,7 @@ export function ResumeConversation({
           verbose={verbose}
           commands={commands}
           tools={tools}
+          safeMode={safeMode}
           initialMessages={deserializeMessages(log.messages, tools)}
           initialForkNumber={getNextAvailableLogForkNumber(
             log.date,
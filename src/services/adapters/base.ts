@@ -8,12 +8,14 @@ interface TokenUsage {
   output: number
   total?: number
   reasoning?: number
+  cacheRead?: number
 }
 
 // Streaming event types for async generator streaming
 export type StreamingEvent =
   | { type: 'message_start', message: any, responseId: string }
   | { type: 'text_delta', delta: string, responseId: string }
+  | { type: 'thinking_delta', delta: string, responseId: string }
   | { type: 'tool_request', tool: any }
   | { type: 'usage', usage: TokenUsage }
   | { type: 'message_stop', message: any }
@@ -29,7 +31,14 @@ function normalizeTokens(apiResponse: any): TokenUsage {
   const input = Number(apiResponse.prompt_tokens ?? apiResponse.input_tokens ?? apiResponse.promptTokens) || 0
   const output = Number(apiResponse.completion_tokens ?? apiResponse.output_tokens ?? apiResponse.completionTokens) || 0
   const total = Number(apiResponse.total_tokens ?? apiResponse.totalTokens) || undefined
-  const reasoning = Number(apiResponse.reasoning_tokens ?? apiResponse.reasoningTokens) || undefined
+  const reasoning =
+    Number(
+      apiResponse.reasoning_tokens ??
+        apiResponse.reasoningTokens ??
+        // Chat Completions and Responses API report them as output details
+        apiResponse.completion_tokens_details?.reasoning_tokens ??
+        apiResponse.output_tokens_details?.reasoning_tokens,
+    ) || undefined
 
   return {
     input,
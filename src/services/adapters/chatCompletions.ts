@@ -2,13 +2,31 @@ import { OpenAIAdapter, StreamingEvent, normalizeTokens } from './openaiAdapter'
 import { UnifiedRequestParams, UnifiedResponse, ReasoningStreamingContext } from '@cougar-types/modelCapabilities'
 import { Tool, getToolDescription } from '@tool'
 import { zodToJsonSchema } from 'zod-to-json-schema'
+import {
+  buildToolCallingPrompt,
+  toPromptToolMessages,
+  withPromptToolCalls,
+} from './promptToolCalling'
 
 export class ChatCompletionsAdapter extends OpenAIAdapter {
   createRequest(params: UnifiedRequestParams): any {
     const { messages, systemPrompt, tools, maxTokens, stream } = params
-    
-    // Build complete message list (including system prompts)
-    const fullMessages = this.buildMessages(systemPrompt, messages)
+    const hasTools = !!tools && tools.length > 0
+
+    // Build complete message list (including system prompts). Models
+    // without function calling get their tools in the system prompt.
+    const fullMessages =
+      hasTools && this.usesPromptToolCalling()
+        ? this.buildMessages(
+            [
+              ...systemPrompt,
+              buildToolCallingPrompt(
+                this.buildTools(tools).map(tool => tool.function),
+              ),
+            ],
+            toPromptToolMessages(messages),
+          )
+        : this.buildMessages(systemPrompt, messages)
     
     // Build request
     const request: any = {
@@ -19,7 +37,7 @@ export class ChatCompletionsAdapter extends OpenAIAdapter {
     }
     
     // Add tools
-    if (tools && tools.length > 0) {
+    if (hasTools && !this.usesPromptToolCalling()) {
       request.tools = this.buildTools(tools)
       request.tool_choice = 'auto'
     }
@@ -71,7 +89,18 @@ export class ChatCompletionsAdapter extends OpenAIAdapter {
     }))
   }
   
-  // parseResponse is now handled by the base OpenAIAdapter class
+  // parseResponse is handled by the base OpenAIAdapter class; tool calls
+  // written as text are pulled out afterwards
+  async parseResponse(response: any): Promise<UnifiedResponse> {
+    const unifiedResponse = await super.parseResponse(response)
+    return this.usesPromptToolCalling()
+      ? withPromptToolCalls(unifiedResponse)
+      : unifiedResponse
+  }
+
+  private usesPromptToolCalling(): boolean {
+    return this.capabilities.toolCalling.mode === 'none'
+  }
 
   // Implement abstract method from OpenAIAdapter - Chat Completions specific non-streaming
   protected parseNonStreamingResponse(response: any): UnifiedResponse {
@@ -0,0 +1,465 @@
+import { nanoid } from 'nanoid'
+import { zodToJsonSchema } from 'zod-to-json-schema'
+import { ModelAPIAdapter, StreamingEvent, TokenUsage } from './base'
+import {
+  UnifiedRequestParams,
+  UnifiedResponse,
+} from '@cougar-types/modelCapabilities'
+import { Tool, getToolDescription } from '@tool'
+
+/**
+ * Adapter for the native Gemini API (generateContent and
+ * streamGenerateContent). Requests arrive as Chat Completions messages and
+ * leave as Gemini contents; responses come back as thinking and text blocks
+ * plus Chat Completions style tool calls.
+ */
+
+// Thinking budgets in tokens, within the range every thinking model accepts
+const THINKING_BUDGETS = {
+  minimal: 512,
+  low: 1024,
+  medium: 8192,
+  high: 24576,
+}
+
+// JSON Schema keywords the Gemini function declaration schema understands
+const SUPPORTED_SCHEMA_KEYS = new Set([
+  'type',
+  'format',
+  'description',
+  'nullable',
+  'enum',
+  'items',
+  'minItems',
+  'maxItems',
+  'properties',
+  'required',
+  'minimum',
+  'maximum',
+  'minLength',
+  'maxLength',
+  'pattern',
+  'anyOf',
+  'propertyOrdering',
+])
+
+// Thought signatures of function calls, which Gemini wants back with them on
+// later turns so the model can continue its reasoning
+const thoughtSignatures = new Map<string, string>()
+
+type GeminiPart = {
+  text?: string
+  thought?: boolean
+  thoughtSignature?: string
+  inlineData?: { mimeType: string; data: string }
+  functionCall?: { id?: string; name: string; args?: Record<string, unknown> }
+  functionResponse?: { name: string; response: Record<string, unknown> }
+}
+
+type GeminiContent = {
+  role: 'user' | 'model'
+  parts: GeminiPart[]
+}
+
+/**
+ * Rewrites a JSON Schema into the OpenAPI subset Gemini accepts: no `$schema`
+ * or `additionalProperties`, `const` as a one-value enum, and nullable types
+ * instead of `null` in type lists and unions
+ */
+export function toGeminiSchema(schema: any): any {
+  if (Array.isArray(schema)) {
+    return schema.map(toGeminiSchema)
+  }
+  if (!schema || typeof schema !== 'object') {
+    return schema
+  }
+
+  const result: any = {}
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === 'const') {
+      result.enum = [value]
+    } else if (key === 'type' && Array.isArray(value)) {
+      const types = value.filter(type => type !== 'null')
+      result.type = types[0]
+      if (types.length < value.length) {
+        result.nullable = true
+      }
+    } else if (key === 'anyOf' || key === 'oneOf') {
+      const variants = (value as any[]).filter(_ => _?.type !== 'null')
+      if (variants.length < (value as any[]).length) {
+        result.nullable = true
+      }
+      if (variants.length === 1) {
+        Object.assign(result, toGeminiSchema(variants[0]))
+      } else {
+        result.anyOf = toGeminiSchema(variants)
+      }
+    } else if (key === 'properties') {
+      result.properties = Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).map(([name, prop]) => [
+          name,
+          toGeminiSchema(prop),
+        ]),
+      )
+    } else if (key === 'items') {
+      result.items = toGeminiSchema(value)
+    } else if (key === 'format') {
+      // Only these string formats are accepted
+      if (value === 'enum' || value === 'date-time') {
+        result.format = value
+      }
+    } else if (SUPPORTED_SCHEMA_KEYS.has(key)) {
+      result[key] = value
+    }
+  }
+  if (result.enum) {
+    result.type = 'string'
+    result.enum = result.enum.map(String)
+  }
+  return result
+}
+
+function parseDataURL(url: string): GeminiPart['inlineData'] | null {
+  const match = url.match(/^data:([^;]+);base64,(.*)$/s)
+  return match ? { mimeType: match[1], data: match[2] } : null
+}
+
+function parseToolArguments(args: unknown): Record<string, unknown> {
+  if (typeof args !== 'string') {
+    return (args as Record<string, unknown>) ?? {}
+  }
+  try {
+    return JSON.parse(args || '{}')
+  } catch {
+    return {}
+  }
+}
+
+export class GeminiAdapter extends ModelAPIAdapter {
+  createRequest(params: UnifiedRequestParams): any {
+    const { messages, systemPrompt, tools, maxTokens, stream } = params
+
+    const request: any = {
+      model: this.modelProfile.modelName,
+      stream: !!(stream && this.capabilities.streaming.supported),
+      contents: this.buildContents(messages),
+      generationConfig: {
+        maxOutputTokens: maxTokens,
+        temperature: params.temperature ?? this.getTemperature(),
+      },
+    }
+
+    const system = systemPrompt.filter(Boolean).join('\n\n')
+    if (system) {
+      request.systemInstruction = { parts: [{ text: system }] }
+    }
+
+    if (tools && tools.length > 0) {
+      request.tools = this.buildTools(tools)
+      request.toolConfig = { functionCallingConfig: { mode: 'AUTO' } }
+    }
+
+    if (this.shouldIncludeReasoningEffort()) {
+      const thinkingBudget =
+        params.maxThinkingTokens ||
+        (params.reasoningEffort && THINKING_BUDGETS[params.reasoningEffort])
+      request.generationConfig.thinkingConfig = {
+        includeThoughts: true,
+        ...(thinkingBudget ? { thinkingBudget } : {}),
+      }
+    }
+
+    return request
+  }
+
+  buildTools(tools: Tool[]): any[] {
+    return [
+      {
+        functionDeclarations: tools.map(tool => ({
+          name: tool.name,
+          description: getToolDescription(tool),
+          parameters: toGeminiSchema(
+            tool.inputJSONSchema || zodToJsonSchema(tool.inputSchema),
+          ),
+        })),
+      },
+    ]
+  }
+
+  async parseResponse(response: any): Promise<UnifiedResponse> {
+    const isStream = response?.headers
+      ?.get?.('content-type')
+      ?.includes('text/event-stream')
+    if (!isStream) {
+      const data =
+        typeof response?.json === 'function' ? await response.json() : response
+      return this.parseNonStreamingResponse(data)
+    }
+
+    let id = `gemini_${Date.now()}`
+    let thinking = ''
+    let text = ''
+    const toolCalls: any[] = []
+    let usage: TokenUsage = { input: 0, output: 0 }
+    for await (const event of this.parseStreamingResponse(response)) {
+      switch (event.type) {
+        case 'message_start':
+          id = event.responseId
+          break
+        case 'thinking_delta':
+          thinking += event.delta
+          break
+        case 'text_delta':
+          text += event.delta
+          break
+        case 'tool_request':
+          toolCalls.push(event.tool)
+          break
+        case 'usage':
+          usage = event.usage
+          break
+        case 'error':
+          throw new Error(event.error)
+      }
+    }
+    return this.buildUnifiedResponse(id, thinking, text, toolCalls, usage)
+  }
+
+  async *parseStreamingResponse(
+    response: any,
+    signal?: AbortSignal,
+  ): AsyncGenerator<StreamingEvent> {
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+    let responseId = `gemini_${Date.now()}`
+    let hasStarted = false
+
+    try {
+      while (true) {
+        if (signal?.aborted) {
+          throw new Error('Stream aborted by user')
+        }
+        const { done, value } = await reader.read()
+        if (done) break
+
+        buffer += decoder.decode(value, { stream: true })
+        const lines = buffer.split('\n')
+        buffer = lines.pop() || ''
+
+        for (const line of lines) {
+          if (!line.startsWith('data: ')) continue
+          let chunk: any
+          try {
+            chunk = JSON.parse(line.slice(6))
+          } catch {
+            continue
+          }
+
+          if (chunk.responseId) {
+            responseId = chunk.responseId
+          }
+          if (!hasStarted) {
+            hasStarted = true
+            yield {
+              type: 'message_start',
+              message: { role: 'assistant', content: [] },
+              responseId,
+            }
+          }
+
+          for (const part of chunk.candidates?.[0]?.content?.parts ?? []) {
+            if (part.functionCall) {
+              yield { type: 'tool_request', tool: this.toToolCall(part) }
+            } else if (part.text && part.thought) {
+              yield { type: 'thinking_delta', delta: part.text, responseId }
+            } else if (part.text) {
+              yield { type: 'text_delta', delta: part.text, responseId }
+            }
+          }
+
+          // Usage metadata is cumulative, so the last chunk has the totals
+          if (chunk.usageMetadata) {
+            this.cumulativeUsage = this.normalizeUsage(chunk.usageMetadata)
+            yield { type: 'usage', usage: { ...this.cumulativeUsage } }
+          }
+        }
+      }
+    } catch (error) {
+      yield {
+        type: 'error',
+        error: error instanceof Error ? error.message : String(error),
+      }
+    } finally {
+      reader.releaseLock()
+    }
+
+    yield {
+      type: 'message_stop',
+      message: { id: responseId, role: 'assistant', responseId },
+    }
+  }
+
+  private parseNonStreamingResponse(data: any): UnifiedResponse {
+    if (!data || typeof data !== 'object') {
+      throw new Error('Invalid response: response must be an object')
+    }
+    const candidate = data.candidates?.[0]
+    if (!candidate) {
+      const blockReason = data.promptFeedback?.blockReason
+      throw new Error(
+        blockReason
+          ? `Gemini blocked the prompt: ${blockReason}`
+          : 'Invalid response: no candidates found in response',
+      )
+    }
+
+    let thinking = ''
+    let text = ''
+    const toolCalls: any[] = []
+    for (const part of candidate.content?.parts ?? []) {
+      if (part.functionCall) {
+        toolCalls.push(this.toToolCall(part))
+      } else if (part.text && part.thought) {
+        thinking += part.text
+      } else if (part.text) {
+        text += part.text
+      }
+    }
+    return this.buildUnifiedResponse(
+      data.responseId || `gemini_${Date.now()}`,
+      thinking,
+      text,
+      toolCalls,
+      this.normalizeUsage(data.usageMetadata),
+    )
+  }
+
+  private buildUnifiedResponse(
+    id: string,
+    thinking: string,
+    text: string,
+    toolCalls: any[],
+    usage: TokenUsage,
+  ): UnifiedResponse {
+    const content: UnifiedResponse['content'] = []
+    if (thinking) {
+      content.push({ type: 'thinking', thinking, signature: '' })
+    }
+    if (text) {
+      content.push({ type: 'text', text, citations: [] })
+    }
+    return {
+      id,
+      content,
+      toolCalls,
+      usage: {
+        promptTokens: usage.input,
+        completionTokens: usage.output,
+        reasoningTokens: usage.reasoning,
+        cacheReadTokens: usage.cacheRead,
+      },
+    }
+  }
+
+  private toToolCall(part: GeminiPart): any {
+    const id = part.functionCall!.id || `call_${nanoid()}`
+    if (part.thoughtSignature) {
+      thoughtSignatures.set(id, part.thoughtSignature)
+    }
+    return {
+      id,
+      type: 'function',
+      function: {
+        name: part.functionCall!.name,
+        arguments: JSON.stringify(part.functionCall!.args ?? {}),
+      },
+    }
+  }
+
+  // Thoughts are billed as output tokens but reported separately, and the
+  // prompt count includes cached tokens, which are billed as cache reads
+  private normalizeUsage(usageMetadata: any): TokenUsage {
+    const thoughts = Number(usageMetadata?.thoughtsTokenCount) || 0
+    const cached = Number(usageMetadata?.cachedContentTokenCount) || 0
+    return {
+      input: Math.max(
+        0,
+        (Number(usageMetadata?.promptTokenCount) || 0) - cached,
+      ),
+      output: (Number(usageMetadata?.candidatesTokenCount) || 0) + thoughts,
+      total: Number(usageMetadata?.totalTokenCount) || undefined,
+      reasoning: thoughts || undefined,
+      cacheRead: cached || undefined,
+    }
+  }
+
+  private buildContents(messages: any[]): GeminiContent[] {
+    const contents: GeminiContent[] = []
+    const toolNames = new Map<string, string>()
+
+    const push = (role: GeminiContent['role'], parts: GeminiPart[]) => {
+      if (parts.length === 0) return
+      const last = contents[contents.length - 1]
+      // Gemini wants user and model turns to alternate
+      if (last?.role === role) {
+        last.parts.push(...parts)
+      } else {
+        contents.push({ role, parts })
+      }
+    }
+
+    for (const message of messages) {
+      if (!message || typeof message !== 'object') continue
+
+      if (message.role === 'tool') {
+        const content = Array.isArray(message.content)
+          ? message.content.map((c: any) => c?.text || '').join('\n\n')
+          : String(message.content ?? '')
+        push('user', [
+          {
+            functionResponse: {
+              name: toolNames.get(message.tool_call_id) ?? 'unknown',
+              response: { content },
+            },
+          },
+        ])
+        continue
+      }
+
+      const parts: GeminiPart[] = []
+      const items =
+        typeof message.content === 'string'
+          ? [{ type: 'text', text: message.content }]
+          : Array.isArray(message.content)
+            ? message.content
+            : []
+      for (const item of items) {
+        if (item?.type === 'text' && item.text) {
+          parts.push({ text: item.text })
+        } else if (item?.type === 'image_url') {
+          const inlineData = parseDataURL(item.image_url?.url ?? '')
+          if (inlineData) {
+            parts.push({ inlineData })
+          }
+        }
+      }
+
+      for (const toolCall of message.tool_calls ?? []) {
+        toolNames.set(toolCall.id, toolCall.function?.name)
+        const signature = thoughtSignatures.get(toolCall.id)
+        parts.push({
+          functionCall: {
+            name: toolCall.function?.name,
+            args: parseToolArguments(toolCall.function?.arguments),
+          },
+          ...(signature ? { thoughtSignature: signature } : {}),
+        })
+      }
+
+      push(message.role === 'assistant' ? 'model' : 'user', parts)
+    }
+
+    return contents
+  }
+}
@@ -0,0 +1,333 @@
+import { nanoid } from 'nanoid'
+import { zodToJsonSchema } from 'zod-to-json-schema'
+import { ModelAPIAdapter, StreamingEvent, TokenUsage } from './base'
+import {
+  buildToolCallingPrompt,
+  parseToolCalls,
+  toPromptToolMessages,
+} from './promptToolCalling'
+import {
+  UnifiedRequestParams,
+  UnifiedResponse,
+} from '@cougar-types/modelCapabilities'
+import { Tool, getToolDescription } from '@tool'
+
+/**
+ * Adapter for the native Ollama chat API (/api/chat). Requests arrive as Chat
+ * Completions messages; responses stream back as newline-delimited JSON.
+ * The profile's context length is sent as `num_ctx`, since Ollama otherwise
+ * truncates prompts to its small default window. Models without native tool
+ * support get their tools through the prompt instead.
+ */
+
+type OllamaMessage = {
+  role: 'system' | 'user' | 'assistant' | 'tool'
+  content: string
+  images?: string[]
+  tool_calls?: { function: { name: string; arguments: unknown } }[]
+  tool_name?: string
+}
+
+function getText(content: unknown): string {
+  if (typeof content === 'string') {
+    return content
+  }
+  if (Array.isArray(content)) {
+    return content
+      .map(item => (item?.type === 'text' ? item.text : ''))
+      .filter(Boolean)
+      .join('\n\n')
+  }
+  return ''
+}
+
+function getImages(content: unknown): string[] {
+  if (!Array.isArray(content)) {
+    return []
+  }
+  return content
+    .filter(item => item?.type === 'image_url')
+    .map(item => item.image_url?.url?.match(/^data:[^;]+;base64,(.*)$/s)?.[1])
+    .filter(Boolean)
+}
+
+function parseToolArguments(args: unknown): unknown {
+  if (typeof args !== 'string') {
+    return args ?? {}
+  }
+  try {
+    return JSON.parse(args || '{}')
+  } catch {
+    return {}
+  }
+}
+
+export class OllamaAdapter extends ModelAPIAdapter {
+  createRequest(params: UnifiedRequestParams): any {
+    const { messages, systemPrompt, tools, maxTokens, stream } = params
+    const hasTools = !!tools && tools.length > 0
+
+    const system = systemPrompt.filter(Boolean)
+    if (hasTools && !this.usesNativeTools()) {
+      system.push(buildToolCallingPrompt(this.buildTools(tools)))
+    }
+
+    const request: any = {
+      model: this.modelProfile.modelName,
+      stream: !!(stream && this.capabilities.streaming.supported),
+      messages: [
+        ...system.map(content => ({ role: 'system', content })),
+        ...this.buildMessages(
+          hasTools && !this.usesNativeTools()
+            ? toPromptToolMessages(messages)
+            : messages,
+        ),
+      ],
+      options: {
+        num_predict: maxTokens,
+        temperature: params.temperature ?? this.getTemperature(),
+        ...(this.modelProfile.contextLength
+          ? { num_ctx: this.modelProfile.contextLength }
+          : {}),
+      },
+    }
+
+    if (hasTools && this.usesNativeTools()) {
+      request.tools = this.buildTools(tools).map(tool => ({
+        type: 'function',
+        function: tool,
+      }))
+    }
+
+    // Thinking models return their reasoning apart from the answer
+    if (this.shouldIncludeReasoningEffort()) {
+      request.think = true
+    }
+
+    return request
+  }
+
+  buildTools(tools: Tool[]): any[] {
+    return tools.map(tool => ({
+      name: tool.name,
+      description: getToolDescription(tool),
+      parameters: tool.inputJSONSchema || zodToJsonSchema(tool.inputSchema),
+    }))
+  }
+
+  async parseResponse(response: any): Promise<UnifiedResponse> {
+    const isStream = response?.headers
+      ?.get?.('content-type')
+      ?.includes('ndjson')
+    if (!isStream) {
+      const data =
+        typeof response?.json === 'function' ? await response.json() : response
+      if (!data || typeof data !== 'object' || !data.message) {
+        throw new Error('Invalid response: no message found in response')
+      }
+      return this.buildUnifiedResponse(
+        data.message.thinking ?? '',
+        data.message.content ?? '',
+        (data.message.tool_calls ?? []).map((toolCall: any) =>
+          this.toToolCall(toolCall),
+        ),
+        this.normalizeUsage(data),
+      )
+    }
+
+    let thinking = ''
+    let text = ''
+    const toolCalls: any[] = []
+    let usage: TokenUsage = { input: 0, output: 0 }
+    for await (const event of this.parseStreamingResponse(response)) {
+      switch (event.type) {
+        case 'thinking_delta':
+          thinking += event.delta
+          break
+        case 'text_delta':
+          text += event.delta
+          break
+        case 'tool_request':
+          toolCalls.push(event.tool)
+          break
+        case 'usage':
+          usage = event.usage
+          break
+        case 'error':
+          throw new Error(event.error)
+      }
+    }
+    return this.buildUnifiedResponse(thinking, text, toolCalls, usage)
+  }
+
+  async *parseStreamingResponse(
+    response: any,
+    signal?: AbortSignal,
+  ): AsyncGenerator<StreamingEvent> {
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+    const responseId = `ollama_${Date.now()}`
+
+    yield {
+      type: 'message_start',
+      message: { role: 'assistant', content: [] },
+      responseId,
+    }
+
+    try {
+      while (true) {
+        if (signal?.aborted) {
+          throw new Error('Stream aborted by user')
+        }
+        const { done, value } = await reader.read()
+        if (done) break
+
+        buffer += decoder.decode(value, { stream: true })
+        const lines = buffer.split('\n')
+        buffer = lines.pop() || ''
+
+        for (const line of lines) {
+          if (!line.trim()) continue
+          let chunk: any
+          try {
+            chunk = JSON.parse(line)
+          } catch {
+            continue
+          }
+
+          if (chunk.error) {
+            throw new Error(chunk.error)
+          }
+          if (chunk.message?.thinking) {
+            yield {
+              type: 'thinking_delta',
+              delta: chunk.message.thinking,
+              responseId,
+            }
+          }
+          if (chunk.message?.content) {
+            yield {
+              type: 'text_delta',
+              delta: chunk.message.content,
+              responseId,
+            }
+          }
+          for (const toolCall of chunk.message?.tool_calls ?? []) {
+            yield { type: 'tool_request', tool: this.toToolCall(toolCall) }
+          }
+
+          // Token counts only come with the final chunk
+          if (chunk.done) {
+            this.cumulativeUsage = this.normalizeUsage(chunk)
+            yield { type: 'usage', usage: { ...this.cumulativeUsage } }
+          }
+        }
+      }
+    } catch (error) {
+      yield {
+        type: 'error',
+        error: error instanceof Error ? error.message : String(error),
+      }
+    } finally {
+      reader.releaseLock()
+    }
+
+    yield {
+      type: 'message_stop',
+      message: { id: responseId, role: 'assistant', responseId },
+    }
+  }
+
+  private usesNativeTools(): boolean {
+    return this.capabilities.toolCalling.mode !== 'none'
+  }
+
+  private buildUnifiedResponse(
+    thinking: string,
+    text: string,
+    toolCalls: any[],
+    usage: TokenUsage,
+  ): UnifiedResponse {
+    if (!this.usesNativeTools()) {
+      const parsed = parseToolCalls(text)
+      text = parsed.text
+      toolCalls = [...toolCalls, ...parsed.toolCalls]
+    }
+
+    const content: UnifiedResponse['content'] = []
+    if (thinking) {
+      content.push({ type: 'thinking', thinking, signature: '' })
+    }
+    if (text) {
+      content.push({ type: 'text', text, citations: [] })
+    }
+    return {
+      id: `ollama_${Date.now()}`,
+      content,
+      toolCalls,
+      usage: {
+        promptTokens: usage.input,
+        completionTokens: usage.output,
+      },
+    }
+  }
+
+  private toToolCall(toolCall: any): any {
+    return {
+      id: toolCall.id || `call_${nanoid()}`,
+      type: 'function',
+      function: {
+        name: toolCall.function?.name,
+        arguments: JSON.stringify(toolCall.function?.arguments ?? {}),
+      },
+    }
+  }
+
+  private normalizeUsage(data: any): TokenUsage {
+    const input = Number(data?.prompt_eval_count) || 0
+    const output = Number(data?.eval_count) || 0
+    return { input, output, total: input + output || undefined }
+  }
+
+  private buildMessages(messages: any[]): OllamaMessage[] {
+    const result: OllamaMessage[] = []
+    const toolNames = new Map<string, string>()
+
+    for (const message of messages) {
+      if (!message || typeof message !== 'object') continue
+
+      if (message.role === 'tool') {
+        result.push({
+          role: 'tool',
+          content: getText(message.content),
+          tool_name: toolNames.get(message.tool_call_id),
+        })
+        continue
+      }
+
+      const ollamaMessage: OllamaMessage = {
+        role: message.role,
+        content: getText(message.content),
+      }
+      const images = getImages(message.content)
+      if (images.length > 0) {
+        ollamaMessage.images = images
+      }
+      if (message.tool_calls?.length) {
+        ollamaMessage.tool_calls = message.tool_calls.map((toolCall: any) => {
+          toolNames.set(toolCall.id, toolCall.function?.name)
+          return {
+            function: {
+              name: toolCall.function?.name,
+              arguments: parseToolArguments(toolCall.function?.arguments),
+            },
+          }
+        })
+      }
+      result.push(ollamaMessage)
+    }
+
+    return result
+  }
+}
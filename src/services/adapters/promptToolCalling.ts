@@ -0,0 +1,225 @@
+import { nanoid } from 'nanoid'
+import { UnifiedResponse } from '@cougar-types/modelCapabilities'
+
+/**
+ * Tool calling over plain text, for models that have no native function
+ * calling. Tool schemas go into the system prompt, the model answers with
+ * `<tool_call>` blocks, and earlier calls and results are replayed in the same
+ * text form. Calls come back out in the Chat Completions `tool_calls` shape.
+ */
+
+// Name of the tool call standing in for a block that could not be parsed, so
+// the model gets the problem back as a tool error and can retry
+export const MALFORMED_TOOL_CALL = 'MalformedToolCall'
+
+export type MalformedToolCallInput = {
+  error: string
+  block: string
+}
+
+export type PromptTool = {
+  name: string
+  description: string
+  parameters: unknown
+}
+
+const TOOL_CALL_PATTERN = /<tool_call>([\s\S]*?)(?:<\/tool_call>|$)/g
+
+export function buildToolCallingPrompt(tools: PromptTool[]): string {
+  const definitions = tools
+    .map(tool =>
+      JSON.stringify({
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      }),
+    )
+    .join('\n')
+
+  return `# Tools
+
+You can call the tools below. Each line is a tool with a JSON Schema for its arguments:
+${definitions}
+
+To call a tool, answer with a block like this, holding a single JSON object:
+<tool_call>
+{"name": "<tool name>", "arguments": {<arguments matching the schema>}}
+</tool_call>
+
+You may call several tools by writing several blocks. After your tool calls, stop and wait: the results come back in <tool_result> blocks in the next message. Never write <tool_result> blocks yourself.`
+}
+
+function formatToolCall(name: string, args: unknown): string {
+  if (name === MALFORMED_TOOL_CALL) {
+    // Replay what the model wrote, not the stand-in
+    return (parseArguments(args) as MalformedToolCallInput).block ?? ''
+  }
+  return `<tool_call>\n${JSON.stringify({ name, arguments: parseArguments(args) })}\n</tool_call>`
+}
+
+function parseArguments(args: unknown): unknown {
+  let parsedArgs = args
+  if (typeof args === 'string') {
+    try {
+      parsedArgs = JSON.parse(args || '{}')
+    } catch {
+      parsedArgs = {}
+    }
+  }
+  return parsedArgs
+}
+
+function getText(content: unknown): string {
+  if (typeof content === 'string') {
+    return content
+  }
+  if (Array.isArray(content)) {
+    return content
+      .map(item => (item?.type === 'text' ? item.text : ''))
+      .filter(Boolean)
+      .join('\n\n')
+  }
+  return ''
+}
+
+/**
+ * Rewrites assistant tool calls and tool results of a Chat Completions
+ * conversation into the text protocol, so models without native tools can
+ * follow the history
+ */
+export function toPromptToolMessages(messages: any[]): any[] {
+  const result: any[] = []
+  const toolNames = new Map<string, string>()
+
+  for (const message of messages) {
+    if (message?.role === 'assistant' && message.tool_calls?.length) {
+      const calls = message.tool_calls.map((toolCall: any) => {
+        toolNames.set(toolCall.id, toolCall.function?.name)
+        return formatToolCall(
+          toolCall.function?.name,
+          toolCall.function?.arguments,
+        )
+      })
+      const { tool_calls, ...rest } = message
+      result.push({
+        ...rest,
+        content: [getText(message.content), ...calls]
+          .filter(Boolean)
+          .join('\n'),
+      })
+      continue
+    }
+
+    if (message?.role === 'tool') {
+      const name = toolNames.get(message.tool_call_id) ?? 'unknown'
+      const block = `<tool_result name="${name}">\n${getText(message.content)}\n</tool_result>`
+      const last = result[result.length - 1]
+      // Results of parallel calls go back in one message
+      if (last?.role === 'user' && last.isToolResult) {
+        last.content += `\n${block}`
+      } else {
+        result.push({ role: 'user', content: block, isToolResult: true })
+      }
+      continue
+    }
+
+    result.push(message)
+  }
+
+  return result.map(({ isToolResult, ...message }) => message)
+}
+
+function toToolCall(name: string, args: unknown) {
+  return {
+    id: `call_${nanoid()}`,
+    type: 'function',
+    function: { name, arguments: JSON.stringify(args) },
+  }
+}
+
+/**
+ * Pulls `<tool_call>` blocks out of a model's text. A block the model did not
+ * close before stopping still counts. Blocks that are not a JSON object with a
+ * tool name become MALFORMED_TOOL_CALL calls carrying the parse error.
+ */
+export function parseToolCalls(text: string): {
+  text: string
+  toolCalls: any[]
+} {
+  const toolCalls: any[] = []
+  const remaining = text.replace(TOOL_CALL_PATTERN, (block, body: string) => {
+    const json = body
+      .trim()
+      .replace(/^```(?:json)?\s*/, '')
+      .replace(/\s*```$/, '')
+    let call: any
+    try {
+      call = JSON.parse(json)
+    } catch (error) {
+      toolCalls.push(
+        toToolCall(MALFORMED_TOOL_CALL, {
+          error: `the block is not valid JSON (${error instanceof Error ? error.message : String(error)})`,
+          block,
+        } satisfies MalformedToolCallInput),
+      )
+      return ''
+    }
+
+    const args = call?.arguments ?? call?.parameters ?? {}
+    if (!call || typeof call.name !== 'string' || !call.name) {
+      toolCalls.push(
+        toToolCall(MALFORMED_TOOL_CALL, {
+          error: 'the JSON object has no "name" string',
+          block,
+        } satisfies MalformedToolCallInput),
+      )
+    } else if (typeof args !== 'object' || Array.isArray(args)) {
+      toolCalls.push(
+        toToolCall(MALFORMED_TOOL_CALL, {
+          error: `"arguments" of ${call.name} must be a JSON object`,
+          block,
+        } satisfies MalformedToolCallInput),
+      )
+    } else {
+      toolCalls.push(toToolCall(call.name, args))
+    }
+    return ''
+  })
+
+  return { text: remaining.trim(), toolCalls }
+}
+
+/**
+ * Moves the `<tool_call>` blocks in a response's text into its tool calls
+ */
+export function withPromptToolCalls(
+  response: UnifiedResponse,
+): UnifiedResponse {
+  const toolCalls = [...(response.toolCalls ?? [])]
+  const extract = (text: string) => {
+    const parsed = parseToolCalls(text)
+    toolCalls.push(...parsed.toolCalls)
+    return parsed.text
+  }
+
+  const content =
+    typeof response.content === 'string'
+      ? extract(response.content)
+      : response.content
+          .map(block =>
+            block.type === 'text' && block.text
+              ? { ...block, text: extract(block.text) }
+              : block,
+          )
+          .filter(block => block.type !== 'text' || block.text)
+  return { ...response, content, toolCalls }
+}
+
+/**
+ * Error sent back to the model for a MALFORMED_TOOL_CALL call
+ */
+export function formatMalformedToolCallError(
+  input: MalformedToolCallInput,
+): string {
+  return `Error: Could not parse tool call: ${input.error}. Write each call as <tool_call>{"name": "<tool name>", "arguments": {...}}</tool_call>, with valid JSON inside.`
+}
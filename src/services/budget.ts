@@ -0,0 +1,139 @@
+import { getTotalCost } from '@costTracker'
+import { type BudgetPeriod, getCurrentProjectConfig } from '@utils/config'
+import { SESSION_ID } from '@utils/log'
+import {
+  getCurrentProject,
+  getSessionUsage,
+  getTotalUsageCost,
+  readUsage,
+} from './usageLedger'
+
+/**
+ * Project spend budgets
+ *
+ * query() checks the budgets before every model request. Past the soft
+ * budget it asks once per period whether to go on; past the hard budget it
+ * asks before every request. Without a way to ask (print mode), going past
+ * the soft budget is allowed and going past the hard budget stops the agent
+ * with a BudgetExceededError (exit code 4 in print mode).
+ *
+ * Spend of earlier sessions is read from the ledger once per project and
+ * period, and this session's spend is added from memory, so spend recorded
+ * by other sessions running at the same time is only seen in the next period.
+ */
+
+export type BudgetStatus = {
+  kind: 'soft' | 'hard'
+  period: BudgetPeriod
+  limit: number
+  spent: number
+}
+
+export type ConfirmBudgetFn = (status: BudgetStatus) => Promise<boolean>
+
+// Soft budgets the user chose to go past, by period and period start
+const confirmedSoftBudgets = new Set<string>()
+
+// Spend of earlier sessions, by project and period start
+const ledgerSpend = new Map<string, number>()
+
+function getPeriodStart(period: BudgetPeriod): Date | undefined {
+  const now = new Date()
+  switch (period) {
+    case 'session':
+      return undefined
+    case 'day':
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate())
+    case 'week':
+      // Weeks start on Monday
+      return new Date(
+        now.getFullYear(),
+        now.getMonth(),
+        now.getDate() - ((now.getDay() + 6) % 7),
+      )
+    case 'month':
+      return new Date(now.getFullYear(), now.getMonth(), 1)
+  }
+}
+
+function getSpend(period: BudgetPeriod): number {
+  if (period === 'session') {
+    return getTotalCost()
+  }
+  const since = getPeriodStart(period)!
+  const project = getCurrentProject()
+  const key = `${project}:${since.getTime()}`
+  let earlierSpend = ledgerSpend.get(key)
+  if (earlierSpend === undefined) {
+    earlierSpend = getTotalUsageCost(
+      readUsage({ project, since }).filter(_ => _.sessionId !== SESSION_ID),
+    )
+    ledgerSpend.set(key, earlierSpend)
+  }
+  return (
+    earlierSpend +
+    getTotalUsageCost(
+      getSessionUsage().filter(
+        _ => _.project === project && new Date(_.timestamp) >= since,
+      ),
+    )
+  )
+}
+
+export function getExceededBudget(): BudgetStatus | null {
+  const {
+    softBudget,
+    hardBudget,
+    budgetPeriod: period = 'session',
+  } = getCurrentProjectConfig()
+  if (!softBudget && !hardBudget) {
+    return null
+  }
+
+  const spent = getSpend(period)
+  if (hardBudget && spent >= hardBudget) {
+    return { kind: 'hard', period, limit: hardBudget, spent }
+  }
+  if (
+    softBudget &&
+    spent >= softBudget &&
+    !confirmedSoftBudgets.has(getSoftBudgetKey(period))
+  ) {
+    return { kind: 'soft', period, limit: softBudget, spent }
+  }
+  return null
+}
+
+function getSoftBudgetKey(period: BudgetPeriod): string {
+  return `${period}:${getPeriodStart(period)?.getTime() ?? ''}`
+}
+
+/**
+ * Returns the exceeded budget if the agent should stop, or null to go on
+ */
+export async function checkBudget(
+  confirm?: ConfirmBudgetFn,
+): Promise<BudgetStatus | null> {
+  const status = getExceededBudget()
+  if (!status) {
+    return null
+  }
+  const approved = confirm ? await confirm(status) : status.kind === 'soft'
+  if (!approved) {
+    return status
+  }
+  if (status.kind === 'soft') {
+    confirmedSoftBudgets.add(getSoftBudgetKey(status.period))
+  }
+  return null
+}
+
+export function formatBudgetStatus({
+  kind,
+  period,
+  limit,
+  spent,
+}: BudgetStatus): string {
+  const periodLabel = period === 'session' ? 'this session' : `this ${period}`
+  return `This project has spent $${spent.toFixed(2)} ${periodLabel}, over its ${kind} budget of $${limit.toFixed(2)}.`
+}
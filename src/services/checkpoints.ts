@@ -0,0 +1,152 @@
+import { AsyncLocalStorage } from 'async_hooks'
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  unlinkSync,
+  writeFileSync,
+} from 'fs'
+import { dirname, resolve } from 'path'
+import { runInAsyncContext } from '@utils/generators'
+import { logError } from '@utils/log'
+import { getCwdScope } from '@utils/state'
+import { checkFileFreshness, recordFileEdit } from './fileFreshness'
+
+/**
+ * File checkpoints
+ *
+ * Before a tool writes a file, the file's previous content is saved in a
+ * checkpoint keyed by the assistant message whose tool use made the write.
+ * /undo and /rewind restore files from these checkpoints. Checkpoints live in
+ * memory for the session.
+ *
+ * Writes made by a sub-agent are attributed to the main assistant message
+ * that started the task. Writes inside an isolated worktree are not
+ * checkpointed; /worktree discards those.
+ */
+
+type FileSnapshot = {
+  path: string
+  // null when the file did not exist before the write
+  content: Buffer | null
+}
+
+type Checkpoint = {
+  messageId: string
+  timestamp: number
+  files: Map<string, FileSnapshot>
+}
+
+export type RestoreResult = {
+  restoredFiles: string[]
+  warnings: string[]
+}
+
+const checkpointContext = new AsyncLocalStorage<string>()
+const checkpoints: Checkpoint[] = []
+
+/**
+ * Run a tool call so that the files it writes are checkpointed under
+ * `messageId`
+ */
+export function runWithCheckpoint<A>(
+  messageId: string,
+  generator: AsyncGenerator<A, void>,
+): AsyncGenerator<A, void> {
+  if (checkpointContext.getStore()) {
+    return generator
+  }
+  return runInAsyncContext(checkpointContext, messageId, generator)
+}
+
+/**
+ * Save a file's current content before it is overwritten. Only the first
+ * write to a file per message is recorded, since that holds the content from
+ * before the message.
+ */
+export function snapshotFileBeforeWrite(filePath: string): void {
+  const messageId = checkpointContext.getStore()
+  if (!messageId || getCwdScope()?.isolated) {
+    return
+  }
+  const path = resolve(filePath)
+  let checkpoint = checkpoints.find(_ => _.messageId === messageId)
+  if (!checkpoint) {
+    checkpoint = { messageId, timestamp: Date.now(), files: new Map() }
+    checkpoints.push(checkpoint)
+  }
+  if (checkpoint.files.has(path)) {
+    return
+  }
+  try {
+    checkpoint.files.set(path, {
+      path,
+      content: existsSync(path) ? readFileSync(path) : null,
+    })
+  } catch (error) {
+    logError(error)
+  }
+}
+
+export function hasCheckpoint(messageId: string): boolean {
+  return checkpoints.some(_ => _.messageId === messageId)
+}
+
+/**
+ * Restore the files written under the given messages to their content from
+ * before the earliest of them, and drop those checkpoints. Files that changed
+ * outside of the session since the session last touched them are restored
+ * too, with a warning.
+ */
+export function restoreCheckpoints(messageIds: string[]): RestoreResult {
+  const selected = checkpoints.filter(_ => messageIds.includes(_.messageId))
+
+  // The oldest snapshot of each file is the state to go back to
+  const snapshots = new Map<string, FileSnapshot>()
+  for (const checkpoint of selected) {
+    for (const [path, snapshot] of checkpoint.files) {
+      if (!snapshots.has(path)) {
+        snapshots.set(path, snapshot)
+      }
+    }
+  }
+
+  const result: RestoreResult = { restoredFiles: [], warnings: [] }
+  for (const snapshot of snapshots.values()) {
+    if (checkFileFreshness(snapshot.path).conflict) {
+      result.warnings.push(
+        `${snapshot.path} was modified outside of this session since it was last edited; those changes were overwritten`,
+      )
+    }
+    try {
+      if (snapshot.content === null) {
+        if (existsSync(snapshot.path)) {
+          unlinkSync(snapshot.path)
+        }
+      } else {
+        mkdirSync(dirname(snapshot.path), { recursive: true })
+        writeFileSync(snapshot.path, snapshot.content)
+        recordFileEdit(snapshot.path)
+      }
+      result.restoredFiles.push(snapshot.path)
+    } catch (error) {
+      logError(error)
+      result.warnings.push(
+        `Could not restore ${snapshot.path}: ${error instanceof Error ? error.message : String(error)}`,
+      )
+    }
+  }
+
+  for (const checkpoint of selected) {
+    checkpoints.splice(checkpoints.indexOf(checkpoint), 1)
+  }
+  return result
+}
+
+export function formatRestoreResult(result: RestoreResult): string {
+  const lines = result.restoredFiles.map(path => `⎿  Restored ${path}`)
+  for (const warning of result.warnings) {
+    lines.push(`⎿  Warning: ${warning}`)
+  }
+  return lines.join('\n')
+}
@@ -1,6 +1,6 @@
 import '@anthropic-ai/sdk/shims/node'
 import Anthropic, { APIConnectionError, APIError } from '@anthropic-ai/sdk'
-import { StreamingEvent } from './adapters/base'
+import { normalizeTokens, StreamingEvent } from './adapters/base'
 import { AnthropicBedrock } from '@anthropic-ai/bedrock-sdk'
 import { AnthropicVertex } from '@anthropic-ai/vertex-sdk'
 import type { BetaUsage } from '@anthropic-ai/sdk/resources/beta/messages/messages.mjs'
@@ -9,7 +9,8 @@ import { createHash, randomUUID, UUID } from 'crypto'
 import 'dotenv/config'
 
 import { addToTotalCost } from '@costTracker'
-import models from '@constants/models'
+import { recordUsage } from './usageLedger'
+import { calculateCostUSD, getModelPricing } from '@utils/modelPricing'
 import type { AssistantMessage, UserMessage } from '@query'
 import { Tool, getToolDescription } from '@tool'
 import {
@@ -20,6 +21,7 @@ import {
 } from '@utils/config'
 import { getProjectDocs } from '@context'
 import { logError, SESSION_ID } from '@utils/log'
+import { ProviderHTTPError } from '@utils/errors'
 import { USER_AGENT } from '@utils/http'
 import {
   createAssistantAPIErrorMessage,
@@ -44,6 +46,13 @@ import { zodToJsonSchema } from 'zod-to-json-schema'
 import type { BetaMessageStream } from '@anthropic-ai/sdk/lib/BetaMessageStream.mjs'
 import { ModelAdapterFactory } from './modelAdapterFactory'
 import { UnifiedRequestParams } from '@cougar-types/modelCapabilities'
+import { getOllamaCapabilities } from '@constants/modelCapabilities'
+import { callOllamaAPI, getOllamaModelInfo } from './ollama'
+import {
+  buildToolCallingPrompt,
+  parseToolCalls,
+  toPromptToolMessages,
+} from './adapters/promptToolCalling'
 import { responseStateManager, getConversationId } from './responseStateManager'
 import type { ToolUseContext } from '@tool'
 import type {
@@ -203,17 +212,6 @@ export const INVALID_API_KEY_ERROR_MESSAGE =
 export const NO_CONTENT_MESSAGE = '(no content)'
 const PROMPT_CACHING_ENABLED = !process.env.DISABLE_PROMPT_CACHING
 
-// @see https://docs.anthropic.com/en/docs/about-claude/models#model-comparison-table
-const HAIKU_COST_PER_MILLION_INPUT_TOKENS = 0.8
-const HAIKU_COST_PER_MILLION_OUTPUT_TOKENS = 4
-const HAIKU_COST_PER_MILLION_PROMPT_CACHE_WRITE_TOKENS = 1
-const HAIKU_COST_PER_MILLION_PROMPT_CACHE_READ_TOKENS = 0.08
-
-const SONNET_COST_PER_MILLION_INPUT_TOKENS = 3
-const SONNET_COST_PER_MILLION_OUTPUT_TOKENS = 15
-const SONNET_COST_PER_MILLION_PROMPT_CACHE_WRITE_TOKENS = 3.75
-const SONNET_COST_PER_MILLION_PROMPT_CACHE_READ_TOKENS = 0.3
-
 export const MAIN_QUERY_TEMPERATURE = 1 // to get more variation for binary feedback
 
 function getMetadata() {
@@ -224,6 +222,8 @@ function getMetadata() {
 
 const MAX_RETRIES = process.env.USER_TYPE === 'SWE_BENCH' ? 100 : 10
 const BASE_DELAY_MS = 500
+// Retries per model when there is another model to fall back to
+const FALLBACK_MAX_RETRIES = 2
 
 interface RetryOptions {
   maxRetries?: number
@@ -845,6 +845,38 @@ function convertOpenAIResponseToAnthropic(response: OpenAI.ChatCompletion, tools
     }
   }
 
+  // Reasoning goes first, as Anthropic models return it
+  if ((message as any).reasoning) {
+    contentBlocks.push({
+      type: 'thinking',
+      thinking: (message as any).reasoning,
+      signature: '',
+    })
+  }
+
+  // NOTE: For deepseek api, the key for its returned reasoning process is reasoning_content
+  if ((message as any).reasoning_content) {
+    contentBlocks.push({
+      type: 'thinking',
+      thinking: (message as any).reasoning_content,
+      signature: '',
+    })
+  }
+
+  // Some servers leave a reasoning model's <think> section in the text
+  let text = message.content
+  const thinkMatch = text?.match(/^\s*<think>([\s\S]*?)(?:<\/think>|$)/)
+  if (text && thinkMatch) {
+    if (thinkMatch[1].trim()) {
+      contentBlocks.push({
+        type: 'thinking',
+        thinking: thinkMatch[1].trim(),
+        signature: '',
+      })
+    }
+    text = text.slice(thinkMatch[0].length).trim()
+  }
+
   if (message?.tool_calls) {
     for (const toolCall of message.tool_calls) {
       const tool = toolCall.function
@@ -865,27 +897,10 @@ function convertOpenAIResponseToAnthropic(response: OpenAI.ChatCompletion, tools
     }
   }
 
-  if ((message as any).reasoning) {
-    contentBlocks.push({
-      type: 'thinking',
-      thinking: (message as any).reasoning,
-      signature: '',
-    })
-  }
-
-  // NOTE: For deepseek api, the key for its returned reasoning process is reasoning_content
-  if ((message as any).reasoning_content) {
-    contentBlocks.push({
-      type: 'thinking',
-      thinking: (message as any).reasoning_content,
-      signature: '',
-    })
-  }
-
-  if (message.content) {
+  if (text) {
     contentBlocks.push({
       type: 'text',
-      text: message?.content,
+      text,
       citations: [],
     })
   }
@@ -1177,6 +1192,8 @@ export async function queryLLM(
     model: string | import('@utils/config').ModelPointerType
     prependCLISysprompt: boolean
     toolUseContext?: ToolUseContext
+    // Called with a user-facing notice when a fallback model takes over
+    onModelFallback?: (notice: string) => void
   },
 ): Promise<AssistantMessage> {
 
@@ -1227,16 +1244,51 @@ export async function queryLLM(
   markPhase('LLM_CALL')
 
   try {
-    const result = await withVCR(messages, () =>
-      queryLLMWithPromptCaching(
-        messages,
-        systemPrompt,
-        maxThinkingTokens,
-        tools,
-        signal,
-        { ...options, model: resolvedModel, modelProfile, toolUseContext }, // Pass resolved ModelProfile and toolUseContext
-      ),
-    )
+    // Move down the pointer's fallback list while requests fail in a way
+    // another model may not
+    let profile = modelProfile
+    let fallbacks = modelManager.getFallbackModels(options.model)
+    let result: AssistantMessage
+    while (true) {
+      const hasFallback = fallbacks.length > 0
+      result = await withVCR(messages, () =>
+        queryLLMWithPromptCaching(
+          messages,
+          systemPrompt,
+          maxThinkingTokens,
+          tools,
+          signal,
+          {
+            ...options,
+            model: profile.modelName,
+            modelProfile: profile,
+            toolUseContext,
+            hasFallback,
+          }, // Pass resolved ModelProfile and toolUseContext
+        ),
+      )
+
+      const nextProfile = getNextFallbackModel(result, profile, fallbacks)
+      if (!nextProfile || signal.aborted) {
+        break
+      }
+      const reason = FALLBACK_REASONS.get(result)!
+      const notice = `${profile.name} ${FALLBACK_NOTICES[reason]} · Falling back to ${nextProfile.name}`
+      // Not printed here: stdout belongs to the UI and to print mode's
+      // output, so the caller decides where the notice goes
+      options.onModelFallback?.(notice)
+      debugLogger.warn('MODEL_FALLBACK', {
+        message: notice,
+        pointer: options.model,
+        fromModel: profile.modelName,
+        toModel: nextProfile.modelName,
+        reason,
+        error: result.message.content,
+        requestId: getCurrentRequest()?.id,
+      })
+      fallbacks = fallbacks.slice(fallbacks.indexOf(nextProfile) + 1)
+      profile = nextProfile
+    }
 
     debugLogger.api('LLM_REQUEST_SUCCESS', {
       costUSD: result.costUSD,
@@ -1361,6 +1413,7 @@ async function queryLLMWithPromptCaching(
     prependCLISysprompt: boolean
     modelProfile?: ModelProfile | null
     toolUseContext?: ToolUseContext
+    hasFallback?: boolean
   },
 ): Promise<AssistantMessage> {
   const config = getGlobalConfig()
@@ -1414,6 +1467,7 @@ async function queryAnthropicNative(
     prependCLISysprompt: boolean
     modelProfile?: ModelProfile | null
     toolUseContext?: ToolUseContext
+    hasFallback?: boolean
   },
 ): Promise<AssistantMessage> {
   const config = getGlobalConfig()
@@ -1511,7 +1565,12 @@ async function queryAnthropicNative(
     )
   )
 
-  const anthropicMessages = addCacheBreakpoints(messages)
+  const { messages: thinkingMessages, budgetTokens } = prepareThinking(
+    messages,
+    maxThinkingTokens,
+    getMaxTokensFromProfile(modelProfile),
+  )
+  const anthropicMessages = addCacheBreakpoints(thinkingMessages)
 
   //  apply cache control
   const { systemBlocks: processedSystem, messageParams: processedMessages } = 
@@ -1544,11 +1603,8 @@ async function queryAnthropicNative(
         tool_choice: toolSchemas.length > 0 ? { type: 'auto' } : undefined,
       }
 
-      if (maxThinkingTokens > 0) {
-        ;(params as any).extra_headers = {
-          'anthropic-beta': 'max-tokens-3-5-sonnet-2024-07-15',
-        }
-        ;(params as any).thinking = { max_tokens: maxThinkingTokens }
+      if (budgetTokens > 0) {
+        params.thinking = { type: 'enabled', budget_tokens: budgetTokens }
       }
 
       // 🔥 REAL-TIME API CALL DEBUG - 使用全局日志系统 (Anthropic Streaming)
@@ -1632,6 +1688,12 @@ async function queryAnthropicNative(
               
               if (event.delta.type === 'text_delta') {
                 contentBlocks[blockIndex].text += event.delta.text
+              } else if (event.delta.type === 'thinking_delta') {
+                contentBlocks[blockIndex].thinking =
+                  (contentBlocks[blockIndex].thinking ?? '') + event.delta.thinking
+              } else if (event.delta.type === 'signature_delta') {
+                // The signature lets the thinking be sent back on later turns
+                contentBlocks[blockIndex].signature = event.delta.signature
               } else if (event.delta.type === 'input_json_delta') {
                 const currentBuffer = inputJSONBuffers.get(blockIndex) || ''
                 inputJSONBuffers.set(blockIndex, currentBuffer + event.delta.partial_json)
@@ -1720,7 +1782,10 @@ async function queryAnthropicNative(
           signal: signal // ← CRITICAL: Connect the AbortSignal to API call
         })
       }
-    }, { signal })
+    }, {
+      signal,
+      maxRetries: options?.hasFallback ? FALLBACK_MAX_RETRIES : undefined,
+    })
 
     debugLogger.api('ANTHROPIC_API_CALL_SUCCESS', {
       content: response.content
@@ -1794,16 +1859,26 @@ async function queryAnthropicNative(
       response.usage.cache_creation_input_tokens ?? 0
     const cacheReadInputTokens = response.usage.cache_read_input_tokens ?? 0
 
-    const costUSD =
-      (inputTokens / 1_000_000) * getModelInputTokenCostUSD(model) +
-      (outputTokens / 1_000_000) * getModelOutputTokenCostUSD(model) +
-      (cacheCreationInputTokens / 1_000_000) *
-        getModelInputTokenCostUSD(model) +
-      (cacheReadInputTokens / 1_000_000) *
-        (getModelInputTokenCostUSD(model) * 0.1) // Cache reads are 10% of input cost
+    const costUSD = calculateCostUSD(getModelPricing(modelProfile, model), {
+      inputTokens,
+      outputTokens,
+      cacheReadTokens: cacheReadInputTokens,
+      cacheWriteTokens: cacheCreationInputTokens,
+      reasoningTokens: 0,
+    })
 
-    assistantMessage.costUSD = costUSD
-    addToTotalCost(costUSD, durationMs)
+    assistantMessage.costUSD = costUSD ?? 0
+    addToTotalCost(costUSD ?? 0, durationMs)
+    recordUsage({
+      model,
+      inputTokens,
+      outputTokens,
+      cacheReadTokens: cacheReadInputTokens,
+      cacheWriteTokens: cacheCreationInputTokens,
+      reasoningTokens: 0,
+      costUSD,
+      durationMs,
+    })
 
     
 
@@ -1813,8 +1888,78 @@ async function queryAnthropicNative(
   }
 }
 
+type FallbackReason = 'rate_limit' | 'retries_exhausted' | 'prompt_too_long'
+
+// API error messages whose request another model may succeed at
+const FALLBACK_REASONS = new WeakMap<AssistantMessage, FallbackReason>()
+
+const FALLBACK_NOTICES: Record<FallbackReason, string> = {
+  rate_limit: 'is rate limited',
+  retries_exhausted: 'keeps failing',
+  prompt_too_long: 'cannot fit the prompt',
+}
+
+function isPromptTooLongError(error: Error): boolean {
+  return /prompt is too long|maximum context length|context_length_exceeded/i.test(
+    error.message,
+  )
+}
+
+function getFallbackReason(error: unknown): FallbackReason | null {
+  if (!(error instanceof Error)) {
+    return null
+  }
+  if (isPromptTooLongError(error)) {
+    return 'prompt_too_long'
+  }
+  if (error instanceof APIError || error instanceof ProviderHTTPError) {
+    if (error.status === 429) {
+      return 'rate_limit'
+    }
+    if (
+      error instanceof APIConnectionError ||
+      error.status === 408 ||
+      error.status === 409 ||
+      (error.status && error.status >= 500)
+    ) {
+      return 'retries_exhausted'
+    }
+    return null
+  }
+  // Network errors of OpenAI-compatible providers
+  return error.message === 'Max attempts reached' ? 'retries_exhausted' : null
+}
+
+/**
+ * The next fallback model to send a failed request to, if any. A prompt that
+ * is too long only goes to a model with a larger context window.
+ */
+function getNextFallbackModel(
+  result: AssistantMessage,
+  profile: ModelProfile,
+  fallbacks: ModelProfile[],
+): ModelProfile | undefined {
+  switch (FALLBACK_REASONS.get(result)) {
+    case undefined:
+      return undefined
+    case 'prompt_too_long':
+      return fallbacks.find(_ => _.contextLength > profile.contextLength)
+    default:
+      return fallbacks[0]
+  }
+}
+
 function getAssistantMessageFromError(error: unknown): AssistantMessage {
-  if (error instanceof Error && error.message.includes('prompt is too long')) {
+  const message = getAssistantMessageForError(error)
+  const fallbackReason = getFallbackReason(error)
+  if (fallbackReason) {
+    FALLBACK_REASONS.set(message, fallbackReason)
+  }
+  return message
+}
+
+function getAssistantMessageForError(error: unknown): AssistantMessage {
+  if (error instanceof Error && isPromptTooLongError(error)) {
     return createAssistantAPIErrorMessage(PROMPT_TOO_LONG_ERROR_MESSAGE)
   }
   if (
@@ -1843,6 +1988,82 @@ function getAssistantMessageFromError(error: unknown): AssistantMessage {
   return createAssistantAPIErrorMessage(API_ERROR_MESSAGE_PREFIX)
 }
 
+// Smallest thinking budget the Messages API accepts
+const MIN_THINKING_BUDGET = 1024
+
+function isThinkingBlock(block: { type: string }): boolean {
+  return block.type === 'thinking' || block.type === 'redacted_thinking'
+}
+
+/**
+ * Thinking blocks and budget for an Anthropic request, following the rules of
+ * thinking in query.ts. Without thinking, no thinking blocks may be sent.
+ * With it, only signed ones may: other providers' reasoning comes back
+ * unsigned. Thinking cannot be turned on halfway through a tool use
+ * trajectory whose assistant message did not think, so it stays off then.
+ */
+function prepareThinking(
+  messages: (UserMessage | AssistantMessage)[],
+  maxThinkingTokens: number,
+  maxTokens: number,
+): { messages: (UserMessage | AssistantMessage)[]; budgetTokens: number } {
+  // The budget has to leave room for the answer within max_tokens
+  let budgetTokens = Math.min(maxThinkingTokens, maxTokens - 1)
+  if (budgetTokens < MIN_THINKING_BUDGET) {
+    budgetTokens = 0
+  }
+
+  const withThinking = messages.map(message => {
+    if (message.type !== 'assistant') {
+      return message
+    }
+    const content = message.message.content.filter(
+      block =>
+        !isThinkingBlock(block) ||
+        block.type === 'redacted_thinking' ||
+        (block.type === 'thinking' && !!block.signature),
+    )
+    return content.length === message.message.content.length
+      ? message
+      : { ...message, message: { ...message.message, content } }
+  })
+
+  const lastAssistant = [...withThinking]
+    .reverse()
+    .find((_): _ is AssistantMessage => _.type === 'assistant')
+  const continuesToolUse =
+    withThinking[withThinking.length - 1]?.type === 'user' &&
+    lastAssistant?.message.content.some(_ => _.type === 'tool_use')
+  if (
+    budgetTokens > 0 &&
+    continuesToolUse &&
+    !isThinkingBlock(lastAssistant!.message.content[0] ?? { type: 'text' })
+  ) {
+    budgetTokens = 0
+  }
+
+  if (budgetTokens > 0) {
+    return { messages: withThinking, budgetTokens }
+  }
+  return {
+    messages: messages.map(message =>
+      message.type === 'assistant' &&
+      message.message.content.some(isThinkingBlock)
+        ? {
+            ...message,
+            message: {
+              ...message.message,
+              content: message.message.content.filter(
+                block => !isThinkingBlock(block),
+              ),
+            },
+          }
+        : message,
+    ),
+    budgetTokens: 0,
+  }
+}
+
 function addCacheBreakpoints(
   messages: (UserMessage | AssistantMessage)[],
 ): MessageParam[] {
@@ -1865,6 +2086,7 @@ async function queryOpenAI(
     prependCLISysprompt: boolean
     modelProfile?: ModelProfile | null
     toolUseContext?: ToolUseContext
+    hasFallback?: boolean
   },
 ): Promise<AssistantMessage> {
   const config = getGlobalConfig()
@@ -1956,6 +2178,8 @@ async function queryOpenAI(
     adapter: ReturnType<typeof ModelAdapterFactory.createAdapter>
     request: any
     shouldUseResponses: boolean
+    shouldUseGemini?: boolean
+    shouldUseOllama?: boolean
   }
 
   type QueryResult = {
@@ -1978,11 +2202,19 @@ async function queryOpenAI(
 
     if (USE_NEW_ADAPTER_SYSTEM) {
       const shouldUseResponses = ModelAdapterFactory.shouldUseResponsesAPI(modelProfile)
-
-      // Only use new adapters for Responses API models
-      // Chat Completions models use legacy path for stability
-      if (shouldUseResponses) {
-        const adapter = ModelAdapterFactory.createAdapter(modelProfile)
+      const shouldUseGemini = ModelAdapterFactory.shouldUseGeminiAPI(modelProfile)
+      const shouldUseOllama = ModelAdapterFactory.shouldUseOllamaAPI(modelProfile)
+
+      // Only use new adapters for Responses API, native Gemini and Ollama
+      // models. Chat Completions models use legacy path for stability
+      if (shouldUseResponses || shouldUseGemini || shouldUseOllama) {
+        // Ollama tool and thinking support depends on the installed model
+        const adapter = shouldUseOllama
+          ? ModelAdapterFactory.createAdapter(
+              modelProfile,
+              getOllamaCapabilities(await getOllamaModelInfo(modelProfile)),
+            )
+          : ModelAdapterFactory.createAdapter(modelProfile)
         const reasoningEffort = await getReasoningEffort(modelProfile, messages)
 
         // Determine verbosity based on model name
@@ -2006,12 +2238,15 @@ async function queryOpenAI(
           temperature: isGPT5Model(model) ? 1 : MAIN_QUERY_TEMPERATURE,
           previousResponseId: toolUseContext?.responseState?.previousResponseId,
           verbosity,
+          maxThinkingTokens,
         }
 
         adapterContext = {
           adapter,
           request: adapter.createRequest(unifiedParams),
-          shouldUseResponses: true,
+          shouldUseResponses,
+          shouldUseGemini,
+          shouldUseOllama,
         }
       }
     }
@@ -2019,21 +2254,32 @@ async function queryOpenAI(
 
   let queryResult: QueryResult
   let startIncludingRetries = Date.now()
+  const maxAttempts = options?.hasFallback ? FALLBACK_MAX_RETRIES + 1 : 10
 
   try {
     queryResult = await withRetry(async () => {
       start = Date.now()
 
       if (adapterContext) {
-        if (adapterContext.shouldUseResponses) {
-          const { callGPT5ResponsesAPI } = await import('./openai')
-
-          const response = await callGPT5ResponsesAPI(
-            modelProfile,
-            adapterContext.request,
-            signal,
+        if (
+          adapterContext.shouldUseResponses ||
+          adapterContext.shouldUseGemini ||
+          adapterContext.shouldUseOllama
+        ) {
+          const { callGPT5ResponsesAPI, callGeminiAPI } = await import(
+            './openai'
           )
 
+          const response = adapterContext.shouldUseOllama
+            ? await callOllamaAPI(modelProfile, adapterContext.request, signal)
+            : adapterContext.shouldUseGemini
+            ? await callGeminiAPI(modelProfile, adapterContext.request, signal)
+            : await callGPT5ResponsesAPI(
+                modelProfile,
+                adapterContext.request,
+                signal,
+              )
+
           const unifiedResponse = await adapterContext.adapter.parseResponse(
             response,
           )
@@ -2055,7 +2301,7 @@ async function queryOpenAI(
           modelProfile,
           adapterContext.request,
           0,
-          10,
+          maxAttempts,
           signal,
         )
         let finalResponse
@@ -2089,12 +2335,34 @@ async function queryOpenAI(
       const maxTokens = getMaxTokensFromProfile(modelProfile)
       const isGPT5 = isGPT5Model(model)
 
+      // Models without function calling get their tools in the system
+      // prompt and answer with <tool_call> blocks
+      const usePromptTools =
+        toolSchemas.length > 0 &&
+        !!modelProfile &&
+        ModelAdapterFactory.usesPromptToolCalling(modelProfile)
+
       const opts: OpenAI.ChatCompletionCreateParams = {
         model,
         ...(isGPT5
           ? { max_completion_tokens: maxTokens }
           : { max_tokens: maxTokens }),
-        messages: [...openaiSystem, ...openaiMessages],
+        messages: usePromptTools
+          ? [
+              ...openaiSystem,
+              {
+                role: 'system',
+                content: buildToolCallingPrompt(
+                  toolSchemas.map(({ function: fn }) => ({
+                    name: fn.name,
+                    description: fn.description ?? '',
+                    parameters: fn.parameters,
+                  })),
+                ),
+              },
+              ...toPromptToolMessages(openaiMessages),
+            ]
+          : [...openaiSystem, ...openaiMessages],
         temperature: isGPT5 ? 1 : MAIN_QUERY_TEMPERATURE,
       }
       if (config.stream) {
@@ -2104,7 +2372,7 @@ async function queryOpenAI(
         }
       }
 
-      if (toolSchemas.length > 0) {
+      if (toolSchemas.length > 0 && !usePromptTools) {
         opts.tools = toolSchemas
         opts.tool_choice = 'auto'
       }
@@ -2116,7 +2384,13 @@ async function queryOpenAI(
       const completionFunction = isGPT5Model(modelProfile?.modelName || '')
         ? getGPT5CompletionWithProfile
         : getCompletionWithProfile
-      const s = await completionFunction(modelProfile, opts, 0, 10, signal)
+      const s = await completionFunction(
+        modelProfile,
+        opts,
+        0,
+        maxAttempts,
+        signal,
+      )
       let finalResponse
       if (opts.stream) {
         finalResponse = await handleMessageStream(
@@ -2126,6 +2400,15 @@ async function queryOpenAI(
       } else {
         finalResponse = s
       }
+      const responseMessage = finalResponse.choices?.[0]?.message
+      if (usePromptTools && responseMessage?.content) {
+        const { text, toolCalls } = parseToolCalls(responseMessage.content)
+        responseMessage.content = text
+        responseMessage.tool_calls = [
+          ...(responseMessage.tool_calls ?? []),
+          ...toolCalls,
+        ]
+      }
       const message = convertOpenAIResponseToAnthropic(finalResponse, tools)
       const assistantMsg: AssistantMessage = {
         type: 'assistant',
@@ -2141,7 +2424,10 @@ async function queryOpenAI(
         rawResponse: finalResponse,
         apiFormat: 'openai',
       }
-    }, { signal })
+    }, {
+      signal,
+      maxRetries: options?.hasFallback ? FALLBACK_MAX_RETRIES : undefined,
+    })
   } catch (error) {
     logError(error)
     return getAssistantMessageFromError(error)
@@ -2164,15 +2450,26 @@ async function queryOpenAI(
   const cacheCreationInputTokens =
     normalizedUsage.cache_creation_input_tokens ?? 0
 
-  const costUSD =
-    (inputTokens / 1_000_000) * SONNET_COST_PER_MILLION_INPUT_TOKENS +
-    (outputTokens / 1_000_000) * SONNET_COST_PER_MILLION_OUTPUT_TOKENS +
-    (cacheReadInputTokens / 1_000_000) *
-      SONNET_COST_PER_MILLION_PROMPT_CACHE_READ_TOKENS +
-    (cacheCreationInputTokens / 1_000_000) *
-      SONNET_COST_PER_MILLION_PROMPT_CACHE_WRITE_TOKENS
+  const reasoningTokens = normalizeTokens(normalizedUsage).reasoning ?? 0
+  const costUSD = calculateCostUSD(getModelPricing(modelProfile, model), {
+    inputTokens,
+    outputTokens,
+    cacheReadTokens: cacheReadInputTokens,
+    cacheWriteTokens: cacheCreationInputTokens,
+    reasoningTokens,
+  })
 
-  addToTotalCost(costUSD, durationMsIncludingRetries)
+  addToTotalCost(costUSD ?? 0, durationMsIncludingRetries)
+  recordUsage({
+    model,
+    inputTokens,
+    outputTokens,
+    cacheReadTokens: cacheReadInputTokens,
+    cacheWriteTokens: cacheCreationInputTokens,
+    reasoningTokens,
+    costUSD,
+    durationMs: durationMsIncludingRetries,
+  })
 
   logLLMInteraction({
     systemPrompt: systemPrompt.join('\n'),
@@ -2189,7 +2486,7 @@ async function queryOpenAI(
     apiFormat: queryResult.apiFormat,
   })
 
-  assistantMessage.costUSD = costUSD
+  assistantMessage.costUSD = costUSD ?? 0
   assistantMessage.durationMs = durationMs
   assistantMessage.uuid = assistantMessage.uuid || (randomUUID() as UUID)
 
@@ -2241,6 +2538,8 @@ function buildAssistantMessageFromUnifiedResponse(
         promptTokens: unifiedResponse.usage?.promptTokens ?? unifiedResponse.usage?.input_tokens ?? 0,
         completionTokens: unifiedResponse.usage?.completionTokens ?? unifiedResponse.usage?.output_tokens ?? 0,
         totalTokens: unifiedResponse.usage?.totalTokens ?? (unifiedResponse.usage?.promptTokens ?? unifiedResponse.usage?.input_tokens ?? 0) + (unifiedResponse.usage?.completionTokens ?? unifiedResponse.usage?.output_tokens ?? 0),
+        reasoningTokens: unifiedResponse.usage?.reasoningTokens,
+        cache_read_input_tokens: unifiedResponse.usage?.cacheReadTokens ?? 0,
       },
     },
     costUSD: 0,
@@ -2260,9 +2559,17 @@ function normalizeUsage(usage?: any) {
     }
   }
 
+  // OpenAI's prompt_tokens (and DeepSeek's) include cached tokens, which are
+  // billed as cache reads; Anthropic's input_tokens already exclude them
+  const promptCachedTokens =
+    usage.prompt_tokens_details?.cached_tokens ??
+    usage.prompt_cache_hit_tokens ??
+    0
   const inputTokens =
     usage.input_tokens ??
-    usage.prompt_tokens ??
+    (usage.prompt_tokens !== undefined
+      ? Math.max(0, usage.prompt_tokens - promptCachedTokens)
+      : undefined) ??
     usage.inputTokens ??
     0
   const outputTokens =
@@ -2272,7 +2579,7 @@ function normalizeUsage(usage?: any) {
     0
   const cacheReadInputTokens =
     usage.cache_read_input_tokens ??
-    usage.prompt_token_details?.cached_tokens ??
+    (usage.prompt_tokens !== undefined ? promptCachedTokens : undefined) ??
     usage.cacheReadInputTokens ??
     0
   const cacheCreationInputTokens =
@@ -2289,30 +2596,6 @@ function normalizeUsage(usage?: any) {
   }
 }
 
-function getModelInputTokenCostUSD(model: string): number {
-  // Find the model in the models object
-  for (const providerModels of Object.values(models)) {
-    const modelInfo = providerModels.find((m: any) => m.model === model)
-    if (modelInfo) {
-      return modelInfo.input_cost_per_token || 0
-    }
-  }
-  // Default fallback cost for unknown models
-  return 0.000003 // Default to Claude 3 Haiku cost
-}
-
-function getModelOutputTokenCostUSD(model: string): number {
-  // Find the model in the models object
-  for (const providerModels of Object.values(models)) {
-    const modelInfo = providerModels.find((m: any) => m.model === model)
-    if (modelInfo) {
-      return modelInfo.output_cost_per_token || 0
-    }
-  }
-  // Default fallback cost for unknown models
-  return 0.000015 // Default to Claude 3 Haiku cost
-}
-
 // New unified query functions for model pointer system
 export async function queryModel(
   modelPointer: import('@utils/config').ModelPointerType,
@@ -0,0 +1,423 @@
+/**
+ * Lifecycle hooks
+ * Runs user-configured shell commands around the agent loop (before and after
+ * tool calls, on prompt submission and when the agent stops).
+ *
+ * Hooks are read from GlobalConfig/ProjectConfig and from `settings.json`
+ * files in `.claude` and `.cougar` directories, using the Claude Code format:
+ *
+ *   { "hooks": { "PostToolUse": [ { "matcher": "Edit|MultiEdit",
+ *       "hooks": [ { "type": "command", "command": "prettier --write ." } ] } ] } }
+ *
+ * Each command receives the event as JSON on stdin. Exit code 0 means success
+ * (stdout may carry a JSON decision), exit code 2 blocks the action with
+ * stderr as the reason, and any other exit code is a non-blocking error.
+ */
+
+import { spawn } from 'child_process'
+import { existsSync, readFileSync } from 'fs'
+import { homedir } from 'os'
+import { join } from 'path'
+import {
+  checkHasTrustDialogAccepted,
+  getCurrentProjectConfig,
+  getGlobalConfig,
+  type HookCommandConfig,
+  type HookEventName,
+  type HookMatcherConfig,
+  type HooksConfig,
+} from '@utils/config'
+import { debug as debugLogger } from '@utils/debugLogger'
+import { logError, SESSION_ID } from '@utils/log'
+import { TOOL_NAME_ALIASES } from '@utils/permissions/rules'
+import { getCwd, getOriginalCwd } from '@utils/state'
+
+const DEFAULT_HOOK_TIMEOUT_SECONDS = 60
+const BLOCKING_EXIT_CODE = 2
+
+type HookCommandResult = {
+  command: string
+  code: number
+  stdout: string
+  stderr: string
+  output: HookJSONOutput | null
+}
+
+// JSON a hook may print on stdout. Both the legacy top-level `decision`
+// and the newer `hookSpecificOutput` forms are accepted.
+type HookJSONOutput = {
+  continue?: boolean
+  stopReason?: string
+  decision?: 'approve' | 'block'
+  reason?: string
+  hookSpecificOutput?: {
+    permissionDecision?: 'allow' | 'deny' | 'ask'
+    permissionDecisionReason?: string
+    updatedInput?: Record<string, unknown>
+    additionalContext?: string
+  }
+}
+
+export type PreToolUseHookResult = {
+  decision?: 'allow' | 'deny' | 'ask'
+  reason?: string
+  input: Record<string, unknown>
+}
+
+export type PostToolUseHookResult = {
+  feedback?: string
+}
+
+export type UserPromptSubmitHookResult = {
+  blocked: boolean
+  reason?: string
+  additionalContext?: string
+}
+
+export type StopHookResult = {
+  blockReason?: string
+}
+
+function readSettingsHooks(path: string): HooksConfig | undefined {
+  if (!existsSync(path)) {
+    return undefined
+  }
+  try {
+    const settings = JSON.parse(readFileSync(path, 'utf-8'))
+    return settings?.hooks
+  } catch (error) {
+    logError(`Failed to parse hooks from ${path}: ${error}`)
+    return undefined
+  }
+}
+
+/**
+ * Collect hook definitions from every source. Project-level settings files
+ * are only honoured once the user has trusted the project directory.
+ */
+function getHooksConfigs(): HooksConfig[] {
+  const configs: (HooksConfig | undefined)[] = [
+    getGlobalConfig().hooks,
+    readSettingsHooks(join(homedir(), '.claude', 'settings.json')),
+    readSettingsHooks(join(homedir(), '.cougar', 'settings.json')),
+    getCurrentProjectConfig().hooks,
+  ]
+
+  if (checkHasTrustDialogAccepted()) {
+    const projectDir = getOriginalCwd()
+    configs.push(
+      readSettingsHooks(join(projectDir, '.claude', 'settings.json')),
+      readSettingsHooks(join(projectDir, '.claude', 'settings.local.json')),
+      readSettingsHooks(join(projectDir, '.cougar', 'settings.json')),
+      readSettingsHooks(join(projectDir, '.cougar', 'settings.local.json')),
+    )
+  }
+
+  return configs.filter((config): config is HooksConfig => Boolean(config))
+}
+
+function matchesTool(matcher: string | undefined, toolName: string): boolean {
+  if (!matcher || matcher === '*') {
+    return true
+  }
+  // Matchers written for Claude Code use its tool names (Write, Read, ...)
+  const names = [
+    toolName,
+    ...Object.keys(TOOL_NAME_ALIASES).filter(alias =>
+      TOOL_NAME_ALIASES[alias]!.includes(toolName),
+    ),
+  ]
+  try {
+    const pattern = new RegExp(`^(?:${matcher})$`)
+    return names.some(name => pattern.test(name))
+  } catch {
+    return names.includes(matcher)
+  }
+}
+
+function getMatchingHooks(
+  event: HookEventName,
+  toolName?: string,
+): HookCommandConfig[] {
+  const hooks: HookCommandConfig[] = []
+  for (const config of getHooksConfigs()) {
+    const matchers: HookMatcherConfig[] = config[event] ?? []
+    for (const matcher of matchers) {
+      if (toolName !== undefined && !matchesTool(matcher.matcher, toolName)) {
+        continue
+      }
+      for (const hook of matcher.hooks ?? []) {
+        if (hook?.type === 'command' && hook.command) {
+          hooks.push(hook)
+        }
+      }
+    }
+  }
+  return hooks
+}
+
+export function hasHooksForEvent(
+  event: HookEventName,
+  toolName?: string,
+): boolean {
+  return getMatchingHooks(event, toolName).length > 0
+}
+
+function parseHookOutput(stdout: string): HookJSONOutput | null {
+  const trimmed = stdout.trim()
+  if (!trimmed.startsWith('{')) {
+    return null
+  }
+  try {
+    return JSON.parse(trimmed) as HookJSONOutput
+  } catch {
+    return null
+  }
+}
+
+function runHookCommand(
+  hook: HookCommandConfig,
+  payload: Record<string, unknown>,
+  signal?: AbortSignal,
+): Promise<HookCommandResult> {
+  const timeoutMs = (hook.timeout ?? DEFAULT_HOOK_TIMEOUT_SECONDS) * 1000
+
+  return new Promise(resolve => {
+    let stdout = ''
+    let stderr = ''
+    let settled = false
+
+    const finish = (code: number) => {
+      if (settled) return
+      settled = true
+      clearTimeout(timer)
+      resolve({
+        command: hook.command,
+        code,
+        stdout,
+        stderr,
+        output: code === 0 ? parseHookOutput(stdout) : null,
+      })
+    }
+
+    const child = spawn(hook.command, {
+      cwd: getCwd(),
+      shell: true,
+      signal,
+      env: {
+        ...process.env,
+        COUGAR_PROJECT_DIR: getOriginalCwd(),
+        CLAUDE_PROJECT_DIR: getOriginalCwd(),
+      },
+    })
+
+    const timer = setTimeout(() => {
+      stderr += `Hook timed out after ${timeoutMs / 1000}s`
+      child.kill()
+      finish(1)
+    }, timeoutMs)
+
+    child.stdout?.on('data', chunk => (stdout += chunk.toString()))
+    child.stderr?.on('data', chunk => (stderr += chunk.toString()))
+    child.on('error', error => {
+      stderr += error.message
+      finish(1)
+    })
+    child.on('close', code => finish(code ?? 1))
+
+    child.stdin?.on('error', () => {
+      // The hook may exit without reading stdin
+    })
+    child.stdin?.end(JSON.stringify(payload))
+  })
+}
+
+async function runHook(
+  event: HookEventName,
+  hook: HookCommandConfig,
+  payload: Record<string, unknown>,
+  signal?: AbortSignal,
+): Promise<HookCommandResult> {
+  const result = await runHookCommand(
+    hook,
+    {
+      session_id: SESSION_ID,
+      cwd: getCwd(),
+      hook_event_name: event,
+      ...payload,
+    },
+    signal,
+  )
+  debugLogger.flow('LIFECYCLE_HOOK', {
+    event,
+    toolName: payload.tool_name,
+    command: hook.command,
+    exitCode: result.code,
+    stderr: result.stderr.slice(0, 500),
+  })
+  if (result.code !== 0 && result.code !== BLOCKING_EXIT_CODE) {
+    logError(
+      `${event} hook "${hook.command}" failed with exit code ${result.code}: ${result.stderr}`,
+    )
+  }
+  return result
+}
+
+async function runHooks(
+  event: HookEventName,
+  payload: Record<string, unknown>,
+  signal?: AbortSignal,
+  toolName?: string,
+): Promise<HookCommandResult[]> {
+  const results: HookCommandResult[] = []
+  for (const hook of getMatchingHooks(event, toolName)) {
+    results.push(await runHook(event, hook, payload, signal))
+  }
+  return results
+}
+
+function blockingReason(result: HookCommandResult): string | null {
+  if (result.code === BLOCKING_EXIT_CODE) {
+    return result.stderr.trim() || `Blocked by hook: ${result.command}`
+  }
+  if (result.output?.decision === 'block') {
+    return result.output.reason || `Blocked by hook: ${result.command}`
+  }
+  if (result.output?.continue === false) {
+    return result.output.stopReason || `Stopped by hook: ${result.command}`
+  }
+  return null
+}
+
+/**
+ * Run PreToolUse hooks. Hooks run in order; each one sees the input as
+ * rewritten by the previous ones, and the first denial wins.
+ */
+export async function runPreToolUseHooks(
+  toolName: string,
+  input: Record<string, unknown>,
+  signal?: AbortSignal,
+): Promise<PreToolUseHookResult> {
+  const hooks = getMatchingHooks('PreToolUse', toolName)
+  let currentInput = input
+  let decision: PreToolUseHookResult['decision']
+  let reason: string | undefined
+
+  for (const hook of hooks) {
+    const result = await runHook(
+      'PreToolUse',
+      hook,
+      { tool_name: toolName, tool_input: currentInput },
+      signal,
+    )
+
+    const blocked = blockingReason(result)
+    if (blocked) {
+      return { decision: 'deny', reason: blocked, input: currentInput }
+    }
+
+    const specific = result.output?.hookSpecificOutput
+    if (specific?.updatedInput) {
+      currentInput = specific.updatedInput
+    }
+    const hookDecision =
+      specific?.permissionDecision ??
+      (result.output?.decision === 'approve' ? 'allow' : undefined)
+    if (hookDecision === 'deny') {
+      return {
+        decision: 'deny',
+        reason:
+          specific?.permissionDecisionReason ||
+          result.output?.reason ||
+          `Denied by hook: ${hook.command}`,
+        input: currentInput,
+      }
+    }
+    // 'ask' takes precedence over 'allow' from an earlier hook
+    if (hookDecision === 'ask' || (hookDecision === 'allow' && !decision)) {
+      decision = hookDecision
+      reason = specific?.permissionDecisionReason || result.output?.reason
+    }
+  }
+
+  return { decision, reason, input: currentInput }
+}
+
+/**
+ * Run PostToolUse hooks. Blocking output is returned as feedback for the
+ * model, since the tool has already run.
+ */
+export async function runPostToolUseHooks(
+  toolName: string,
+  input: Record<string, unknown>,
+  response: unknown,
+  signal?: AbortSignal,
+): Promise<PostToolUseHookResult> {
+  const results = await runHooks(
+    'PostToolUse',
+    { tool_name: toolName, tool_input: input, tool_response: response },
+    signal,
+    toolName,
+  )
+  const feedback = results.flatMap(result => {
+    const blocked = blockingReason(result)
+    const context = result.output?.hookSpecificOutput?.additionalContext
+    return [blocked, context].filter((_): _ is string => Boolean(_))
+  })
+  return feedback.length > 0 ? { feedback: feedback.join('\n') } : {}
+}
+
+/**
+ * Run UserPromptSubmit hooks before a new user prompt is sent to the model.
+ * Plain stdout from successful hooks is added to the prompt as context.
+ */
+export async function runUserPromptSubmitHooks(
+  prompt: string,
+  signal?: AbortSignal,
+): Promise<UserPromptSubmitHookResult> {
+  const results = await runHooks('UserPromptSubmit', { prompt }, signal)
+  const context: string[] = []
+  for (const result of results) {
+    const blocked = blockingReason(result)
+    if (blocked) {
+      return { blocked: true, reason: blocked }
+    }
+    if (result.code !== 0) {
+      continue
+    }
+    const additionalContext = result.output
+      ? result.output.hookSpecificOutput?.additionalContext
+      : result.stdout.trim()
+    if (additionalContext) {
+      context.push(additionalContext)
+    }
+  }
+  return {
+    blocked: false,
+    additionalContext: context.length > 0 ? context.join('\n') : undefined,
+  }
+}
+
+/**
+ * Run Stop hooks when the agent is about to finish its turn. A blocking hook
+ * keeps the agent going, with the reason passed back to the model.
+ */
+export async function runStopHooks(
+  stopHookActive: boolean,
+  signal?: AbortSignal,
+): Promise<StopHookResult> {
+  const results = await runHooks(
+    'Stop',
+    { stop_hook_active: stopHookActive },
+    signal,
+  )
+  for (const result of results) {
+    if (
+      result.code === BLOCKING_EXIT_CODE ||
+      result.output?.decision === 'block'
+    ) {
+      return { blockReason: blockingReason(result) ?? undefined }
+    }
+  }
+  return {}
+}
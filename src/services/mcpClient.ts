@@ -21,20 +21,31 @@ import {
 import { Client } from '@modelcontextprotocol/sdk/client/index.js'
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js'
 import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js'
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js'
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js'
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js'
 import {
   CallToolResultSchema,
   ClientRequest,
   ListPromptsResult,
   ListPromptsResultSchema,
+  ListResourceTemplatesResult,
+  ListResourceTemplatesResultSchema,
+  ListResourcesResult,
+  ListResourcesResultSchema,
   ListToolsResult,
   ListToolsResultSchema,
+  ReadResourceResult,
+  Resource,
+  ResourceTemplate,
   Result,
   ResultSchema,
+  ToolListChangedNotificationSchema,
 } from '@modelcontextprotocol/sdk/types.js'
 import { memoize, pickBy } from 'lodash-es'
 import type { Tool } from '@tool'
 import { MCPTool } from '@tools/MCPTool/MCPTool'
-import { logMCPError } from '@utils/log'
+import { logError, logMCPError } from '@utils/log'
 import { Command } from '@commands'
 import { PRODUCT_COMMAND } from '@constants/product'
 
@@ -60,6 +71,82 @@ export function parseEnvVars(
   return parsedEnv
 }
 
+export function parseHeaders(
+  rawHeaderArgs: string[] | undefined,
+): Record<string, string> {
+  const parsedHeaders: Record<string, string> = {}
+
+  if (rawHeaderArgs) {
+    for (const headerStr of rawHeaderArgs) {
+      const separatorIndex = headerStr.indexOf(':')
+      const key = headerStr.slice(0, separatorIndex).trim()
+      if (separatorIndex === -1 || !key) {
+        throw new Error(
+          `Invalid header format: ${headerStr}, headers should be added as: -H "Authorization: Bearer \${TOKEN}" -H "X-Api-Key: value"`,
+        )
+      }
+      parsedHeaders[key] = headerStr.slice(separatorIndex + 1).trim()
+    }
+  }
+  return parsedHeaders
+}
+
+/**
+ * Expand ${VAR} and ${VAR:-default} references from the environment. Unset
+ * variables without a default expand to an empty string.
+ */
+export function expandEnvVars(value: string, serverName?: string): string {
+  return value.replace(
+    /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g,
+    (_, varName: string, defaultValue: string | undefined) => {
+      const envValue = process.env[varName]
+      if (envValue !== undefined) {
+        return envValue
+      }
+      if (defaultValue === undefined && serverName) {
+        logMCPError(serverName, `Environment variable ${varName} is not set`)
+      }
+      return defaultValue ?? ''
+    },
+  )
+}
+
+function expandHeaders(
+  headers: Record<string, string> | undefined,
+  serverName: string,
+): Record<string, string> {
+  const expanded: Record<string, string> = {}
+  for (const [key, value] of Object.entries(headers ?? {})) {
+    expanded[key] = expandEnvVars(value, serverName)
+  }
+  return expanded
+}
+
+function createTransport(name: string, serverRef: McpServerConfig): Transport {
+  switch (serverRef.type) {
+    case 'sse':
+    case 'http': {
+      const url = new URL(expandEnvVars(serverRef.url, name))
+      const requestInit = {
+        headers: expandHeaders(serverRef.headers, name),
+      }
+      return serverRef.type === 'http'
+        ? new StreamableHTTPClientTransport(url, { requestInit })
+        : new SSEClientTransport(url, { requestInit })
+    }
+    default:
+      return new StdioClientTransport({
+        command: serverRef.command,
+        args: serverRef.args,
+        env: {
+          ...process.env,
+          ...serverRef.env,
+        } as Record<string, string>,
+        stderr: 'pipe', // prevents error output from the MCP server from printing to the UI
+      })
+  }
+}
+
 const VALID_SCOPES = ['project', 'global', 'mcprc'] as const
 type ConfigScope = (typeof VALID_SCOPES)[number]
 const EXTERNAL_SCOPES = ['project', 'global'] as ConfigScope[]
@@ -225,18 +312,7 @@ async function connectToServer(
   name: string,
   serverRef: McpServerConfig,
 ): Promise<Client> {
-  const transport =
-    serverRef.type === 'sse'
-      ? new SSEClientTransport(new URL(serverRef.url))
-      : new StdioClientTransport({
-          command: serverRef.command,
-          args: serverRef.args,
-          env: {
-            ...process.env,
-            ...serverRef.env,
-          } as Record<string, string>,
-          stderr: 'pipe', // prevents error output from the MCP server from printing to the UI
-        })
+  const transport = createTransport(name, serverRef)
 
   const client = new Client(
     {
@@ -267,7 +343,13 @@ async function connectToServer(
     )
   })
 
-  await Promise.race([connectPromise, timeoutPromise])
+  try {
+    await Promise.race([connectPromise, timeoutPromise])
+  } catch (error) {
+    // Don't leave a stdio server running behind a failed or timed out attempt
+    await transport.close().catch(() => {})
+    throw error
+  }
 
   if (serverRef.type === 'stdio') {
     ;(transport as StdioClientTransport).stderr?.on('data', (data: Buffer) => {
@@ -304,13 +386,73 @@ export function getMcprcServerStatus(
   return 'pending'
 }
 
-export const getClients = memoize(async (): Promise<WrappedClient[]> => {
-  // TODO: This is a temporary fix for a hang during npm run verify in CI.
-  // We need to investigate why MCP client connections hang in CI verify but not in CI tests.
-  if (process.env.CI && process.env.NODE_ENV !== 'test') {
-    return []
+/**
+ * Connection manager
+ *
+ * Each configured server has a connection that moves between these states:
+ *
+ *   connecting  a connection attempt is in flight
+ *   connected   the client is usable
+ *   failed      the last attempt failed or the server went away; a
+ *               reconnect is scheduled with exponential backoff until
+ *               MAX_RECONNECT_ATTEMPTS is reached
+ *   disabled    turned off by the user through /mcp, persisted in the
+ *               project config
+ *
+ * Whenever the set of available tools may have changed (a server connects or
+ * drops, or sends `notifications/tools/list_changed`), the memoized MCP
+ * lookups are cleared and `onMCPToolsChanged` listeners are notified.
+ */
+
+export type MCPServerState = 'connecting' | 'connected' | 'failed' | 'disabled'
+
+export type MCPServerStatus = {
+  name: string
+  state: MCPServerState
+  lastError?: string
+  reconnectAttempts: number
+  nextReconnectAt?: number
+}
+
+type ServerConnection = MCPServerStatus & {
+  config: McpServerConfig
+  client?: Client
+  reconnectTimer?: ReturnType<typeof setTimeout>
+}
+
+const RECONNECT_BASE_DELAY_MS = 1000
+const RECONNECT_MAX_DELAY_MS = 60_000
+const MAX_RECONNECT_ATTEMPTS = 5
+
+const connections = new Map<string, ServerConnection>()
+const toolsChangedListeners = new Set<() => void>()
+let connectionsInitialized: Promise<void> | null = null
+
+/**
+ * Subscribe to changes of the MCP tool list. Returns an unsubscribe function.
+ */
+export function onMCPToolsChanged(listener: () => void): () => void {
+  toolsChangedListeners.add(listener)
+  return () => {
+    toolsChangedListeners.delete(listener)
   }
+}
 
+function invalidateMCPCaches(): void {
+  getMCPTools.cache.clear?.()
+  getMCPResources.cache.clear?.()
+  getMCPResourceTemplates.cache.clear?.()
+  getMCPCommands.cache.clear?.()
+  for (const listener of toolsChangedListeners) {
+    try {
+      listener()
+    } catch (error) {
+      logError(error)
+    }
+  }
+}
+
+function getConfiguredServers(): Record<string, McpServerConfig> {
   const globalServers = getGlobalConfig().mcpServers ?? {}
   const mcprcServers = getMcprcConfig()
   const projectServers = getCurrentProjectConfig().mcpServers ?? {}
@@ -321,27 +463,231 @@ export const getClients = memoize(async (): Promise<WrappedClient[]> => {
     (_, name) => getMcprcServerStatus(name) === 'approved',
   )
 
-  const allServers = {
+  return {
     ...globalServers,
     ...approvedMcprcServers, // Approved .mcprc servers override global ones
     ...projectServers, // Project servers take highest precedence
   }
+}
 
-  return await Promise.all(
-    Object.entries(allServers).map(async ([name, serverRef]) => {
-      try {
-        const client = await connectToServer(name, serverRef as McpServerConfig)
-        return { name, client, type: 'connected' as const }
-      } catch (error) {
-        logMCPError(
-          name,
-          `Connection failed: ${error instanceof Error ? error.message : String(error)}`,
-        )
-        return { name, type: 'failed' as const }
-      }
-    }),
+function isServerDisabled(name: string): boolean {
+  return getCurrentProjectConfig().disabledMcpServers?.includes(name) ?? false
+}
+
+function setServerDisabled(name: string, disabled: boolean): void {
+  const config = getCurrentProjectConfig()
+  const disabledServers = (config.disabledMcpServers ?? []).filter(
+    _ => _ !== name,
   )
-})
+  if (disabled) {
+    disabledServers.push(name)
+  }
+  config.disabledMcpServers = disabledServers
+  saveCurrentProjectConfig(config)
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+async function closeClient(connection: ServerConnection): Promise<void> {
+  const { client } = connection
+  // Detach first so the close handler doesn't treat this as a crash
+  connection.client = undefined
+  if (client) {
+    try {
+      await client.close()
+    } catch (error) {
+      logMCPError(
+        connection.name,
+        `Error closing client: ${getErrorMessage(error)}`,
+      )
+    }
+  }
+}
+
+function handleConnectionLost(
+  connection: ServerConnection,
+  client: Client,
+  reason: string,
+): void {
+  if (connection.client !== client) {
+    return
+  }
+  connection.client = undefined
+  connection.state = 'failed'
+  connection.lastError = reason
+  logMCPError(connection.name, reason)
+  invalidateMCPCaches()
+  scheduleReconnect(connection)
+}
+
+function scheduleReconnect(connection: ServerConnection): void {
+  clearTimeout(connection.reconnectTimer)
+  connection.nextReconnectAt = undefined
+  if (connection.reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+    return
+  }
+  const delay = Math.min(
+    RECONNECT_BASE_DELAY_MS * 2 ** connection.reconnectAttempts,
+    RECONNECT_MAX_DELAY_MS,
+  )
+  connection.reconnectAttempts++
+  connection.nextReconnectAt = Date.now() + delay
+  connection.reconnectTimer = setTimeout(() => {
+    void connect(connection)
+  }, delay)
+  // Pending reconnects must not keep a non-interactive run alive
+  connection.reconnectTimer.unref?.()
+}
+
+async function connect(connection: ServerConnection): Promise<void> {
+  clearTimeout(connection.reconnectTimer)
+  connection.nextReconnectAt = undefined
+  connection.state = 'connecting'
+  try {
+    const client = await connectToServer(connection.name, connection.config)
+    if (connection.state !== 'connecting') {
+      // Disabled while the attempt was in flight
+      await client.close()
+      return
+    }
+    connection.client = client
+    connection.state = 'connected'
+    connection.lastError = undefined
+    connection.reconnectAttempts = 0
+    client.onclose = () =>
+      handleConnectionLost(connection, client, 'Connection closed')
+    client.setNotificationHandler(ToolListChangedNotificationSchema, async () =>
+      invalidateMCPCaches(),
+    )
+  } catch (error) {
+    if (connection.state !== 'connecting') {
+      return
+    }
+    connection.state = 'failed'
+    connection.lastError = getErrorMessage(error)
+    logMCPError(connection.name, `Connection failed: ${connection.lastError}`)
+    scheduleReconnect(connection)
+  }
+  invalidateMCPCaches()
+}
+
+function initializeConnections(): Promise<void> {
+  if (!connectionsInitialized) {
+    connectionsInitialized = Promise.all(
+      Object.entries(getConfiguredServers()).map(([name, config]) => {
+        const connection: ServerConnection = {
+          name,
+          config,
+          state: 'connecting',
+          reconnectAttempts: 0,
+        }
+        connections.set(name, connection)
+        if (isServerDisabled(name)) {
+          connection.state = 'disabled'
+          return
+        }
+        return connect(connection)
+      }),
+    ).then(() => {})
+  }
+  return connectionsInitialized
+}
+
+function toStatus({
+  name,
+  state,
+  lastError,
+  reconnectAttempts,
+  nextReconnectAt,
+}: ServerConnection): MCPServerStatus {
+  return { name, state, lastError, reconnectAttempts, nextReconnectAt }
+}
+
+export async function getMCPServerStatuses(): Promise<MCPServerStatus[]> {
+  await initializeConnections()
+  return [...connections.values()].map(toStatus)
+}
+
+async function getConnection(name: string): Promise<ServerConnection> {
+  await initializeConnections()
+  const connection = connections.get(name)
+  if (!connection) {
+    throw new Error(`No MCP server found with name: ${name}`)
+  }
+  return connection
+}
+
+/**
+ * Drop the current connection, if any, and connect again right away. This
+ * also restarts the backoff after the retry limit was reached.
+ */
+export async function reconnectMCPServer(
+  name: string,
+): Promise<MCPServerStatus> {
+  const connection = await getConnection(name)
+  if (connection.state === 'disabled') {
+    throw new Error(`MCP server ${name} is disabled`)
+  }
+  await closeClient(connection)
+  connection.reconnectAttempts = 0
+  await connect(connection)
+  return toStatus(connection)
+}
+
+export async function disableMCPServer(name: string): Promise<MCPServerStatus> {
+  const connection = await getConnection(name)
+  setServerDisabled(name, true)
+  clearTimeout(connection.reconnectTimer)
+  connection.nextReconnectAt = undefined
+  connection.state = 'disabled'
+  connection.lastError = undefined
+  await closeClient(connection)
+  invalidateMCPCaches()
+  return toStatus(connection)
+}
+
+export async function enableMCPServer(name: string): Promise<MCPServerStatus> {
+  const connection = await getConnection(name)
+  setServerDisabled(name, false)
+  if (connection.state === 'disabled') {
+    connection.reconnectAttempts = 0
+    await connect(connection)
+  }
+  return toStatus(connection)
+}
+
+export async function getClients(): Promise<WrappedClient[]> {
+  // TODO: This is a temporary fix for a hang during npm run verify in CI.
+  // We need to investigate why MCP client connections hang in CI verify but not in CI tests.
+  if (process.env.CI && process.env.NODE_ENV !== 'test') {
+    return []
+  }
+
+  await initializeConnections()
+  return [...connections.values()]
+    .filter(connection => connection.state !== 'disabled')
+    .map(({ name, client, state }) =>
+      state === 'connected' && client
+        ? { name, client, type: 'connected' as const }
+        : { name, type: 'failed' as const },
+    )
+}
+
+/**
+ * The live client for a server. Tools hold on to the client they were listed
+ * from, which is stale once the server reconnects.
+ */
+async function getConnectedClient(name: string): Promise<ConnectedClient> {
+  const connection = await getConnection(name)
+  if (connection.state !== 'connected' || !connection.client) {
+    throw new Error(
+      `MCP server ${name} is ${connection.state}${connection.lastError ? `: ${connection.lastError}` : ''}`,
+    )
+  }
+  return { name, client: connection.client, type: 'connected' }
+}
 
 async function requestAll<
   ResultT extends Result,
@@ -422,7 +768,11 @@ export const getMCPTools = memoize(async (): Promise<Tool[]> => {
           return { result: true }
         },
         async *call(args: Record<string, unknown>, context) {
-          const data = await callMCPTool({ client, tool: tool.name, args })
+          const data = await callMCPTool({
+            client: await getConnectedClient(client.name),
+            tool: tool.name,
+            args,
+          })
           yield {
             type: 'result' as const,
             data,
@@ -485,6 +835,152 @@ async function callMCPTool({
   throw Error(`Unexpected response format from tool ${tool}`)
 }
 
+export type ServerResource = Resource & { server: string }
+
+export const getMCPResources = memoize(async (): Promise<ServerResource[]> => {
+  const results = await requestAll<
+    ListResourcesResult,
+    typeof ListResourcesResultSchema
+  >(
+    {
+      method: 'resources/list',
+    },
+    ListResourcesResultSchema,
+    'resources',
+  )
+
+  return results.flatMap(({ client, result }) =>
+    (result.resources ?? []).map(resource => ({
+      ...resource,
+      server: client.name,
+    })),
+  )
+})
+
+export type ServerResourceTemplate = ResourceTemplate & { server: string }
+
+export const getMCPResourceTemplates = memoize(
+  async (): Promise<ServerResourceTemplate[]> => {
+    const results = await requestAll<
+      ListResourceTemplatesResult,
+      typeof ListResourceTemplatesResultSchema
+    >(
+      {
+        method: 'resources/templates/list',
+      },
+      ListResourceTemplatesResultSchema,
+      'resources',
+    )
+
+    return results.flatMap(({ client, result }) =>
+      (result.resourceTemplates ?? []).map(template => ({
+        ...template,
+        server: client.name,
+      })),
+    )
+  },
+)
+
+/**
+ * Resolve the URI of a `server:uri` reference against the server's resource
+ * templates. A URI that fills in a template is re-expanded from it, so its
+ * variables are encoded the way the server expects; one that still contains
+ * `{variables}` is rejected.
+ */
+export async function expandMCPResourceUri(
+  serverName: string,
+  uri: string,
+): Promise<string> {
+  const templates = (await getMCPResourceTemplates()).filter(
+    _ => _.server === serverName,
+  )
+  const unfilled = templates.find(_ => _.uriTemplate === uri)
+  if (unfilled || UriTemplate.isTemplate(uri)) {
+    throw new Error(
+      `Fill in the template variables of ${serverName}:${unfilled?.uriTemplate ?? uri}`,
+    )
+  }
+  const resources = await getMCPResources()
+  if (resources.some(_ => _.server === serverName && _.uri === uri)) {
+    return uri
+  }
+  for (const { uriTemplate } of templates) {
+    try {
+      const template = new UriTemplate(uriTemplate)
+      const variables = template.match(uri)
+      if (variables) {
+        return template.expand(variables)
+      }
+    } catch {
+      // Not a valid RFC 6570 template
+    }
+  }
+  return uri
+}
+
+export async function readMCPResource(
+  serverName: string,
+  uri: string,
+): Promise<ReadResourceResult> {
+  const clients = await getClients()
+  const client = clients.find(_ => _.name === serverName)
+  if (!client) {
+    throw new Error(`No MCP server found with name: ${serverName}`)
+  }
+  if (client.type === 'failed') {
+    throw new Error(`MCP server ${serverName} is not connected`)
+  }
+
+  try {
+    return await client.client.readResource({ uri })
+  } catch (error) {
+    logMCPError(
+      serverName,
+      `Error reading resource '${uri}': ${error instanceof Error ? error.message : String(error)}`,
+    )
+    throw error
+  }
+}
+
+/**
+ * Render resource contents as text for the model. Binary contents are
+ * summarised rather than inlined.
+ */
+export function formatMCPResourceContents(result: ReadResourceResult): string {
+  return result.contents
+    .map(content => {
+      if ('text' in content && typeof content.text === 'string') {
+        return content.text
+      }
+      const size =
+        'blob' in content && typeof content.blob === 'string'
+          ? Math.floor((content.blob.length * 3) / 4)
+          : 0
+      return `[Binary content: ${content.mimeType ?? 'unknown type'}, ${size} bytes, uri: ${content.uri}]`
+    })
+    .join('\n\n')
+}
+
+/**
+ * Read a `server:uri` reference, as used by @-mentions and
+ * `mcpContextUris`, and wrap it for inclusion in the prompt
+ */
+export async function getMCPResourceContext(
+  reference: string,
+): Promise<string | null> {
+  const separatorIndex = reference.indexOf(':')
+  if (separatorIndex <= 0) {
+    return null
+  }
+  const server = reference.slice(0, separatorIndex)
+  const uri = await expandMCPResourceUri(
+    server,
+    reference.slice(separatorIndex + 1),
+  )
+  const result = await readMCPResource(server, uri)
+  return `<mcp-resource server="${server}" uri="${uri}">\n${formatMCPResourceContents(result)}\n</mcp-resource>`
+}
+
 export const getMCPCommands = memoize(async (): Promise<Command[]> => {
   const results = await requestAll<
     ListPromptsResult,
@@ -1,6 +1,7 @@
 /**
  * Mention Processor Service
- * Handles @agent and @file mentions through the system reminder infrastructure
+ * Handles @agent and @file mentions through the system reminder infrastructure,
+ * and resolves @server:uri mentions of MCP resources into inline context
  * Designed to integrate naturally with the existing event-driven architecture
  */
 
@@ -10,9 +11,10 @@ import { existsSync } from 'fs'
 import { resolve } from 'path'
 import { getCwd } from '@utils/state'
 import { debug as debugLogger } from '@utils/debugLogger'
+import { getClients, getMCPResourceContext } from './mcpClient'
 
 export interface MentionContext {
-  type: 'agent' | 'file'
+  type: 'agent' | 'file' | 'mcp_resource'
   mention: string
   resolved: string
   exists: boolean
@@ -22,8 +24,11 @@ export interface MentionContext {
 export interface ProcessedMentions {
   agents: MentionContext[]
   files: MentionContext[]
+  // Resolved MCP resources; metadata.content holds the text to inline
+  resources: MentionContext[]
   hasAgentMentions: boolean
   hasFileMentions: boolean
+  hasResourceMentions: boolean
 }
 
 class MentionProcessorService {
@@ -32,7 +37,8 @@ class MentionProcessorService {
     runAgent: /@(run-agent-[\w\-]+)/g,
     agent: /@(agent-[\w\-]+)/g,  // Legacy support
     askModel: /@(ask-[\w\-]+)/g,
-    file: /@([a-zA-Z0-9/._-]+(?:\.[a-zA-Z0-9]+)?)/g
+    file: /@([a-zA-Z0-9/._-]+(?:\.[a-zA-Z0-9]+)?)/g,
+    mcpResource: /(?:^|\s)@([\w-]+):(\S+)/g
   } as const
 
   private agentCache: Map<string, boolean> = new Map()
@@ -47,8 +53,10 @@ class MentionProcessorService {
     const result: ProcessedMentions = {
       agents: [],
       files: [],
+      resources: [],
       hasAgentMentions: false,
       hasFileMentions: false,
+      hasResourceMentions: false,
     }
 
     try {
@@ -88,6 +96,11 @@ class MentionProcessorService {
       if (mention.startsWith('run-agent-') || mention.startsWith('agent-') || mention.startsWith('ask-') || processedAgentMentions.has(mention)) {
         continue
       }
+
+      // Skip the server part of @server:uri resource mentions
+      if (input[match.index! + match[0].length] === ':') {
+        continue
+      }
       
       // Check if it's a file
       const filePath = this.resolveFilePath(mention)
@@ -109,6 +122,37 @@ class MentionProcessorService {
       }
     }
 
+    // Process MCP resource mentions
+    const resourceMatches = [...input.matchAll(MentionProcessorService.MENTION_PATTERNS.mcpResource)]
+    if (resourceMatches.length > 0) {
+      const clients = await getClients()
+      for (const match of resourceMatches) {
+        const [, server, uri] = match
+        if (!clients.some(client => client.name === server && client.type === 'connected')) {
+          continue
+        }
+        const mention = `${server}:${uri}`
+        try {
+          const content = await getMCPResourceContext(mention)
+          if (content) {
+            result.resources.push({
+              type: 'mcp_resource',
+              mention,
+              resolved: uri,
+              exists: true,
+              metadata: { server, content },
+            })
+            result.hasResourceMentions = true
+          }
+        } catch (error) {
+          debugLogger.warn('MENTION_PROCESSOR_RESOURCE_FAILED', {
+            mention,
+            error: error instanceof Error ? error.message : error,
+          })
+        }
+      }
+    }
+
       return result
     } catch (error) {
       console.warn('[MentionProcessor] Failed to process mentions:', {
@@ -120,8 +164,10 @@ class MentionProcessorService {
       return {
         agents: [],
         files: [],
+        resources: [],
         hasAgentMentions: false,
         hasFileMentions: false,
+        hasResourceMentions: false,
       }
     }
   }
@@ -1,6 +1,8 @@
 import { ModelAPIAdapter } from './adapters/base'
 import { ResponsesAPIAdapter } from './adapters/responsesAPI'
 import { ChatCompletionsAdapter } from './adapters/chatCompletions'
+import { GeminiAdapter } from './adapters/gemini'
+import { OllamaAdapter } from './adapters/ollama'
 import { getModelCapabilities } from '@constants/modelCapabilities'
 import { ModelProfile, getGlobalConfig } from '@utils/config'
 import { ModelCapabilities } from '@cougar-types/modelCapabilities'
@@ -9,9 +11,14 @@ export class ModelAdapterFactory {
   /**
    * Create appropriate adapter based on model configuration
    */
-  static createAdapter(modelProfile: ModelProfile): ModelAPIAdapter {
-    const capabilities = getModelCapabilities(modelProfile.modelName)
-    
+  static createAdapter(
+    modelProfile: ModelProfile,
+    capabilities: ModelCapabilities = getModelCapabilities(
+      modelProfile.modelName,
+    ),
+  ): ModelAPIAdapter {
+    capabilities = this.applyToolCallingMode(modelProfile, capabilities)
+
     // Determine which API to use
     const apiType = this.determineAPIType(modelProfile, capabilities)
     
@@ -19,6 +26,10 @@ export class ModelAdapterFactory {
     switch (apiType) {
       case 'responses_api':
         return new ResponsesAPIAdapter(capabilities, modelProfile)
+      case 'gemini_generate_content':
+        return new GeminiAdapter(capabilities, modelProfile)
+      case 'ollama_chat':
+        return new OllamaAdapter(capabilities, modelProfile)
       case 'chat_completions':
       default:
         return new ChatCompletionsAdapter(capabilities, modelProfile)
@@ -31,7 +42,20 @@ export class ModelAdapterFactory {
   private static determineAPIType(
     modelProfile: ModelProfile,
     capabilities: ModelCapabilities
-  ): 'responses_api' | 'chat_completions' {
+  ): 'responses_api' | 'chat_completions' | 'gemini_generate_content' | 'ollama_chat' {
+    // Ollama models have arbitrary names, so the provider decides
+    if (modelProfile.provider === 'ollama') {
+      return 'ollama_chat'
+    }
+
+    // The native Gemini API is only served by Google; other providers of
+    // Gemini models speak Chat Completions
+    if (capabilities.apiArchitecture.primary === 'gemini_generate_content') {
+      return modelProfile.provider === 'gemini'
+        ? 'gemini_generate_content'
+        : 'chat_completions'
+    }
+
     // If model doesn't support Responses API, use Chat Completions directly
     if (capabilities.apiArchitecture.primary !== 'responses_api') {
       return 'chat_completions'
@@ -66,4 +90,55 @@ export class ModelAdapterFactory {
     const apiType = this.determineAPIType(modelProfile, capabilities)
     return apiType === 'responses_api'
   }
+
+  /**
+   * Check if model should use the native Gemini API
+   */
+  static shouldUseGeminiAPI(modelProfile: ModelProfile): boolean {
+    const capabilities = getModelCapabilities(modelProfile.modelName)
+    const apiType = this.determineAPIType(modelProfile, capabilities)
+    return apiType === 'gemini_generate_content'
+  }
+
+  /**
+   * Check if model should use the native Ollama API
+   */
+  static shouldUseOllamaAPI(modelProfile: ModelProfile): boolean {
+    const capabilities = getModelCapabilities(modelProfile.modelName)
+    const apiType = this.determineAPIType(modelProfile, capabilities)
+    return apiType === 'ollama_chat'
+  }
+
+  /**
+   * Check if tools should be described in the prompt instead of sent as
+   * function definitions
+   */
+  static usesPromptToolCalling(
+    modelProfile: ModelProfile,
+    capabilities: ModelCapabilities = getModelCapabilities(
+      modelProfile.modelName,
+    ),
+  ): boolean {
+    return (
+      this.applyToolCallingMode(modelProfile, capabilities).toolCalling.mode ===
+      'none'
+    )
+  }
+
+  // The profile's tool calling mode wins over what the model is known for
+  private static applyToolCallingMode(
+    modelProfile: ModelProfile,
+    capabilities: ModelCapabilities,
+  ): ModelCapabilities {
+    if (!modelProfile.toolCallingMode) {
+      return capabilities
+    }
+    const mode =
+      modelProfile.toolCallingMode === 'prompt'
+        ? 'none'
+        : capabilities.toolCalling.mode === 'none'
+          ? 'function_calling'
+          : capabilities.toolCalling.mode
+    return { ...capabilities, toolCalling: { ...capabilities.toolCalling, mode } }
+  }
 }
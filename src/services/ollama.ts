@@ -0,0 +1,190 @@
+import { fetch, Response } from 'undici'
+import type { ModelProfile } from '@utils/config'
+import { ProviderHTTPError } from '@utils/errors'
+import { debug as debugLogger } from '@utils/debugLogger'
+
+/**
+ * Native Ollama API: model discovery through /api/tags and /api/show, and
+ * chat through /api/chat. Ollama is usually on the user's own machine or
+ * network, so requests skip the configured proxy.
+ */
+
+export const DEFAULT_OLLAMA_URL = 'http://localhost:11434'
+
+export type OllamaModel = {
+  name: string
+  contextLength?: number
+  supportsTools: boolean
+  supportsVision: boolean
+  supportsThinking: boolean
+  parameterSize?: string
+  quantization?: string
+}
+
+// Looked up once per server and model for the lifetime of the process
+const modelInfoCache = new Map<string, Promise<OllamaModel | null>>()
+
+/**
+ * Server root of an Ollama base URL. Profiles set up for the OpenAI-compatible
+ * endpoint end in /v1.
+ */
+export function getOllamaRoot(baseURL?: string): string {
+  const url = (baseURL || DEFAULT_OLLAMA_URL).replace(/\/+$/, '')
+  return url.replace(/\/v1$/, '')
+}
+
+function extractContextLength(data: any): number | undefined {
+  // Architecture-specific keys such as llama.context_length
+  for (const [key, value] of Object.entries(data?.model_info ?? {})) {
+    if (
+      key.endsWith('.context_length') &&
+      typeof value === 'number' &&
+      value > 0
+    ) {
+      return value
+    }
+  }
+
+  // A num_ctx set in the Modelfile, as "num_ctx 8192" among the parameters
+  const match = String(data?.parameters ?? '').match(/num_ctx\s+(\d+)/)
+  if (match) {
+    return Number(match[1])
+  }
+  return undefined
+}
+
+function toOllamaModel(name: string, details: any, show: any): OllamaModel {
+  const capabilities: string[] = Array.isArray(show?.capabilities)
+    ? show.capabilities
+    : []
+  return {
+    name,
+    contextLength: extractContextLength(show),
+    // Servers before capabilities were reported: tool support shows in the
+    // chat template
+    supportsTools: capabilities.length
+      ? capabilities.includes('tools')
+      : String(show?.template ?? '').includes('.Tools'),
+    supportsVision: capabilities.includes('vision'),
+    supportsThinking: capabilities.includes('thinking'),
+    parameterSize: details?.parameter_size,
+    quantization: details?.quantization_level,
+  }
+}
+
+async function showModel(
+  root: string,
+  name: string,
+  signal?: AbortSignal,
+): Promise<any> {
+  const response = await fetch(`${root}/api/show`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ model: name }),
+    signal,
+  })
+  if (!response.ok) {
+    throw new ProviderHTTPError(response.status, await response.text())
+  }
+  return response.json()
+}
+
+/**
+ * Models installed on an Ollama server, with the context length and
+ * capabilities each one reports
+ */
+export async function listOllamaModels(
+  baseURL?: string,
+  signal?: AbortSignal,
+): Promise<OllamaModel[]> {
+  const root = getOllamaRoot(baseURL)
+  const response = await fetch(`${root}/api/tags`, { signal })
+  if (!response.ok) {
+    throw new ProviderHTTPError(response.status, await response.text())
+  }
+  const data: any = await response.json()
+  if (!Array.isArray(data?.models)) {
+    throw new Error('Invalid response from Ollama API: missing models array')
+  }
+
+  return Promise.all(
+    data.models
+      .filter((model: any) => model?.name)
+      .map(async (model: any) => {
+        const show = await showModel(root, model.name, signal).catch(() => null)
+        const info = toOllamaModel(model.name, model.details, show)
+        modelInfoCache.set(`${root} ${model.name}`, Promise.resolve(info))
+        return info
+      }),
+  )
+}
+
+/**
+ * What an Ollama server reports about a profile's model, or null when the
+ * server cannot be asked
+ */
+export function getOllamaModelInfo(
+  modelProfile: ModelProfile,
+): Promise<OllamaModel | null> {
+  const root = getOllamaRoot(modelProfile.baseURL)
+  const key = `${root} ${modelProfile.modelName}`
+  if (!modelInfoCache.has(key)) {
+    modelInfoCache.set(
+      key,
+      showModel(root, modelProfile.modelName)
+        .then(show =>
+          toOllamaModel(modelProfile.modelName, show?.details, show),
+        )
+        .catch(error => {
+          debugLogger.warn('OLLAMA_SHOW_FAILED', {
+            model: modelProfile.modelName,
+            error: error instanceof Error ? error.message : String(error),
+          })
+          modelInfoCache.delete(key)
+          return null
+        }),
+    )
+  }
+  return modelInfoCache.get(key)!
+}
+
+/**
+ * Native Ollama chat call. The request comes pre-formatted from
+ * OllamaAdapter.
+ */
+export async function callOllamaAPI(
+  modelProfile: ModelProfile,
+  request: any,
+  signal?: AbortSignal,
+): Promise<Response> {
+  try {
+    const response = await fetch(
+      `${getOllamaRoot(modelProfile.baseURL)}/api/chat`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+        signal,
+      },
+    )
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      let errorMessage = errorText
+      try {
+        errorMessage = JSON.parse(errorText)?.error || errorText
+      } catch {
+        // Not JSON, keep the raw text
+      }
+      throw new ProviderHTTPError(response.status, errorMessage)
+    }
+
+    // Return the raw response - the adapter will handle parsing
+    return response
+  } catch (error) {
+    if (signal?.aborted) {
+      throw new Error('Request cancelled by user')
+    }
+    throw error
+  }
+}
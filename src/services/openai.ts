@@ -3,6 +3,7 @@ import { getGlobalConfig, GlobalConfig } from '@utils/config'
 import { ProxyAgent, fetch, Response } from 'undici'
 import { setSessionState, getSessionState } from '@utils/sessionState'
 import { debug as debugLogger, getCurrentRequest, logAPIError } from '@utils/debugLogger'
+import { ProviderHTTPError } from '@utils/errors'
 
 /**
  * Retry configuration constants for API calls
@@ -613,13 +614,14 @@ export async function getCompletionWithProfile(
         }
         
         // 🔥 NEW: Parse error message to detect and handle specific API errors
+        let errorMessage = `HTTP ${response.status}`
         try {
           const errorData = await response.json()
           // Type guard for error data structure
           const hasError = (data: unknown): data is { error?: { message?: string }; message?: string } => {
             return typeof data === 'object' && data !== null
           }
-          const errorMessage = hasError(errorData) 
+          errorMessage = hasError(errorData) 
             ? (errorData.error?.message || errorData.message || `HTTP ${response.status}`)
             : `HTTP ${response.status}`
           
@@ -677,6 +679,10 @@ export async function getCompletionWithProfile(
           })
         }
         
+        if (attempt + 1 >= maxAttempts) {
+          throw new ProviderHTTPError(response.status, errorMessage)
+        }
+
         const delayMs = getRetryDelay(attempt)
         console.log(
           `  ⎿  API error (${response.status}), retrying in ${Math.round(delayMs / 1000)}s... (attempt ${attempt + 1}/${maxAttempts})`,
@@ -751,13 +757,14 @@ export async function getCompletionWithProfile(
       }
       
       // 🔥 NEW: Parse error message to detect and handle specific API errors
+      let errorMessage = `HTTP ${response.status}`
       try {
         const errorData = await response.json()
         // Type guard for error data structure
         const hasError = (data: unknown): data is { error?: { message?: string }; message?: string } => {
           return typeof data === 'object' && data !== null
         }
-        const errorMessage = hasError(errorData) 
+        errorMessage = hasError(errorData) 
           ? (errorData.error?.message || errorData.message || `HTTP ${response.status}`)
           : `HTTP ${response.status}`
         
@@ -793,6 +800,10 @@ export async function getCompletionWithProfile(
         console.log(`⚠️  Could not parse error response (${response.status})`)
       }
       
+      if (attempt + 1 >= maxAttempts) {
+        throw new ProviderHTTPError(response.status, errorMessage)
+      }
+
       const delayMs = getRetryDelay(attempt)
       console.log(
         `  ⎿  API error (${response.status}), retrying in ${Math.round(delayMs / 1000)}s... (attempt ${attempt + 1}/${maxAttempts})`,
@@ -822,6 +833,11 @@ export async function getCompletionWithProfile(
     if (signal?.aborted) {
       throw new Error('Request cancelled by user')
     }
+
+    // HTTP errors were already retried above
+    if (error instanceof ProviderHTTPError) {
+      throw error
+    }
     
     if (attempt < maxAttempts) {
       // 🔧 Double-check abort status to avoid showing misleading retry message
@@ -1001,6 +1017,62 @@ export async function callGPT5ResponsesAPI(
   }
 }
 
+/**
+ * Native Gemini generateContent API call. The request comes pre-formatted
+ * from GeminiAdapter; its model and stream fields select the endpoint.
+ */
+export async function callGeminiAPI(
+  modelProfile: any,
+  request: any, // Pre-formatted request from adapter
+  signal?: AbortSignal,
+): Promise<Response> {
+  // Profiles set up for the OpenAI-compatible endpoint point at .../openai
+  const baseURL = (
+    modelProfile?.baseURL ||
+    'https://generativelanguage.googleapis.com/v1beta'
+  ).replace(/\/openai\/?$/, '').replace(/\/$/, '')
+  const proxy = getGlobalConfig().proxy
+    ? new ProxyAgent(getGlobalConfig().proxy)
+    : undefined
+
+  const { model, stream, ...body } = request
+  const url = stream
+    ? `${baseURL}/models/${model}:streamGenerateContent?alt=sse`
+    : `${baseURL}/models/${model}:generateContent`
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': modelProfile?.apiKey ?? '',
+      },
+      body: JSON.stringify(body),
+      dispatcher: proxy,
+      signal: signal,
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      let errorMessage = errorText
+      try {
+        errorMessage = JSON.parse(errorText)?.error?.message || errorText
+      } catch {
+        // Not JSON, keep the raw text
+      }
+      throw new ProviderHTTPError(response.status, errorMessage)
+    }
+
+    // Return the raw response - the adapter will handle parsing
+    return response
+  } catch (error) {
+    if (signal?.aborted) {
+      throw new Error('Request cancelled by user')
+    }
+    throw error
+  }
+}
+
 /**
  * Convert Responses API response to Chat Completion format for compatibility
  * 🔥 Enhanced for GPT-5 with reasoning summary support
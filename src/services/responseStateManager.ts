@@ -16,9 +16,10 @@ class ResponseStateManager {
   
   constructor() {
     // Periodic cleanup of stale conversations
+    // Unref'd so it doesn't keep an embedding process alive
     setInterval(() => {
       this.cleanup()
-    }, this.CLEANUP_INTERVAL)
+    }, this.CLEANUP_INTERVAL).unref()
   }
   
   /**
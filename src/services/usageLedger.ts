@@ -0,0 +1,228 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs'
+import { dirname, join, resolve } from 'path'
+import Table from 'cli-table3'
+import { getProjectConfigCwd } from '@utils/config'
+import { CLAUDE_BASE_DIR } from '@utils/env'
+import { formatNumber } from '@utils/format'
+import { logError, SESSION_ID } from '@utils/log'
+
+/**
+ * Usage ledger
+ *
+ * Every API call's model, token counts and cost are appended as one JSON line
+ * to a ledger shared by all projects, so spend can be broken down per
+ * project, model and day after the session is gone (see /cost and
+ * `usage`).
+ */
+
+const LEDGER_PATH = join(CLAUDE_BASE_DIR, 'usage.jsonl')
+
+export type UsageEntry = {
+  timestamp: string
+  sessionId: string
+  project: string
+  model: string
+  inputTokens: number
+  outputTokens: number
+  cacheReadTokens: number
+  cacheWriteTokens: number
+  reasoningTokens: number
+  costUSD: number | null // null when the model's pricing is unknown
+  durationMs: number
+}
+
+export type UsageSummary = Omit<
+  UsageEntry,
+  'timestamp' | 'sessionId' | 'project' | 'model' | 'costUSD'
+> & {
+  key: string
+  requests: number
+  costUSD: number // Of the requests with known pricing
+  unpricedRequests: number
+}
+
+// Entries recorded by this process, so the session does not re-read the ledger
+const sessionEntries: UsageEntry[] = []
+
+export function getCurrentProject(): string {
+  return resolve(getProjectConfigCwd())
+}
+
+export function recordUsage(
+  usage: Omit<UsageEntry, 'timestamp' | 'sessionId' | 'project'>,
+): void {
+  const entry: UsageEntry = {
+    timestamp: new Date().toISOString(),
+    sessionId: SESSION_ID,
+    project: getCurrentProject(),
+    ...usage,
+  }
+  sessionEntries.push(entry)
+  try {
+    mkdirSync(dirname(LEDGER_PATH), { recursive: true })
+    appendFileSync(LEDGER_PATH, JSON.stringify(entry) + '\n', 'utf8')
+  } catch (error) {
+    logError(error)
+  }
+}
+
+export function getSessionUsage(): UsageEntry[] {
+  return [...sessionEntries]
+}
+
+/**
+ * Ledger entries of a project (the current one by default), optionally only
+ * those recorded at or after `since`
+ */
+export function readUsage({
+  project = getCurrentProject(),
+  since,
+}: { project?: string; since?: Date } = {}): UsageEntry[] {
+  if (!existsSync(LEDGER_PATH)) {
+    return []
+  }
+  const entries: UsageEntry[] = []
+  for (const line of readFileSync(LEDGER_PATH, 'utf8').split('\n')) {
+    if (!line.trim()) {
+      continue
+    }
+    try {
+      const entry = JSON.parse(line) as UsageEntry
+      if (
+        entry.project === project &&
+        (!since || new Date(entry.timestamp) >= since)
+      ) {
+        entries.push(entry)
+      }
+    } catch {
+      // A line cut short by a crash mid-write
+    }
+  }
+  return entries
+}
+
+export function getTotalUsageCost(entries: UsageEntry[]): number {
+  return entries.reduce((total, entry) => total + (entry.costUSD ?? 0), 0)
+}
+
+export function getUnpricedRequests(entries: UsageEntry[]): number {
+  return entries.filter(entry => entry.costUSD === null).length
+}
+
+/**
+ * "unknown" when no request was priced, and a lower bound when only some were
+ */
+export function formatUsageCost(
+  costUSD: number,
+  requests: number,
+  unpricedRequests: number,
+): string {
+  if (requests > 0 && unpricedRequests === requests) {
+    return 'unknown'
+  }
+  const cost = `$${costUSD.toFixed(4)}`
+  return unpricedRequests ? `${cost} + unknown` : cost
+}
+
+export function formatTotalUsageCost(entries: UsageEntry[]): string {
+  return formatUsageCost(
+    getTotalUsageCost(entries),
+    entries.length,
+    getUnpricedRequests(entries),
+  )
+}
+
+// Local calendar day, e.g. 2025-01-27
+export function getUsageDay(entry: UsageEntry): string {
+  const date = new Date(entry.timestamp)
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('-')
+}
+
+export function summarizeUsage(
+  entries: UsageEntry[],
+  getKey: (entry: UsageEntry) => string,
+): UsageSummary[] {
+  const summaries = new Map<string, UsageSummary>()
+  for (const entry of entries) {
+    const key = getKey(entry)
+    const summary = summaries.get(key) ?? {
+      key,
+      requests: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheReadTokens: 0,
+      cacheWriteTokens: 0,
+      reasoningTokens: 0,
+      costUSD: 0,
+      unpricedRequests: 0,
+      durationMs: 0,
+    }
+    summary.requests++
+    summary.inputTokens += entry.inputTokens
+    summary.outputTokens += entry.outputTokens
+    summary.cacheReadTokens += entry.cacheReadTokens
+    summary.cacheWriteTokens += entry.cacheWriteTokens
+    summary.reasoningTokens += entry.reasoningTokens
+    if (entry.costUSD === null) {
+      summary.unpricedRequests++
+    } else {
+      summary.costUSD += entry.costUSD
+    }
+    summary.durationMs += entry.durationMs
+    summaries.set(key, summary)
+  }
+  return [...summaries.values()].sort((a, b) => a.key.localeCompare(b.key))
+}
+
+export function formatUsageTable(
+  heading: string,
+  summaries: UsageSummary[],
+): string {
+  const table = new Table({
+    head: [
+      heading,
+      'Requests',
+      'Input',
+      'Output',
+      'Cache read',
+      'Cache write',
+      'Reasoning',
+      'Cost',
+    ],
+    style: { head: ['bold'] },
+  })
+  for (const summary of summaries) {
+    table.push([
+      summary.key,
+      summary.requests,
+      formatNumber(summary.inputTokens),
+      formatNumber(summary.outputTokens),
+      formatNumber(summary.cacheReadTokens),
+      formatNumber(summary.cacheWriteTokens),
+      formatNumber(summary.reasoningTokens),
+      formatUsageCost(
+        summary.costUSD,
+        summary.requests,
+        summary.unpricedRequests,
+      ),
+    ])
+  }
+  return table.toString()
+}
+
+/**
+ * Per-model and per-day tables of the given entries
+ */
+export function formatUsageReport(entries: UsageEntry[]): string {
+  return [
+    formatUsageTable(
+      'Model',
+      summarizeUsage(entries, _ => _.model),
+    ),
+    formatUsageTable('Day', summarizeUsage(entries, getUsageDay)),
+  ].join('\n')
+}
@@ -2,6 +2,8 @@ import { Tool } from './Tool'
 import { TaskTool } from './tools/TaskTool/TaskTool'
 import { ArchitectTool } from './tools/ArchitectTool/ArchitectTool'
 import { BashTool } from './tools/BashTool/BashTool'
+import { BashOutputTool } from './tools/BashOutputTool/BashOutputTool'
+import { KillShellTool } from './tools/KillShellTool/KillShellTool'
 import { AskExpertModelTool } from './tools/AskExpertModelTool/AskExpertModelTool'
 import { FileEditTool } from './tools/FileEditTool/FileEditTool'
 import { FileReadTool } from './tools/FileReadTool/FileReadTool'
@@ -19,7 +21,10 @@ import { TodoWriteTool } from './tools/TodoWriteTool/TodoWriteTool'
 import { WebSearchTool } from './tools/WebSearchTool/WebSearchTool'
 import { URLFetcherTool } from './tools/URLFetcherTool/URLFetcherTool'
 import { SkillTool } from './tools/SkillTool/SkillTool'
-import { getMCPTools } from './services/mcpClient'
+import { ExitPlanModeTool } from './tools/ExitPlanModeTool/ExitPlanModeTool'
+import { ListMcpResourcesTool } from './tools/ListMcpResourcesTool/ListMcpResourcesTool'
+import { ReadMcpResourceTool } from './tools/ReadMcpResourceTool/ReadMcpResourceTool'
+import { getMCPTools, onMCPToolsChanged } from './services/mcpClient'
 import { memoize } from 'lodash-es'
 
 const ANT_ONLY_TOOLS = [MemoryReadTool as unknown as Tool, MemoryWriteTool as unknown as Tool]
@@ -30,6 +35,8 @@ export const getAllTools = (): Tool[] => {
     TaskTool as unknown as Tool,
     AskExpertModelTool as unknown as Tool,
     BashTool as unknown as Tool,
+    BashOutputTool as unknown as Tool,
+    KillShellTool as unknown as Tool,
     GlobTool as unknown as Tool,
     GrepTool as unknown as Tool,
     LSTool as unknown as Tool,
@@ -43,6 +50,9 @@ export const getAllTools = (): Tool[] => {
     TodoWriteTool as unknown as Tool,
     WebSearchTool as unknown as Tool,
     URLFetcherTool as unknown as Tool,
+    ExitPlanModeTool as unknown as Tool,
+    ListMcpResourcesTool as unknown as Tool,
+    ReadMcpResourceTool as unknown as Tool,
     ...ANT_ONLY_TOOLS,
   ]
 
@@ -67,6 +77,9 @@ export const getTools = memoize(
   },
 )
 
+// MCP servers can come and go, or change their tools, mid-session
+onMCPToolsChanged(() => getTools.cache.clear?.())
+
 export const getReadOnlyTools = memoize(async (): Promise<Tool[]> => {
   const tools = getAllTools().filter(tool => tool.isReadOnly())
   const isEnabled = await Promise.all(tools.map(tool => tool.isEnabled()))
@@ -0,0 +1,122 @@
+import * as React from 'react'
+import { z } from 'zod'
+import { FallbackToolUseRejectedMessage } from '@components/FallbackToolUseRejectedMessage'
+import { Tool } from '@tool'
+import BashToolResultMessage from '@tools/BashTool/BashToolResultMessage'
+import { formatOutput } from '@tools/BashTool/utils'
+import {
+  BackgroundShellStatus,
+  getBackgroundShell,
+  readBackgroundShellOutput,
+} from '@utils/backgroundShells'
+import { DESCRIPTION, PROMPT, TOOL_NAME } from './prompt'
+
+const inputSchema = z.strictObject({
+  bash_id: z.string().describe('The ID of the background shell to read from'),
+  filter: z
+    .string()
+    .optional()
+    .describe(
+      'Optional regular expression; only output lines matching it are returned',
+    ),
+})
+
+type Output = {
+  shellId: string
+  status: BackgroundShellStatus
+  exitCode: number | null
+  stdout: string
+  stdoutLines: number
+  stderr: string
+  stderrLines: number
+}
+
+export const BashOutputTool = {
+  name: TOOL_NAME,
+  async description() {
+    return DESCRIPTION
+  },
+  async prompt() {
+    return PROMPT
+  },
+  inputSchema,
+  userFacingName() {
+    return 'Bash output'
+  },
+  async isEnabled() {
+    return true
+  },
+  isReadOnly() {
+    return true
+  },
+  isConcurrencySafe() {
+    return true
+  },
+  needsPermissions() {
+    return false
+  },
+  async validateInput({ bash_id, filter }) {
+    if (!getBackgroundShell(bash_id)) {
+      return {
+        result: false,
+        message: `No background shell found with ID: ${bash_id}`,
+      }
+    }
+    if (filter) {
+      try {
+        new RegExp(filter)
+      } catch (error) {
+        return {
+          result: false,
+          message: `Invalid filter: ${error instanceof Error ? error.message : String(error)}`,
+        }
+      }
+    }
+    return { result: true }
+  },
+  async *call({ bash_id, filter }) {
+    const output = readBackgroundShellOutput(
+      bash_id,
+      filter ? new RegExp(filter) : undefined,
+    )
+    if (!output) {
+      throw new Error(`No background shell found with ID: ${bash_id}`)
+    }
+
+    const stdout = formatOutput(output.stdout.trim())
+    const stderr = formatOutput(output.stderr.trim())
+    const data: Output = {
+      shellId: bash_id,
+      status: output.status,
+      exitCode: output.exitCode,
+      stdout: stdout.truncatedContent,
+      stdoutLines: stdout.totalLines,
+      stderr: stderr.truncatedContent,
+      stderrLines: stderr.totalLines,
+    }
+    yield {
+      type: 'result',
+      data,
+      resultForAssistant: this.renderResultForAssistant(data),
+    }
+  },
+  renderResultForAssistant({ status, exitCode, stdout, stderr }) {
+    return [
+      `<status>${status}</status>`,
+      exitCode !== null ? `<exit_code>${exitCode}</exit_code>` : '',
+      stdout ? `<stdout>\n${stdout}\n</stdout>` : '',
+      stderr ? `<stderr>\n${stderr}\n</stderr>` : '',
+    ]
+      .filter(Boolean)
+      .join('\n')
+  },
+  renderToolUseMessage({ bash_id, filter }) {
+    return filter ? `${bash_id}, filter: "${filter}"` : bash_id
+  },
+  renderToolUseRejectedMessage() {
+    return <FallbackToolUseRejectedMessage />
+  },
+  renderToolResultMessage(output) {
+    return <BashToolResultMessage content={output} verbose={false} />
+  },
+} satisfies Tool<typeof inputSchema, Output>
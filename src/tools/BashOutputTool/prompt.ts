@@ -0,0 +1,11 @@
+export const TOOL_NAME = 'BashOutput'
+
+export const DESCRIPTION =
+  'Read new output from a command started with run_in_background.'
+
+export const PROMPT = `Reads the output of a background shell started with the Bash tool's run_in_background option.
+
+- Pass the shell ID returned when the command was started
+- Each call returns only the output produced since the previous call, along with the shell's status (running, completed, failed or killed) and exit code
+- Use the optional filter parameter, a regular expression, to get only the matching lines. Lines that do not match are skipped and will not be returned later
+- Use /bashes to see the background shells of this session`
@@ -10,9 +10,13 @@ import { Tool, ValidationResult } from '@tool'
 import { splitCommand } from '@utils/commands'
 import { isInDirectory } from '@utils/file'
 import { logError } from '@utils/log'
-import { PersistentShell } from '@utils/PersistentShell'
-import { getCwd, getOriginalCwd } from '@utils/state'
-import { getGlobalConfig } from '@utils/config'
+import { startBackgroundShell } from '@utils/backgroundShells'
+import {
+  getSandboxUnavailableWarning,
+  getSandboxViolationHint,
+} from '@utils/sandbox'
+import { getCwd, getOriginalCwd, getShell } from '@utils/state'
+import { getGlobalConfig, getProjectConfigCwd } from '@utils/config'
 import { getModelManager } from '@utils/model'
 import BashToolResultMessage from './BashToolResultMessage'
 import { BANNED_COMMANDS, PROMPT } from './prompt'
@@ -24,6 +28,12 @@ export const inputSchema = z.strictObject({
     .number()
     .optional()
     .describe('Optional timeout in milliseconds (max 600000)'),
+  run_in_background: z
+    .boolean()
+    .optional()
+    .describe(
+      'Set to true to run this command in the background. Use BashOutput to read the output later.',
+    ),
 })
 
 type In = typeof inputSchema
@@ -33,6 +43,8 @@ export type Out = {
   stderr: string
   stderrLines: number // Total number of lines in original stderr, even if `stderr` is now truncated
   interrupted: boolean
+  // Set when the command was started with run_in_background
+  backgroundTaskId?: string
 }
 
 export const BashTool = {
@@ -134,7 +146,7 @@ export const BashTool = {
     return `${stdout.trim()}${hasBoth ? '\n' : ''}${errorMessage.trim()}`
   },
   async *call(
-    { command, timeout = 120000 },
+    { command, timeout = 120000, run_in_background },
     { abortController, readFileTimestamps },
   ) {
     let stdout = ''
@@ -158,9 +170,34 @@ export const BashTool = {
       return
     }
 
+    if (run_in_background) {
+      const job = startBackgroundShell(
+        command,
+        getCwd(),
+        getShell().sandboxed
+          ? { root: getOriginalCwd(), projectCwd: getProjectConfigCwd() }
+          : undefined,
+      )
+      const data: Out = {
+        stdout: `Command running in background with ID: ${job.id}`,
+        stdoutLines: 1,
+        stderr: '',
+        stderrLines: 0,
+        interrupted: false,
+        backgroundTaskId: job.id,
+      }
+
+      yield {
+        type: 'result',
+        resultForAssistant: this.renderResultForAssistant(data),
+        data,
+      }
+      return
+    }
+
     try {
       // Execute commands
-      const result = await PersistentShell.getInstance().exec(
+      const result = await getShell().exec(
         command,
         abortController.signal,
         timeout,
@@ -169,11 +206,27 @@ export const BashTool = {
       stderr += (result.stderr || '').trim() + EOL
       if (result.code !== 0) {
         stderr += `Exit code ${result.code}`
+        const sandboxHint = getShell().sandboxed
+          ? getSandboxViolationHint(
+              `${result.stdout}\n${result.stderr}`,
+              getOriginalCwd(),
+              getProjectConfigCwd(),
+            )
+          : null
+        if (sandboxHint) {
+          stderr += `${EOL}${sandboxHint}`
+        }
+      }
+      const sandboxWarning = getSandboxUnavailableWarning(
+        getProjectConfigCwd(),
+      )
+      if (sandboxWarning) {
+        stderr = `${stderr.trim()}${EOL}${sandboxWarning}`
       }
 
       if (!isInDirectory(getCwd(), getOriginalCwd())) {
         // Shell directory is outside original working directory, reset it
-        await PersistentShell.getInstance().setCwd(getOriginalCwd())
+        await getShell().setCwd(getOriginalCwd())
         stderr = `${stderr.trim()}${EOL}Shell cwd was reset to ${getOriginalCwd()}`
         
       }
@@ -0,0 +1,92 @@
+import { Box, Text } from 'ink'
+import * as React from 'react'
+import { z } from 'zod'
+import { Tool } from '@tool'
+import { FallbackToolUseRejectedMessage } from '@components/FallbackToolUseRejectedMessage'
+import { applyMarkdown } from '@utils/markdown'
+import { getPermissionMode } from '@utils/permissionMode'
+import { getTheme } from '@utils/theme'
+import { DESCRIPTION, PROMPT, TOOL_NAME } from './prompt'
+
+const inputSchema = z.strictObject({
+  plan: z
+    .string()
+    .describe(
+      'The plan you came up with, that you want to run by the user for approval. Supports markdown. The plan should be pretty concise.',
+    ),
+})
+
+type Out = {
+  plan: string
+}
+
+export const ExitPlanModeTool = {
+  name: TOOL_NAME,
+  async description() {
+    return DESCRIPTION
+  },
+  async prompt() {
+    return PROMPT
+  },
+  inputSchema,
+  userFacingName() {
+    return 'Ready to code?'
+  },
+  async isEnabled() {
+    return true
+  },
+  isReadOnly() {
+    return true
+  },
+  isConcurrencySafe() {
+    return false // The approval dialog switches the permission mode
+  },
+  needsPermissions() {
+    return true
+  },
+  async validateInput({ plan }) {
+    if (getPermissionMode() !== 'plan') {
+      return {
+        result: false,
+        message:
+          'Plan mode is not active. There is no need to use this tool; proceed with the task.',
+      }
+    }
+    if (!plan.trim()) {
+      return { result: false, message: 'Plan cannot be empty' }
+    }
+    return { result: true }
+  },
+  // The mode switch itself happens in the permission dialog, once the user
+  // has approved the plan
+  async *call({ plan }) {
+    const data: Out = { plan }
+    yield {
+      type: 'result',
+      data,
+      resultForAssistant: this.renderResultForAssistant(data),
+    }
+  },
+  renderResultForAssistant() {
+    return 'User has approved your plan. You can now start coding. Start with updating your todo list if applicable.'
+  },
+  renderToolUseMessage() {
+    return ''
+  },
+  renderToolUseRejectedMessage() {
+    return <FallbackToolUseRejectedMessage />
+  },
+  renderToolResultMessage({ plan }) {
+    return (
+      <Box flexDirection="column">
+        <Text>
+          {'  '}⎿ &nbsp;
+          <Text color={getTheme().success}>User approved the plan</Text>
+        </Text>
+        <Box paddingLeft={5}>
+          <Text>{applyMarkdown(plan)}</Text>
+        </Box>
+      </Box>
+    )
+  },
+} satisfies Tool<typeof inputSchema, Out>
@@ -0,0 +1,16 @@
+export const TOOL_NAME = 'ExitPlanMode'
+
+export const DESCRIPTION =
+  'Prompts the user to exit plan mode and start coding'
+
+export const PROMPT = `Use this tool when you are in plan mode and have finished planning and are ready to code. This will prompt the user to review your plan and exit plan mode.
+
+IMPORTANT: Only use this tool when the task requires planning the implementation steps of a task that requires writing code. For research tasks where you're gathering information, searching files, reading files or in general trying to understand the codebase - do NOT use this tool.
+
+While plan mode is active, only read-only tools can be used. Any attempt to edit files, run shell commands or otherwise change the system will be rejected until the user approves your plan.
+
+The plan should be concise and written in markdown. It should list the files you intend to change and the changes you intend to make to each of them.`
+
+export const PLAN_MODE_SYSTEM_PROMPT = `
+# Plan mode
+Plan mode is active. The user does not want you to make any changes yet: you MUST NOT edit files, run non-readonly tools or otherwise change the system. Research the codebase with read-only tools, then call ${TOOL_NAME} with your plan so the user can approve it.`
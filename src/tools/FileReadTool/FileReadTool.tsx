@@ -23,7 +23,7 @@ import {
   generateFileModificationReminder,
 } from '@services/fileFreshness'
 import { DESCRIPTION, PROMPT } from './prompt'
-import { hasReadPermission } from '@utils/permissions/filesystem'
+import { needsReadPermission } from '@utils/permissions/filesystem'
 import { secureFileService } from '@utils/secureFile'
 
 const MAX_LINES_TO_RENDER = 5
@@ -82,7 +82,7 @@ export const FileReadTool = {
     return true
   },
   needsPermissions({ file_path }) {
-    return !hasReadPermission(file_path || getCwd())
+    return needsReadPermission(file_path || getCwd())
   },
   renderToolUseMessage(input, { verbose }) {
     const { file_path, ...rest } = input
@@ -8,7 +8,7 @@ import { getCwd } from '@utils/state'
 import { glob } from '@utils/file'
 import { DESCRIPTION, TOOL_NAME_FOR_PROMPT } from './prompt'
 import { isAbsolute, relative, resolve } from 'path'
-import { hasReadPermission } from '@utils/permissions/filesystem'
+import { needsReadPermission } from '@utils/permissions/filesystem'
 
 const inputSchema = z.strictObject({
   pattern: z.string().describe('The glob pattern to match files against'),
@@ -46,7 +46,7 @@ export const GlobTool = {
     return true // GlobTool is read-only, safe for concurrent execution
   },
   needsPermissions({ path }) {
-    return !hasReadPermission(path || getCwd())
+    return needsReadPermission(path || getCwd())
   },
   async prompt() {
     return DESCRIPTION
@@ -12,7 +12,7 @@ import {
 } from '@utils/file'
 import { ripGrep } from '@utils/ripgrep'
 import { DESCRIPTION, TOOL_NAME_FOR_PROMPT } from './prompt'
-import { hasReadPermission } from '@utils/permissions/filesystem'
+import { needsReadPermission } from '@utils/permissions/filesystem'
 
 const inputSchema = z.strictObject({
   pattern: z
@@ -60,7 +60,7 @@ export const GrepTool = {
     return true
   },
   needsPermissions({ path }) {
-    return !hasReadPermission(path || getCwd())
+    return needsReadPermission(path || getCwd())
   },
   async prompt() {
     return DESCRIPTION
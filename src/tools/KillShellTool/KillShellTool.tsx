@@ -0,0 +1,92 @@
+import { Box, Text } from 'ink'
+import * as React from 'react'
+import { z } from 'zod'
+import { FallbackToolUseRejectedMessage } from '@components/FallbackToolUseRejectedMessage'
+import { Tool } from '@tool'
+import {
+  getBackgroundShell,
+  killBackgroundShell,
+} from '@utils/backgroundShells'
+import { getTheme } from '@utils/theme'
+import { DESCRIPTION, PROMPT, TOOL_NAME } from './prompt'
+
+const inputSchema = z.strictObject({
+  shell_id: z.string().describe('The ID of the background shell to stop'),
+})
+
+type Output = {
+  shellId: string
+  command: string
+}
+
+export const KillShellTool = {
+  name: TOOL_NAME,
+  async description() {
+    return DESCRIPTION
+  },
+  async prompt() {
+    return PROMPT
+  },
+  inputSchema,
+  userFacingName() {
+    return 'Kill shell'
+  },
+  async isEnabled() {
+    return true
+  },
+  isReadOnly() {
+    return false
+  },
+  isConcurrencySafe() {
+    return true
+  },
+  needsPermissions() {
+    // Only stops commands that were already approved to run
+    return false
+  },
+  async validateInput({ shell_id }) {
+    const shell = getBackgroundShell(shell_id)
+    if (!shell) {
+      return {
+        result: false,
+        message: `No background shell found with ID: ${shell_id}`,
+      }
+    }
+    if (shell.status !== 'running') {
+      return {
+        result: false,
+        message: `Background shell ${shell_id} is not running (status: ${shell.status})`,
+      }
+    }
+    return { result: true }
+  },
+  async *call({ shell_id }) {
+    const shell = getBackgroundShell(shell_id)
+    if (!shell || !killBackgroundShell(shell_id)) {
+      throw new Error(`Failed to stop background shell ${shell_id}`)
+    }
+    const data: Output = { shellId: shell_id, command: shell.command }
+    yield {
+      type: 'result',
+      data,
+      resultForAssistant: this.renderResultForAssistant(data),
+    }
+  },
+  renderResultForAssistant({ shellId, command }) {
+    return `Stopped background shell ${shellId} (${command})`
+  },
+  renderToolUseMessage({ shell_id }) {
+    return shell_id
+  },
+  renderToolUseRejectedMessage() {
+    return <FallbackToolUseRejectedMessage />
+  },
+  renderToolResultMessage({ shellId }) {
+    return (
+      <Box flexDirection="row">
+        <Text>&nbsp;&nbsp;⎿ &nbsp;</Text>
+        <Text color={getTheme().secondaryText}>Stopped {shellId}</Text>
+      </Box>
+    )
+  },
+} satisfies Tool<typeof inputSchema, Output>
@@ -0,0 +1,8 @@
+export const TOOL_NAME = 'KillShell'
+
+export const DESCRIPTION = 'Stop a command started with run_in_background.'
+
+export const PROMPT = `Stops a background shell started with the Bash tool's run_in_background option, together with the processes it started.
+
+- Pass the shell ID returned when the command was started
+- Use it to stop dev servers, watchers or test runs that are no longer needed`
@@ -0,0 +1,126 @@
+import { Box, Text } from 'ink'
+import * as React from 'react'
+import { z } from 'zod'
+import { FallbackToolUseRejectedMessage } from '@components/FallbackToolUseRejectedMessage'
+import { Tool } from '@tool'
+import {
+  getClients,
+  getMCPResources,
+  type ServerResource,
+} from '@services/mcpClient'
+import { getTheme } from '@utils/theme'
+import { DESCRIPTION, PROMPT, TOOL_NAME } from './prompt'
+
+const MAX_LINES = 5
+
+const inputSchema = z.strictObject({
+  server: z
+    .string()
+    .optional()
+    .describe('Only list resources from this MCP server'),
+})
+
+type Output = ServerResource[]
+
+export const ListMcpResourcesTool = {
+  name: TOOL_NAME,
+  async description() {
+    return DESCRIPTION
+  },
+  async prompt() {
+    return PROMPT
+  },
+  inputSchema,
+  userFacingName() {
+    return 'List MCP resources'
+  },
+  async isEnabled() {
+    const clients = await getClients()
+    return clients.some(client => client.type === 'connected')
+  },
+  isReadOnly() {
+    return true
+  },
+  isConcurrencySafe() {
+    return true
+  },
+  needsPermissions() {
+    return false
+  },
+  async validateInput({ server }) {
+    if (server) {
+      const clients = await getClients()
+      if (!clients.some(client => client.name === server)) {
+        return {
+          result: false,
+          message: `No MCP server found with name: ${server}. Available servers: ${clients.map(_ => _.name).join(', ')}`,
+        }
+      }
+    }
+    return { result: true }
+  },
+  async *call({ server }) {
+    const resources = (await getMCPResources()).filter(
+      resource => !server || resource.server === server,
+    )
+    yield {
+      type: 'result',
+      data: resources,
+      resultForAssistant: this.renderResultForAssistant(resources),
+    }
+  },
+  renderResultForAssistant(resources) {
+    if (resources.length === 0) {
+      return 'No resources found.'
+    }
+    return JSON.stringify(
+      resources.map(({ server, uri, name, description, mimeType }) => ({
+        server,
+        uri,
+        name,
+        description,
+        mimeType,
+      })),
+    )
+  },
+  renderToolUseMessage({ server }) {
+    return server ? `server: "${server}"` : ''
+  },
+  renderToolUseRejectedMessage() {
+    return <FallbackToolUseRejectedMessage />
+  },
+  renderToolResultMessage(resources) {
+    const theme = getTheme()
+    return (
+      <Box justifyContent="space-between" width="100%">
+        <Box>
+          <Text>&nbsp;&nbsp;⎿ &nbsp;</Text>
+          <Box flexDirection="column">
+            {resources.length === 0 ? (
+              <Text color={theme.secondaryText}>No resources found</Text>
+            ) : (
+              resources.slice(0, MAX_LINES).map((resource, i) => (
+                <React.Fragment key={i}>
+                  <Text>
+                    {resource.server}:{resource.uri}
+                    {resource.name && resource.name !== resource.uri && (
+                      <Text color={theme.secondaryText}>
+                        {' '}
+                        ({resource.name})
+                      </Text>
+                    )}
+                  </Text>
+                </React.Fragment>
+              ))
+            )}
+            {resources.length > MAX_LINES && (
+              <Text color={theme.secondaryText}>
+                ... (+{resources.length - MAX_LINES} resources)
+              </Text>
+            )}
+          </Box>
+        </Box>
+      </Box>
+    )
+  },
+} satisfies Tool<typeof inputSchema, Output>
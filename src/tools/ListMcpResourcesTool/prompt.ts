@@ -0,0 +1,9 @@
+export const TOOL_NAME = 'ListMcpResources'
+
+export const DESCRIPTION =
+  'List resources (files, documents, records) exposed by connected MCP servers.'
+
+export const PROMPT = `Lists the resources exposed by connected MCP servers. Each resource has a server name and a URI; pass both to the ReadMcpResource tool to read its content.
+
+- Use the optional server parameter to list the resources of a single server
+- Resources are read-only context such as documents, database schemas or API records`
@@ -23,7 +23,7 @@ import { formatOutput } from '@tools/BashTool/utils'
 import { getCwd } from '@utils/state'
 import { findSimilarFile } from '@utils/file'
 import { DESCRIPTION, PROMPT } from './prompt'
-import { hasReadPermission } from '@utils/permissions/filesystem'
+import { needsReadPermission } from '@utils/permissions/filesystem'
 
 const inputSchema = z.strictObject({
   notebook_path: z
@@ -59,7 +59,7 @@ export const NotebookReadTool = {
     return true
   },
   needsPermissions({ notebook_path }) {
-    return !hasReadPermission(notebook_path)
+    return needsReadPermission(notebook_path)
   },
   async validateInput({ notebook_path }) {
     const fullFilePath = isAbsolute(notebook_path)
@@ -0,0 +1,99 @@
+import { Box, Text } from 'ink'
+import * as React from 'react'
+import { z } from 'zod'
+import { FallbackToolUseRejectedMessage } from '@components/FallbackToolUseRejectedMessage'
+import { Tool } from '@tool'
+import {
+  formatMCPResourceContents,
+  getClients,
+  readMCPResource,
+} from '@services/mcpClient'
+import { getTheme } from '@utils/theme'
+import { DESCRIPTION, PROMPT, TOOL_NAME } from './prompt'
+
+const inputSchema = z.strictObject({
+  server: z.string().describe('The name of the MCP server'),
+  uri: z.string().describe('The URI of the resource to read'),
+})
+
+type Output = {
+  server: string
+  uri: string
+  content: string
+}
+
+export const ReadMcpResourceTool = {
+  name: TOOL_NAME,
+  async description() {
+    return DESCRIPTION
+  },
+  async prompt() {
+    return PROMPT
+  },
+  inputSchema,
+  userFacingName() {
+    return 'Read MCP resource'
+  },
+  async isEnabled() {
+    const clients = await getClients()
+    return clients.some(client => client.type === 'connected')
+  },
+  isReadOnly() {
+    return true
+  },
+  isConcurrencySafe() {
+    return true
+  },
+  needsPermissions() {
+    return false
+  },
+  async validateInput({ server }) {
+    const clients = await getClients()
+    const client = clients.find(_ => _.name === server)
+    if (!client) {
+      return {
+        result: false,
+        message: `No MCP server found with name: ${server}. Available servers: ${clients.map(_ => _.name).join(', ')}`,
+      }
+    }
+    if (client.type === 'failed') {
+      return {
+        result: false,
+        message: `MCP server ${server} is not connected`,
+      }
+    }
+    return { result: true }
+  },
+  async *call({ server, uri }) {
+    const result = await readMCPResource(server, uri)
+    const data = { server, uri, content: formatMCPResourceContents(result) }
+    yield {
+      type: 'result',
+      data,
+      resultForAssistant: this.renderResultForAssistant(data),
+    }
+  },
+  renderResultForAssistant({ content }) {
+    return content || '(empty resource)'
+  },
+  renderToolUseMessage({ server, uri }) {
+    return `server: "${server}", uri: "${uri}"`
+  },
+  renderToolUseRejectedMessage() {
+    return <FallbackToolUseRejectedMessage />
+  },
+  renderToolResultMessage({ content }) {
+    const lines = content.split('\n').length
+    return (
+      <Box justifyContent="space-between" width="100%">
+        <Box flexDirection="row">
+          <Text>&nbsp;&nbsp;⎿ &nbsp;</Text>
+          <Text>
+            Read <Text bold>{lines}</Text> {lines === 1 ? 'line' : 'lines'}
+          </Text>
+          <Text color={getTheme().secondaryText}> ({content.length} chars)</Text>
+        </Box>
+      </Box>
+    )
+  },
+} satisfies Tool<typeof inputSchema, Output>
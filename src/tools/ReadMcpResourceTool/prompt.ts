@@ -0,0 +1,8 @@
+export const TOOL_NAME = 'ReadMcpResource'
+
+export const DESCRIPTION = 'Read a resource from a connected MCP server.'
+
+export const PROMPT = `Reads a resource from a connected MCP server, identified by the server name and the resource URI.
+
+- Use the ListMcpResources tool first to discover available resources
+- Text content is returned as-is; binary content is summarised with its type and size`
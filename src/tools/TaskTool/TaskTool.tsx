@@ -13,9 +13,9 @@ import { hasPermissionsToUseTool } from '@permissions'
 import { AssistantMessage, Message as MessageType, query } from '@query'
 import { formatDuration, formatNumber } from '@utils/format'
 import {
+  appendToTranscript,
   getMessagesPath,
   getNextAvailableLogSidechainNumber,
-  overwriteLog,
 } from '@utils/log'
 import { applyMarkdown } from '@utils/markdown'
 import {
@@ -33,6 +33,12 @@ import { debug as debugLogger } from '@utils/debugLogger'
 import { getTaskTools, getPrompt } from './prompt'
 import { TOOL_NAME } from './constants'
 import { getActiveAgents, getAgentByType, getAvailableAgentTypes } from '@utils/agentLoader'
+import {
+  createTaskWorktree,
+  finishTaskWorktree,
+  formatWorktreeReport,
+  runInWorktree,
+} from '@utils/worktree'
 
 const inputSchema = z.object({
   description: z
@@ -51,6 +57,12 @@ const inputSchema = z.object({
     .describe(
       'The type of specialized agent to use for this task',
     ),
+  isolation: z
+    .enum(['worktree'])
+    .optional()
+    .describe(
+      'Optional: set to "worktree" to run the agent in a separate git worktree, so its file changes do not affect the main working tree or other agents',
+    ),
 })
 
 export const TaskTool = {
@@ -66,11 +78,13 @@ export const TaskTool = {
   inputSchema,
   
   async *call(
-    { description, prompt, model_name, subagent_type },
+    { description, prompt, model_name, subagent_type, isolation },
     {
       abortController,
       options: { safeMode = false, forkNumber, messageLogName, verbose },
       readFileTimestamps,
+      toolUseMessageId,
+      confirmBudget,
     },
   ): AsyncGenerator<
     | { type: 'result'; data: TextBlock[]; resultForAssistant?: string }
@@ -88,6 +102,7 @@ export const TaskTool = {
     let effectiveModel = model_name || 'task'
     let toolFilter = null
     let temperature = undefined
+    let effectiveIsolation = isolation
     
     // Load agent configuration dynamically
     if (agentType) {
@@ -121,13 +136,39 @@ export const TaskTool = {
       
       // Store tool filter for later application
       toolFilter = agentConfig.tools
+
+      effectiveIsolation ??= agentConfig.isolation
       
       // Note: temperature is not currently in our agent configs
       // but could be added in the future
     }
     
+    // Generate unique Task ID for this task execution
+    const taskId = generateAgentId()
+
+    let taskWorktree: Awaited<ReturnType<typeof createTaskWorktree>> | null =
+      null
+    if (effectiveIsolation === 'worktree') {
+      try {
+        taskWorktree = await createTaskWorktree(taskId)
+      } catch (error) {
+        const message = `Could not create a worktree for this task: ${error instanceof Error ? error.message : String(error)}`
+        yield {
+          type: 'result',
+          data: [{ type: 'text', text: message }] as TextBlock[],
+          resultForAssistant: message,
+        }
+        return
+      }
+    }
+
     const messages: MessageType[] = [createUserMessage(effectivePrompt)]
-    let tools = await getTaskTools(safeMode)
+    // File edits are confined to the worktree (checkWriteScope refuses paths
+    // outside it, safe mode or not), so an isolated task gets the full tool
+    // set even in safe mode. Bash isn't confined: it still goes
+    // through the safe mode checks below, and with no one to prompt, runs only
+    // commands allowed by a rule or inside the sandbox.
+    let tools = await getTaskTools(safeMode && !taskWorktree)
     
     // Apply tool filtering if specified by subagent config
     if (toolFilter) {
@@ -164,6 +205,17 @@ export const TaskTool = {
       normalizedMessages: normalizeMessages(messages),
       tools,
     }
+
+    if (taskWorktree) {
+      yield {
+        type: 'progress',
+        content: createAssistantMessage(
+          `Worktree: ${taskWorktree.worktree.path}`,
+        ),
+        normalizedMessages: normalizeMessages(messages),
+        tools,
+      }
+    }
     
     yield {
       type: 'progress',
@@ -187,9 +239,6 @@ export const TaskTool = {
       getNextAvailableLogSidechainNumber(messageLogName, forkNumber),
     )
 
-    // Generate unique Task ID for this task execution
-    const taskId = generateAgentId()
-
     // 🔧 ULTRA SIMPLIFIED: Exact original AgentTool pattern
     // Build query options, adding temperature if specified
     const queryOptions = {
@@ -208,7 +257,7 @@ export const TaskTool = {
       queryOptions['temperature'] = temperature
     }
     
-    for await (const message of query(
+    const taskMessages = query(
       messages,
       taskPrompt,
       context,
@@ -219,14 +268,20 @@ export const TaskTool = {
         messageId: getLastAssistantMessageId(messages),
         agentId: taskId,
         readFileTimestamps,
+        confirmBudget,
         setToolJSX: () => {}, // No-op implementation for TaskTool
       },
-    )) {
+    )
+
+    for await (const message of taskWorktree
+      ? runInWorktree(taskWorktree.scope, taskMessages)
+      : taskMessages) {
       messages.push(message)
 
-      overwriteLog(
+      appendToTranscript(
         getMessagesPath(messageLogName, forkNumber, getSidechainNumber()),
         messages.filter(_ => _.type !== 'progress'),
+        { parentUuid: toolUseMessageId, isSidechain: true },
       )
 
       if (message.type !== 'assistant') {
@@ -287,6 +342,23 @@ export const TaskTool = {
       }
     }
 
+    // Report the worktree's changes back, including when interrupted, since
+    // the worktree stays around until the user decides what to do with it
+    let worktreeReport: string | null = null
+    let worktreeDiff = ''
+    if (taskWorktree) {
+      try {
+        const report = await finishTaskWorktree(
+          taskWorktree.worktree,
+          `Task: ${description}`,
+        )
+        worktreeReport = formatWorktreeReport(report)
+        worktreeDiff = report.diff
+      } catch (error) {
+        worktreeReport = `The task's changes are in the worktree ${taskWorktree.worktree.path}, but they could not be collected: ${error instanceof Error ? error.message : String(error)}`
+      }
+    }
+
     const normalizedMessages = normalizeMessages(messages)
     const lastMessage = last(messages)
     if (lastMessage?.type !== 'assistant') {
@@ -322,10 +394,15 @@ export const TaskTool = {
     // Output is an AssistantMessage, but since TaskTool is a tool, it needs
     // to serialize its response to UserMessage-compatible content.
     const data = lastMessage.message.content.filter(_ => _.type === 'text')
+    if (worktreeReport) {
+      data.push({ type: 'text', text: worktreeReport, citations: null })
+    }
     yield {
       type: 'result',
       data,
-      resultForAssistant: this.renderResultForAssistant(data),
+      resultForAssistant: worktreeDiff
+        ? `${this.renderResultForAssistant(data)}\n\n<diff>\n${worktreeDiff}\n</diff>`
+        : this.renderResultForAssistant(data),
     }
   },
 
@@ -397,7 +474,7 @@ export const TaskTool = {
   renderResultForAssistant(data: TextBlock[]) {
     return data.map(block => block.type === 'text' ? block.text : '').join('\n')
   },
-  renderToolUseMessage({ description, prompt, model_name, subagent_type }, { verbose }) {
+  renderToolUseMessage({ description, prompt, model_name, subagent_type, isolation }, { verbose }) {
     if (!description || !prompt) return null
 
     const modelManager = getModelManager()
@@ -406,6 +483,7 @@ export const TaskTool = {
     const agentType = subagent_type || 'general-purpose'
     const promptPreview =
       prompt.length > 80 ? prompt.substring(0, 80) + '...' : prompt
+    const isolationSuffix = isolation === 'worktree' ? ' (worktree)' : ''
 
     const theme = getTheme()
     
@@ -413,7 +491,7 @@ export const TaskTool = {
       return (
         <Box flexDirection="column">
           <Text>
-            [{agentType}] {actualModel}: {description}
+            [{agentType}] {actualModel}: {description}{isolationSuffix}
           </Text>
           <Box
             paddingLeft={2}
@@ -427,7 +505,7 @@ export const TaskTool = {
     }
 
     // Simple display: agent type, model and description
-    return `[${agentType}] ${actualModel}: ${description}`
+    return `[${agentType}] ${actualModel}: ${description}${isolationSuffix}`
   },
   renderToolUseRejectedMessage() {
     return <FallbackToolUseRejectedMessage />
@@ -53,6 +53,7 @@ Usage notes:
 4. The agent's outputs should generally be trusted
 5. Clearly tell the agent whether you expect it to write code or just to do research (search, file reads, web fetches, etc.), since it is not aware of the user's intent
 6. If the agent description mentions that it should be used proactively, then you should try your best to use it without the user having to ask for it first. Use your judgement.
+7. Set isolation to "worktree" when agents that edit files run in parallel, or when the changes should be reviewed before they reach the working tree. The agent then works in its own git worktree, and its diff is returned to you along with its report. The user decides whether to merge, keep or discard the worktree.
 
 Example usage:
 
@@ -1,13 +1,12 @@
 import { Box, Text } from 'ink'
 import React from 'react'
 import { z } from 'zod'
-import fetch from 'node-fetch'
 import { Cost } from '@components/Cost'
 import { FallbackToolUseRejectedMessage } from '@components/FallbackToolUseRejectedMessage'
 import { Tool, ToolUseContext } from '@tool'
 import { DESCRIPTION, TOOL_NAME_FOR_PROMPT } from './prompt'
-import { convertHtmlToMarkdown } from './htmlToMarkdown'
-import { urlCache } from './cache'
+import { fetchUrl } from './fetchUrl'
+import { getHostname, normalizeUrl } from './urls'
 import { queryQuick } from '@services/claude'
 
 const inputSchema = z.strictObject({
@@ -20,14 +19,8 @@ type Output = {
   url: string
   fromCache: boolean
   aiAnalysis: string
-}
-
-function normalizeUrl(url: string): string {
-  // Auto-upgrade HTTP to HTTPS
-  if (url.startsWith('http://')) {
-    return url.replace('http://', 'https://')
-  }
-  return url
+  // Set instead of aiAnalysis when the URL redirects to another host
+  redirect?: { url: string; status: number }
 }
 
 export const URLFetcherTool = {
@@ -43,7 +36,18 @@ export const URLFetcherTool = {
     return true
   },
   needsPermissions() {
-    return false
+    // Granted per domain; see getPermissionKey in permissions.ts
+    return true
+  },
+  async validateInput({ url }: Input) {
+    const { protocol } = new URL(url)
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      return {
+        result: false,
+        message: `Only http and https URLs can be fetched, not ${protocol}`,
+      }
+    }
+    return { result: true }
   },
   async prompt() {
     return DESCRIPTION
@@ -55,6 +59,14 @@ export const URLFetcherTool = {
     return <FallbackToolUseRejectedMessage />
   },
   renderToolResultMessage(output: Output) {
+    if (output.redirect) {
+      return (
+        <Box flexDirection="row">
+          <Text>&nbsp;&nbsp;⎿ &nbsp;Redirects to </Text>
+          <Text bold>{getHostname(output.redirect.url)}</Text>
+        </Box>
+      )
+    }
     const statusText = output.fromCache ? 'from cache' : 'fetched'
     
     return (
@@ -69,61 +81,41 @@ export const URLFetcherTool = {
     )
   },
   renderResultForAssistant(output: Output) {
+    if (output.redirect) {
+      return `REDIRECT DETECTED: The URL redirects to a different host.
+
+Original URL: ${output.url}
+Redirect URL: ${output.redirect.url}
+Status: ${output.redirect.status}
+
+To complete your request, fetch the redirect URL with a new ${TOOL_NAME_FOR_PROMPT} request.`
+    }
     if (!output.aiAnalysis.trim()) {
       return `No content could be analyzed from URL: ${output.url}`
     }
     
     return output.aiAnalysis
   },
-  async *call({ url, prompt }: Input, {}: ToolUseContext) {
+  async *call({ url, prompt }: Input, { abortController }: ToolUseContext) {
     const normalizedUrl = normalizeUrl(url)
     
     try {
-      let content: string
-      let fromCache = false
-
-      // Check cache first
-      const cachedContent = urlCache.get(normalizedUrl)
-      if (cachedContent) {
-        content = cachedContent
-        fromCache = true
-      } else {
-        // Fetch from URL with AbortController for timeout
-        const abortController = new AbortController()
-        const timeout = setTimeout(() => abortController.abort(), 30000)
-        
-        const response = await fetch(normalizedUrl, {
-          method: 'GET',
-          headers: {
-            'User-Agent': 'Mozilla/5.0 (compatible; URLFetcher/1.0)',
-            'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-            'Accept-Language': 'en-US,en;q=0.5',
-            'Accept-Encoding': 'gzip, deflate',
-            'Connection': 'keep-alive',
-            'Upgrade-Insecure-Requests': '1',
-          },
-          signal: abortController.signal,
-          redirect: 'follow',
-        })
-        
-        clearTimeout(timeout)
-
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+      const result = await fetchUrl(normalizedUrl, abortController.signal)
+      if (result.type === 'redirect') {
+        const output: Output = {
+          url: normalizedUrl,
+          fromCache: false,
+          aiAnalysis: '',
+          redirect: { url: result.redirectUrl, status: result.status },
         }
-
-        const contentType = response.headers.get('content-type') || ''
-        if (!contentType.includes('text/') && !contentType.includes('application/')) {
-          throw new Error(`Unsupported content type: ${contentType}`)
+        yield {
+          type: 'result' as const,
+          resultForAssistant: this.renderResultForAssistant(output),
+          data: output,
         }
-
-        const html = await response.text()
-        content = convertHtmlToMarkdown(html)
-        
-        // Cache the result
-        urlCache.set(normalizedUrl, content)
-        fromCache = false
+        return
       }
+      const { content, fromCache } = result
 
       // Truncate content if too large (keep within reasonable token limits)
       const maxContentLength = 50000 // ~15k tokens approximately
@@ -1,55 +1,102 @@
-interface CacheEntry {
+import { createHash } from 'crypto'
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'fs'
+import { join } from 'path'
+import { CACHE_PATHS, logError } from '@utils/log'
+
+export interface CacheEntry {
+  url: string
+  // Fetched content, already converted to text
   content: string
-  timestamp: number
+  contentType: string
+  etag?: string
+  lastModified?: string
+  // When the content was last fetched or revalidated
+  fetchedAt: number
 }
 
+/**
+ * Fetched pages on disk, one JSON file per URL, shared by all projects and
+ * sessions. Entries are served as is while fresh, then revalidated with their
+ * ETag or Last-Modified, and dropped once they are a week old.
+ */
 class URLCache {
-  private cache = new Map<string, CacheEntry>()
-  private readonly CACHE_DURATION = 15 * 60 * 1000 // 15 minutes in milliseconds
-
-  set(url: string, content: string): void {
-    this.cache.set(url, {
-      content,
-      timestamp: Date.now()
-    })
+  private readonly FRESH_DURATION = 15 * 60 * 1000 // 15 minutes
+  private readonly MAX_AGE = 7 * 24 * 60 * 60 * 1000 // 7 days
+  private pruned = false
+
+  constructor(private readonly dir: string) {}
+
+  private pathFor(url: string): string {
+    return join(
+      this.dir,
+      createHash('sha256').update(url).digest('hex') + '.json',
+    )
   }
 
-  get(url: string): string | null {
-    const entry = this.cache.get(url)
-    if (!entry) {
+  get(url: string): CacheEntry | null {
+    const path = this.pathFor(url)
+    if (!existsSync(path)) {
       return null
     }
-
-    // Check if entry has expired
-    if (Date.now() - entry.timestamp > this.CACHE_DURATION) {
-      this.cache.delete(url)
+    try {
+      const entry = JSON.parse(readFileSync(path, 'utf8')) as CacheEntry
+      if (entry.url !== url || Date.now() - entry.fetchedAt > this.MAX_AGE) {
+        rmSync(path, { force: true })
+        return null
+      }
+      return entry
+    } catch {
+      rmSync(path, { force: true })
       return null
     }
+  }
 
-    return entry.content
+  isFresh(entry: CacheEntry): boolean {
+    return Date.now() - entry.fetchedAt < this.FRESH_DURATION
   }
 
-  clear(): void {
-    this.cache.clear()
+  set(url: string, entry: Omit<CacheEntry, 'url' | 'fetchedAt'>): void {
+    try {
+      mkdirSync(this.dir, { recursive: true })
+      this.pruneExpired()
+      writeFileSync(
+        this.pathFor(url),
+        JSON.stringify({ ...entry, url, fetchedAt: Date.now() }),
+      )
+    } catch (error) {
+      logError(`Failed to cache ${url}: ${error}`)
+    }
+  }
+
+  // Marks an entry as current after the server confirmed it is unchanged
+  touch(entry: CacheEntry): void {
+    const { url, fetchedAt: _, ...rest } = entry
+    this.set(url, rest)
   }
 
-  // Clean expired entries
-  private cleanExpired(): void {
+  // Once per process, so stale pages don't pile up
+  private pruneExpired(): void {
+    if (this.pruned) {
+      return
+    }
+    this.pruned = true
     const now = Date.now()
-    for (const [url, entry] of this.cache.entries()) {
-      if (now - entry.timestamp > this.CACHE_DURATION) {
-        this.cache.delete(url)
+    for (const file of readdirSync(this.dir)) {
+      const path = join(this.dir, file)
+      if (now - statSync(path).mtimeMs > this.MAX_AGE) {
+        rmSync(path, { force: true })
       }
     }
   }
-
-  // Auto-clean expired entries every 5 minutes
-  constructor() {
-    setInterval(() => {
-      this.cleanExpired()
-    }, 5 * 60 * 1000) // 5 minutes
-  }
 }
 
 // Export singleton instance
-export const urlCache = new URLCache()
\ No newline at end of file
+export const urlCache = new URLCache(CACHE_PATHS.urlFetch())
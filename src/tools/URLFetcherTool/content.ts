@@ -0,0 +1,76 @@
+import { convertHtmlToMarkdown } from './htmlToMarkdown'
+import { extractPdfText } from './pdf'
+
+function getMimeType(contentType: string): string {
+  return contentType.split(';')[0]!.trim().toLowerCase()
+}
+
+function decodeText(body: Buffer, contentType: string): string {
+  const charset = contentType.match(/charset=["']?([^;"'\s]+)/i)?.[1]
+  try {
+    return new TextDecoder(charset ?? 'utf-8').decode(body)
+  } catch {
+    // Unknown charset
+    return new TextDecoder('utf-8').decode(body)
+  }
+}
+
+function isTextType(mimeType: string): boolean {
+  return (
+    mimeType.startsWith('text/') ||
+    mimeType.endsWith('+xml') ||
+    [
+      'application/xml',
+      'application/javascript',
+      'application/x-yaml',
+      'application/yaml',
+      'application/toml',
+    ].includes(mimeType)
+  )
+}
+
+function formatJson(text: string): string {
+  try {
+    return '```json\n' + JSON.stringify(JSON.parse(text), null, 2) + '\n```'
+  } catch {
+    // Served as JSON but isn't; pass it on as is
+    return text
+  }
+}
+
+/**
+ * Turns a response body into text for the model: HTML becomes markdown, JSON
+ * is pretty-printed, PDFs have their text extracted and other text is kept
+ * as is. Throws for binary content.
+ */
+export function convertResponseToText(
+  body: Buffer,
+  contentType: string,
+): string {
+  const mimeType = getMimeType(contentType)
+  const isPdf = body.subarray(0, 5).toString('latin1') === '%PDF-'
+
+  if (mimeType === 'application/pdf' || isPdf) {
+    return extractPdfText(body)
+  }
+  const text = decodeText(body, contentType)
+  if (mimeType === 'text/html' || mimeType === 'application/xhtml+xml') {
+    return convertHtmlToMarkdown(text)
+  }
+  if (mimeType === 'application/json' || mimeType.endsWith('+json')) {
+    return formatJson(text)
+  }
+  if (isTextType(mimeType)) {
+    return text
+  }
+  // Missing or generic types: sniff, and accept anything that isn't binary
+  if (!mimeType || mimeType === 'application/octet-stream') {
+    if (/^\s*(<!doctype html|<html)/i.test(text)) {
+      return convertHtmlToMarkdown(text)
+    }
+    if (!body.includes(0)) {
+      return text
+    }
+  }
+  throw new Error(`Unsupported content type: ${contentType || 'unknown'}`)
+}
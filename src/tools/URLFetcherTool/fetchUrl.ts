@@ -0,0 +1,127 @@
+import fetch, { type Response } from 'node-fetch'
+import { urlCache } from './cache'
+import { convertResponseToText } from './content'
+import { isAllowedByRobots, ROBOTS_USER_AGENT } from './robots'
+import { isPrivateHost, isSameHost, getHostname, normalizeUrl } from './urls'
+
+const MAX_RESPONSE_BYTES = 10 * 1024 * 1024 // 10MB
+const MAX_REDIRECTS = 10
+const FETCH_TIMEOUT_MS = 30000
+
+export type FetchResult =
+  | { type: 'content'; content: string; fromCache: boolean }
+  // A redirect to another host, which the model has to fetch itself
+  | { type: 'redirect'; redirectUrl: string; status: number }
+
+async function readBody(response: Response, url: string): Promise<Buffer> {
+  const tooLarge = () =>
+    new Error(
+      `Response from ${url} is larger than the ${MAX_RESPONSE_BYTES / 1024 / 1024}MB limit`,
+    )
+  if (Number(response.headers.get('content-length')) > MAX_RESPONSE_BYTES) {
+    throw tooLarge()
+  }
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of response.body ?? []) {
+    size += (chunk as Buffer).length
+    if (size > MAX_RESPONSE_BYTES) {
+      throw tooLarge()
+    }
+    chunks.push(chunk as Buffer)
+  }
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Fetches a URL as text, through the disk cache. Redirects are followed
+ * within the same host; a redirect to another host is returned instead, so
+ * fetching from it goes through its own permission check.
+ */
+export async function fetchUrl(
+  url: string,
+  signal: AbortSignal,
+): Promise<FetchResult> {
+  const cached = urlCache.get(url)
+  if (cached && urlCache.isFresh(cached)) {
+    return { type: 'content', content: cached.content, fromCache: true }
+  }
+
+  if (!isPrivateHost(getHostname(url)) && !(await isAllowedByRobots(url))) {
+    throw new Error(`Fetching ${url} is disallowed by the site's robots.txt`)
+  }
+
+  const abortController = new AbortController()
+  const abort = () => abortController.abort()
+  const timeout = setTimeout(abort, FETCH_TIMEOUT_MS)
+  signal.addEventListener('abort', abort)
+  try {
+    let currentUrl = url
+    for (let redirects = 0; ; redirects++) {
+      const headers: Record<string, string> = {
+        'User-Agent': `Mozilla/5.0 (compatible; ${ROBOTS_USER_AGENT}/1.0)`,
+        Accept:
+          'text/html,application/xhtml+xml,application/json,text/plain,application/pdf;q=0.9,*/*;q=0.8',
+        'Accept-Language': 'en-US,en;q=0.5',
+      }
+      // Revalidate a stale entry rather than downloading it again
+      if (currentUrl === url && cached?.etag) {
+        headers['If-None-Match'] = cached.etag
+      }
+      if (currentUrl === url && cached?.lastModified) {
+        headers['If-Modified-Since'] = cached.lastModified
+      }
+
+      const response = await fetch(currentUrl, {
+        headers,
+        signal: abortController.signal,
+        redirect: 'manual',
+      })
+
+      if (response.status === 304 && cached) {
+        urlCache.touch(cached)
+        return { type: 'content', content: cached.content, fromCache: true }
+      }
+
+      const location = response.headers.get('location')
+      if (response.status >= 300 && response.status < 400 && location) {
+        const redirectUrl = new URL(location, currentUrl)
+        if (!['http:', 'https:'].includes(redirectUrl.protocol)) {
+          throw new Error(`Refusing to follow a redirect to ${redirectUrl}`)
+        }
+        if (!isSameHost(currentUrl, redirectUrl.toString())) {
+          return {
+            type: 'redirect',
+            redirectUrl: redirectUrl.toString(),
+            status: response.status,
+          }
+        }
+        if (redirects >= MAX_REDIRECTS) {
+          throw new Error(`Too many redirects fetching ${url}`)
+        }
+        currentUrl = normalizeUrl(redirectUrl.toString())
+        continue
+      }
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+      }
+
+      const contentType = response.headers.get('content-type') ?? ''
+      const content = convertResponseToText(
+        await readBody(response, url),
+        contentType,
+      )
+      urlCache.set(url, {
+        content,
+        contentType,
+        etag: response.headers.get('etag') ?? undefined,
+        lastModified: response.headers.get('last-modified') ?? undefined,
+      })
+      return { type: 'content', content, fromCache: false }
+    }
+  } finally {
+    clearTimeout(timeout)
+    signal.removeEventListener('abort', abort)
+  }
+}
@@ -0,0 +1,189 @@
+import { inflateSync } from 'zlib'
+
+/**
+ * Best-effort text extraction from PDFs, without a PDF library. Content
+ * streams are inflated and the strings drawn by text operators collected.
+ * Fonts with custom encodings and scanned pages yield little or nothing; the
+ * caller reports that rather than passing garbage on.
+ */
+
+function getStreams(pdf: string): string[] {
+  const streams: string[] = []
+  const streamPattern = /stream\r?\n/g
+  let match: RegExpExecArray | null
+  while ((match = streamPattern.exec(pdf))) {
+    if (pdf.slice(match.index - 3, match.index) === 'end') {
+      continue
+    }
+    const start = match.index + match[0].length
+    const end = pdf.indexOf('endstream', start)
+    if (end === -1) {
+      break
+    }
+    // The stream's dictionary sits between the object header and `stream`
+    const dictionary = pdf.slice(
+      pdf.lastIndexOf(' obj', match.index),
+      match.index,
+    )
+    const data = Buffer.from(pdf.slice(start, end), 'latin1')
+    if (/\/Subtype\s*\/Image|\/Length1|\/FontFile/.test(dictionary)) {
+      // Images and embedded fonts
+    } else if (dictionary.includes('/FlateDecode')) {
+      try {
+        streams.push(inflateSync(data).toString('latin1'))
+      } catch {
+        // Damaged or truncated; skip it
+      }
+    } else if (!dictionary.includes('/Filter')) {
+      streams.push(data.toString('latin1'))
+    }
+    streamPattern.lastIndex = end
+  }
+  return streams
+}
+
+const ESCAPES: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  b: '\b',
+  f: '\f',
+}
+
+// A `(...)` string starting at `start`; returns its text and where it ends
+function readLiteralString(
+  content: string,
+  start: number,
+): [text: string, end: number] {
+  let text = ''
+  let depth = 0
+  let i = start
+  for (; i < content.length; i++) {
+    const char = content[i]!
+    if (char === '\\') {
+      const next = content[++i] ?? ''
+      if (/[0-7]/.test(next)) {
+        const octal = content.slice(i, i + 3).match(/^[0-7]{1,3}/)![0]
+        text += String.fromCharCode(parseInt(octal, 8))
+        i += octal.length - 1
+      } else if (next !== '\n' && next !== '\r') {
+        text += ESCAPES[next] ?? next
+      }
+    } else if (char === '(') {
+      if (depth++ > 0) text += char
+    } else if (char === ')') {
+      if (--depth === 0) break
+      text += char
+    } else {
+      text += char
+    }
+  }
+  return [text, i + 1]
+}
+
+function decodeHexString(hex: string): string {
+  const bytes = Buffer.from(
+    hex.replace(/\s/g, '').padEnd(Math.ceil(hex.length / 2) * 2, '0'),
+    'hex',
+  )
+  // Two-byte strings with a zero high byte are usually UTF-16
+  if (
+    bytes.length >= 2 &&
+    bytes.length % 2 === 0 &&
+    bytes.every((byte, i) => i % 2 === 1 || byte === 0)
+  ) {
+    return bytes.swap16().toString('utf16le')
+  }
+  return bytes.toString('latin1')
+}
+
+function extractText(content: string): string {
+  let text = ''
+  let operands: (string | number)[] = []
+  let inArray = false
+  let i = 0
+  while (i < content.length) {
+    const char = content[i]!
+    if (char === '(') {
+      const [value, end] = readLiteralString(content, i)
+      operands.push(value)
+      i = end
+    } else if (char === '<' && content[i + 1] === '<') {
+      // Dictionaries, as in marked content; nothing to extract
+      i += 2
+    } else if (char === '<') {
+      const end = content.indexOf('>', i)
+      if (end === -1) {
+        break
+      }
+      operands.push(decodeHexString(content.slice(i + 1, end)))
+      i = end + 1
+    } else if (char === '[') {
+      inArray = true
+      i++
+    } else if (char === ']') {
+      inArray = false
+      i++
+    } else if (/[-+.\d]/.test(char)) {
+      const number = content.slice(i).match(/^[-+]?\d*\.?\d+/)?.[0] ?? char
+      operands.push(Number(number))
+      i += number.length
+    } else if (/[A-Za-z'"*]/.test(char)) {
+      const operator = content.slice(i).match(/^[A-Za-z'"*]+/)![0]
+      i += operator.length
+      if (inArray) {
+        continue
+      }
+      switch (operator) {
+        case 'Tj':
+          text += operands.filter(_ => typeof _ === 'string').join('')
+          break
+        case 'TJ':
+          for (const operand of operands) {
+            // Large negative kerning is how many PDFs draw a space
+            text +=
+              typeof operand === 'string' ? operand : operand < -200 ? ' ' : ''
+          }
+          break
+        case "'":
+        case '"':
+          text += '\n' + operands.filter(_ => typeof _ === 'string').join('')
+          break
+        case 'Td':
+        case 'TD':
+          text += operands[1] !== 0 ? '\n' : ' '
+          break
+        case 'T*':
+        case 'Tm':
+        case 'ET':
+          text += '\n'
+          break
+      }
+      operands = []
+    } else {
+      i++
+    }
+  }
+  return text
+}
+
+export function extractPdfText(data: Buffer): string {
+  const pdf = data.toString('latin1')
+  if (!pdf.startsWith('%PDF-')) {
+    throw new Error('Not a PDF file')
+  }
+  const text = getStreams(pdf)
+    .filter(stream => /\bBT\b/.test(stream))
+    .map(extractText)
+    .join('\n')
+    .replace(/[^\S\n]+/g, ' ')
+    .replace(/ ?\n ?/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+  if (text.replace(/\s/g, '').length < 20) {
+    throw new Error(
+      'No text could be extracted from this PDF. It may be scanned, or use fonts without a text mapping.',
+    )
+  }
+  return text
+}
@@ -1,7 +1,7 @@
 export const TOOL_NAME_FOR_PROMPT = 'URLFetcher'
 export const DESCRIPTION = `- Fetches content from a specified URL and processes it using an AI model
 - Takes a URL and a prompt as input
-- Fetches the URL content, converts HTML to markdown
+- Fetches the URL content, converting HTML to markdown, pretty-printing JSON and extracting the text of PDFs
 - Processes the content with the prompt using a small, fast model
 - Returns the model's response about the content
 - Use this tool when you need to retrieve and analyze web content
@@ -9,9 +9,10 @@ export const DESCRIPTION = `- Fetches content from a specified URL and processes
 Usage notes:
 - IMPORTANT: If an MCP-provided web fetch tool is available, prefer using that tool instead of this one, as it may have fewer restrictions. All MCP-provided tools start with "mcp__".
 - The URL must be a fully-formed valid URL (e.g., https://example.com)
-- HTTP URLs will be automatically upgraded to HTTPS
+- HTTP URLs will be automatically upgraded to HTTPS, except for localhost and private network addresses
 - The prompt should describe what information you want to extract from the page
 - This tool is read-only and does not modify any files
 - Results may be summarized if the content is very large
-- Includes a self-cleaning 15-minute cache for faster responses when repeatedly accessing the same URL
+- Responses are cached on disk; a page fetched in the last 15 minutes is reused, and older ones are only downloaded again if they changed
+- Responses over 10MB and pages disallowed by the site's robots.txt are refused
 - When a URL redirects, the tool will inform you and provide the redirect URL in a special format. You should then make a new URLFetcher request with the redirect URL to fetch the content.`
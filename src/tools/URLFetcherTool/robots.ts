@@ -0,0 +1,97 @@
+import { memoize } from 'lodash-es'
+import fetch from 'node-fetch'
+
+// Matched against User-agent lines, case-insensitively
+export const ROBOTS_USER_AGENT = 'URLFetcher'
+
+const ROBOTS_TIMEOUT_MS = 5000
+
+type RobotsRule = { allow: boolean; pattern: string }
+
+function parseRobotsTxt(text: string): RobotsRule[] {
+  const groups: { agents: string[]; rules: RobotsRule[] }[] = []
+  let current: { agents: string[]; rules: RobotsRule[] } | undefined
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*/, '').trim()
+    const separator = line.indexOf(':')
+    if (separator === -1) {
+      continue
+    }
+    const field = line.slice(0, separator).trim().toLowerCase()
+    const value = line.slice(separator + 1).trim()
+    if (field === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      if (!current || current.rules.length > 0) {
+        current = { agents: [], rules: [] }
+        groups.push(current)
+      }
+      current.agents.push(value.toLowerCase())
+    } else if ((field === 'allow' || field === 'disallow') && current) {
+      // An empty Disallow allows everything
+      if (value) {
+        current.rules.push({ allow: field === 'allow', pattern: value })
+      }
+    }
+  }
+
+  const agent = ROBOTS_USER_AGENT.toLowerCase()
+  const ownGroups = groups.filter(group =>
+    group.agents.some(name => name !== '*' && agent.includes(name)),
+  )
+  return (
+    ownGroups.length > 0
+      ? ownGroups
+      : groups.filter(group => group.agents.includes('*'))
+  ).flatMap(group => group.rules)
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$')
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+  return new RegExp(`^${body}${anchored ? '$' : ''}`)
+}
+
+// Per origin for the session. Anything but a readable robots.txt allows all.
+const getRobotsRules = memoize(
+  async (origin: string): Promise<RobotsRule[]> => {
+    const abortController = new AbortController()
+    const timeout = setTimeout(() => abortController.abort(), ROBOTS_TIMEOUT_MS)
+    try {
+      const response = await fetch(`${origin}/robots.txt`, {
+        headers: {
+          'User-Agent': `Mozilla/5.0 (compatible; ${ROBOTS_USER_AGENT}/1.0)`,
+        },
+        signal: abortController.signal,
+      })
+      return response.ok ? parseRobotsTxt(await response.text()) : []
+    } catch {
+      return []
+    } finally {
+      clearTimeout(timeout)
+    }
+  },
+)
+
+/**
+ * Whether the site's robots.txt lets us fetch `url`. The longest matching
+ * rule wins, and Allow wins a tie.
+ */
+export async function isAllowedByRobots(url: string): Promise<boolean> {
+  const { origin, pathname, search } = new URL(url)
+  const path = pathname + search
+  let best: RobotsRule | undefined
+  for (const rule of await getRobotsRules(origin)) {
+    if (
+      patternToRegExp(rule.pattern).test(path) &&
+      (!best ||
+        rule.pattern.length > best.pattern.length ||
+        (rule.pattern.length === best.pattern.length && rule.allow))
+    ) {
+      best = rule
+    }
+  }
+  return best?.allow ?? true
+}
@@ -0,0 +1,70 @@
+import { isIPv4, isIPv6 } from 'net'
+
+function stripBrackets(hostname: string): string {
+  return hostname.replace(/^\[|\]$/g, '').toLowerCase()
+}
+
+function isPrivateIPv4(address: string): boolean {
+  const [a = 0, b = 0] = address.split('.').map(Number)
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168)
+  )
+}
+
+/**
+ * Whether a host is this machine or on the local network: localhost,
+ * loopback, private and link-local addresses
+ */
+export function isPrivateHost(hostname: string): boolean {
+  const host = stripBrackets(hostname)
+  if (
+    host === 'localhost' ||
+    host.endsWith('.localhost') ||
+    host.endsWith('.local')
+  ) {
+    return true
+  }
+  if (isIPv4(host)) {
+    return isPrivateIPv4(host)
+  }
+  if (isIPv6(host)) {
+    const mappedIPv4 = host.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+    if (mappedIPv4) {
+      return isPrivateIPv4(mappedIPv4[1]!)
+    }
+    return (
+      host === '::' ||
+      host === '::1' ||
+      /^f[cd]/.test(host) ||
+      /^fe[89ab]/.test(host)
+    )
+  }
+  return false
+}
+
+/**
+ * Upgrades http to https, except for private hosts, which commonly serve
+ * docs and dev servers over plain http
+ */
+export function normalizeUrl(url: string): string {
+  const parsed = new URL(url)
+  if (parsed.protocol === 'http:' && !isPrivateHost(parsed.hostname)) {
+    parsed.protocol = 'https:'
+  }
+  return parsed.toString()
+}
+
+export function getHostname(url: string): string {
+  return stripBrackets(new URL(url).hostname)
+}
+
+// `www.example.com` and `example.com` count as the same host
+export function isSameHost(a: string, b: string): boolean {
+  const host = (url: string) => getHostname(url).replace(/^www\./, '')
+  return host(a) === host(b)
+}
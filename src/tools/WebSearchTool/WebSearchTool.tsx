@@ -5,15 +5,37 @@ import { Cost } from '@components/Cost'
 import { FallbackToolUseRejectedMessage } from '@components/FallbackToolUseRejectedMessage'
 import { Tool, ToolUseContext } from '@tool'
 import { DESCRIPTION, TOOL_NAME_FOR_PROMPT } from './prompt'
-import { SearchResult, searchProviders } from './searchProviders'
+import { SearchResult, searchWithFailover } from './searchProviders'
+
+const DEFAULT_RESULT_COUNT = 10
+const MAX_RESULT_COUNT = 20
 
 const inputSchema = z.strictObject({
-  query: z.string().describe('The search query'),
+  query: z.string().min(2).describe('The search query'),
+  allowed_domains: z
+    .array(z.string())
+    .optional()
+    .describe('Only include results from these domains'),
+  blocked_domains: z
+    .array(z.string())
+    .optional()
+    .describe('Never include results from these domains'),
+  count: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_RESULT_COUNT)
+    .optional()
+    .describe(
+      `How many results to return (default ${DEFAULT_RESULT_COUNT}, at most ${MAX_RESULT_COUNT})`,
+    ),
 })
 
 type Input = z.infer<typeof inputSchema>
 type Output = {
   durationMs: number
+  // Display name of the provider that answered, if any did
+  provider?: string
   results: SearchResult[]
 }
 
@@ -36,8 +58,24 @@ export const WebSearchTool = {
   async prompt() {
     return DESCRIPTION
   },
-  renderToolUseMessage({ query }: Input) {
-    return `Searching for: "${query}" using DuckDuckGo`
+  async validateInput({ allowed_domains, blocked_domains }: Input) {
+    if (allowed_domains?.length && blocked_domains?.length) {
+      return {
+        result: false,
+        message:
+          'Cannot specify both allowed_domains and blocked_domains in the same request',
+      }
+    }
+    return { result: true }
+  },
+  renderToolUseMessage({ query, allowed_domains, blocked_domains }: Input) {
+    if (allowed_domains?.length) {
+      return `Searching for: "${query}", only ${allowed_domains.join(', ')}`
+    }
+    if (blocked_domains?.length) {
+      return `Searching for: "${query}", excluding ${blocked_domains.join(', ')}`
+    }
+    return `Searching for: "${query}"`
   },
   renderToolUseRejectedMessage() {
     return <FallbackToolUseRejectedMessage />
@@ -49,7 +87,8 @@ export const WebSearchTool = {
           <Text>&nbsp;&nbsp;⎿ &nbsp;Found </Text>
           <Text bold>{output.results.length} </Text>
           <Text>
-            {output.results.length === 1 ? 'result' : 'results'} using DuckDuckGo
+            {output.results.length === 1 ? 'result' : 'results'}
+            {output.provider ? ` using ${output.provider}` : ''}
           </Text>
         </Box>
         <Cost costUSD={0} durationMs={output.durationMs} debug={false} />
@@ -58,10 +97,10 @@ export const WebSearchTool = {
   },
   renderResultForAssistant(output: Output) {
     if (output.results.length === 0) {
-      return `No results found using DuckDuckGo.`
+      return `No results found using ${output.provider}.`
     }
     
-    let result = `Found ${output.results.length} search results using DuckDuckGo:\n\n`
+    let result = `Found ${output.results.length} search results using ${output.provider}:\n\n`
     
     output.results.forEach((item, index) => {
       result += `${index + 1}. **${item.title}**\n`
@@ -72,14 +111,23 @@ export const WebSearchTool = {
     result += `You can reference these results to provide current, accurate information to the user.`
     return result
   },
-  async *call({ query }: Input, {}: ToolUseContext) {
+  async *call(
+    { query, allowed_domains, blocked_domains, count }: Input,
+    { abortController }: ToolUseContext,
+  ) {
     const start = Date.now()
 
     try {
-      const searchResults = await searchProviders.duckduckgo.search(query)
+      const { provider, results } = await searchWithFailover(query, {
+        count: count ?? DEFAULT_RESULT_COUNT,
+        allowedDomains: allowed_domains,
+        blockedDomains: blocked_domains,
+        signal: abortController.signal,
+      })
       
       const output: Output = {
-        results: searchResults,
+        results,
+        provider: provider.displayName,
         durationMs: Date.now() - start,
       }
 
@@ -95,7 +143,7 @@ export const WebSearchTool = {
       }
       yield {
         type: 'result' as const,
-        resultForAssistant: `An error occurred during web search with DuckDuckGo: ${error.message}`,
+        resultForAssistant: `An error occurred during web search: ${error.message}`,
         data: output,
       }
     }
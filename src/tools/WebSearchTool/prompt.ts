@@ -4,10 +4,12 @@ export const DESCRIPTION = `- Allows cougar to search the web and use the result
 - Provides up-to-date information for current events and recent data
 - Returns search result information formatted as search result blocks
 - Use this tool for accessing information beyond the cougar's knowledge cutoff
-- Searches are performed automatically within a single API call using DuckDuckGo
+- Searches go to the configured providers (SearXNG, Brave Search, Tavily or DuckDuckGo), falling back to the next one if a provider fails
 
 Usage notes:
 - Use when you need current information not in training data
 - Effective for recent news, current events, product updates, or real-time data
 - Search queries should be specific and well-targeted for best results
-- Results include both title and snippet content for context`
+- Results include both title and snippet content for context
+- Use allowed_domains to only get results from specific sites, or blocked_domains to leave sites out (not both)
+- Use count to ask for more or fewer results (default 10, at most 20)`
@@ -1,5 +1,10 @@
 import fetch from 'node-fetch'
 import { parse } from 'node-html-parser'
+import {
+  getGlobalConfig,
+  type GlobalConfig,
+  type SearchProviderName,
+} from '@utils/config'
 
 export interface SearchResult {
   title: string
@@ -7,19 +12,172 @@ export interface SearchResult {
   link: string
 }
 
+export interface SearchOptions {
+  count: number
+  allowedDomains?: string[]
+  blockedDomains?: string[]
+  signal?: AbortSignal
+}
+
 export interface SearchProvider {
-  search: (query: string, apiKey?: string) => Promise<SearchResult[]>
-  isEnabled: (apiKey?: string) => boolean
+  name: SearchProviderName
+  displayName: string
+  // Whether the config has what the provider needs, such as an API key
+  isConfigured: (config: GlobalConfig) => boolean
+  search: (
+    query: string,
+    options: SearchOptions,
+    config: GlobalConfig,
+  ) => Promise<SearchResult[]>
+}
+
+const REQUEST_TIMEOUT_MS = 15000
+
+// The parts of each API's response that are used
+type SearxngResponse = {
+  results?: { title?: string; content?: string; url?: string }[]
+}
+type BraveResponse = {
+  web?: { results?: { title?: string; description?: string; url?: string }[] }
+}
+type TavilyResponse = {
+  results?: { title?: string; content?: string; url?: string }[]
+}
+
+async function fetchJSON(
+  url: string,
+  init: { method?: string; headers?: Record<string, string>; body?: string },
+  signal: AbortSignal | undefined,
+  providerName: string,
+): Promise<unknown> {
+  const abortController = new AbortController()
+  const abort = () => abortController.abort()
+  const timeout = setTimeout(abort, REQUEST_TIMEOUT_MS)
+  signal?.addEventListener('abort', abort)
+  try {
+    const response = await fetch(url, {
+      ...init,
+      headers: { Accept: 'application/json', ...init.headers },
+      signal: abortController.signal,
+    })
+    if (!response.ok) {
+      throw new Error(
+        `${providerName} search failed with status: ${response.status}`,
+      )
+    }
+    return await response.json()
+  } finally {
+    clearTimeout(timeout)
+    signal?.removeEventListener('abort', abort)
+  }
 }
 
+function stripTags(text: string): string {
+  return parse(text).text.trim()
+}
+
+// `site:` operators for engines that take them in the query
+function withSiteOperators(query: string, options: SearchOptions): string {
+  const allowed = options.allowedDomains ?? []
+  const blocked = options.blockedDomains ?? []
+  return [
+    query,
+    allowed.length > 0
+      ? `(${allowed.map(domain => `site:${domain}`).join(' OR ')})`
+      : '',
+    ...blocked.map(domain => `-site:${domain}`),
+  ]
+    .filter(Boolean)
+    .join(' ')
+}
 
+const searxngSearchProvider: SearchProvider = {
+  name: 'searxng',
+  displayName: 'SearXNG',
+  isConfigured: config => Boolean(config.searxngUrl),
+  search: async (query, options, config) => {
+    const url = new URL('search', config.searxngUrl!.replace(/\/?$/, '/'))
+    url.searchParams.set('q', withSiteOperators(query, options))
+    url.searchParams.set('format', 'json')
+    const data = (await fetchJSON(
+      url.toString(),
+      {},
+      options.signal,
+      'SearXNG',
+    )) as SearxngResponse
+    return (data.results ?? []).map(result => ({
+      title: String(result.title ?? '').trim(),
+      snippet: String(result.content ?? '').trim(),
+      link: String(result.url ?? ''),
+    }))
+  },
+}
+
+const braveSearchProvider: SearchProvider = {
+  name: 'brave',
+  displayName: 'Brave Search',
+  isConfigured: config => Boolean(config.braveSearchApiKey),
+  search: async (query, options, config) => {
+    const url = new URL('https://api.search.brave.com/res/v1/web/search')
+    url.searchParams.set('q', withSiteOperators(query, options))
+    // The API returns at most 20 results per request
+    url.searchParams.set('count', String(Math.min(options.count, 20)))
+    const data = (await fetchJSON(
+      url.toString(),
+      { headers: { 'X-Subscription-Token': config.braveSearchApiKey! } },
+      options.signal,
+      'Brave',
+    )) as BraveResponse
+    return (data.web?.results ?? []).map(result => ({
+      title: stripTags(String(result.title ?? '')),
+      snippet: stripTags(String(result.description ?? '')),
+      link: String(result.url ?? ''),
+    }))
+  },
+}
+
+const tavilySearchProvider: SearchProvider = {
+  name: 'tavily',
+  displayName: 'Tavily',
+  isConfigured: config => Boolean(config.tavilyApiKey),
+  search: async (query, options, config) => {
+    const data = (await fetchJSON(
+      'https://api.tavily.com/search',
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${config.tavilyApiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          query,
+          max_results: Math.min(options.count, 20),
+          include_domains: options.allowedDomains,
+          exclude_domains: options.blockedDomains,
+        }),
+      },
+      options.signal,
+      'Tavily',
+    )) as TavilyResponse
+    return (data.results ?? []).map(result => ({
+      title: String(result.title ?? '').trim(),
+      snippet: String(result.content ?? '').trim(),
+      link: String(result.url ?? ''),
+    }))
+  },
+}
+
+// Needs no setup, so it stands in when nothing else is configured
 const duckDuckGoSearchProvider: SearchProvider = {
-  isEnabled: () => true,
-  search: async (query: string): Promise<SearchResult[]> => {
-    const response = await fetch(`https://html.duckduckgo.com/html/?q=${encodeURIComponent(query)}`, {
+  name: 'duckduckgo',
+  displayName: 'DuckDuckGo',
+  isConfigured: () => true,
+  search: async (query, options) => {
+    const response = await fetch(`https://html.duckduckgo.com/html/?q=${encodeURIComponent(withSiteOperators(query, options))}`, {
         headers: {
             'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-        }
+        },
+        signal: options.signal,
     });
 
     if (!response.ok) {
@@ -61,6 +219,86 @@ const duckDuckGoSearchProvider: SearchProvider = {
   },
 }
 
-export const searchProviders = {
+export const searchProviders: Record<SearchProviderName, SearchProvider> = {
+  searxng: searxngSearchProvider,
+  brave: braveSearchProvider,
+  tavily: tavilySearchProvider,
   duckduckgo: duckDuckGoSearchProvider,
 }
+
+/**
+ * Providers to try, in order: webSearchProviders when set, otherwise every
+ * configured provider with DuckDuckGo last
+ */
+export function getSearchProviders(
+  config: GlobalConfig = getGlobalConfig(),
+): SearchProvider[] {
+  const names = config.webSearchProviders?.length
+    ? config.webSearchProviders
+    : (Object.keys(searchProviders) as SearchProviderName[])
+  return names
+    .map(name => searchProviders[name])
+    .filter(provider => provider?.isConfigured(config))
+}
+
+function matchesDomain(link: string, domains: string[]): boolean {
+  let hostname: string
+  try {
+    hostname = new URL(link).hostname.toLowerCase()
+  } catch {
+    return false
+  }
+  return domains.some(domain => {
+    const normalized = domain.toLowerCase().replace(/^\*?\./, '')
+    return hostname === normalized || hostname.endsWith(`.${normalized}`)
+  })
+}
+
+// Engines treat `site:` as a hint, so results are checked again here
+function filterResults(
+  results: SearchResult[],
+  options: SearchOptions,
+): SearchResult[] {
+  return results
+    .filter(
+      result =>
+        (!options.allowedDomains?.length ||
+          matchesDomain(result.link, options.allowedDomains)) &&
+        (!options.blockedDomains?.length ||
+          !matchesDomain(result.link, options.blockedDomains)),
+    )
+    .slice(0, options.count)
+}
+
+/**
+ * Searches with the first provider that answers, moving on to the next one
+ * when a provider fails. Throws with every provider's error when none do.
+ */
+export async function searchWithFailover(
+  query: string,
+  options: SearchOptions,
+): Promise<{ provider: SearchProvider; results: SearchResult[] }> {
+  const config = getGlobalConfig()
+  const providers = getSearchProviders(config)
+  if (providers.length === 0) {
+    throw new Error(
+      `No web search provider is configured. Set searxngUrl, braveSearchApiKey or tavilyApiKey, or add duckduckgo to webSearchProviders.`,
+    )
+  }
+
+  const errors: string[] = []
+  for (const provider of providers) {
+    try {
+      const results = await provider.search(query, options, config)
+      return { provider, results: filterResults(results, options) }
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw error
+      }
+      errors.push(
+        `${provider.displayName}: ${error instanceof Error ? error.message : String(error)}`,
+      )
+    }
+  }
+  throw new Error(`Web search failed. ${errors.join('; ')}`)
+}
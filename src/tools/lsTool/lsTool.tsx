@@ -9,7 +9,7 @@ import { logError } from '@utils/log'
 import { getCwd } from '@utils/state'
 import { getTheme } from '@utils/theme'
 import { DESCRIPTION } from './prompt'
-import { hasReadPermission } from '@utils/permissions/filesystem'
+import { needsReadPermission } from '@utils/permissions/filesystem'
 
 const MAX_LINES = 5
 const MAX_FILES = 1000
@@ -43,7 +43,7 @@ export const LSTool = {
     return true // LSTool is read-only, safe for concurrent execution
   },
   needsPermissions({ path }) {
-    return !hasReadPermission(path)
+    return needsReadPermission(path)
   },
   async prompt() {
     return DESCRIPTION
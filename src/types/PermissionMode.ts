@@ -69,15 +69,17 @@ export const MODE_CONFIGS: Record<PermissionMode, ModeConfig> = {
     icon: '📝',
     color: 'yellow',
     description: 'Research and planning - read-only tools only',
+    // Tools that are always usable in plan mode; any other tool must also
+    // report isReadOnly() to run while restrictions.readOnly is set
     allowedTools: [
-      'Read',
-      'Grep',
-      'Glob',
+      'View',
+      'GrepTool',
+      'GlobTool',
       'LS',
       'WebSearch',
-      'WebFetch',
-      'NotebookRead',
-      'exit_plan_mode',
+      'URLFetcher',
+      'ReadNotebook',
+      'ExitPlanMode',
     ],
     restrictions: {
       readOnly: true,
@@ -5,11 +5,15 @@ import { UUID } from 'crypto'
 
 /**
  * Serialized message structure stored in log files
- * Based on how messages are serialized and deserialized in log.ts
+ * One line of a JSONL transcript written by appendToTranscript in log.ts
  */
 export interface SerializedMessage {
   type: 'user' | 'assistant' | 'progress'
   uuid: UUID
+  // The message before this one in its conversation, or for the first
+  // message of a sidechain, the assistant message that started it
+  parentUuid?: UUID | null
+  isSidechain?: boolean
   message?: {
     content: string | Array<{ type: string; text?: string }>
     role: 'user' | 'assistant' | 'system'
@@ -2,7 +2,11 @@
 export interface ModelCapabilities {
   // API architecture type
   apiArchitecture: {
-    primary: 'chat_completions' | 'responses_api'
+    primary:
+      | 'chat_completions'
+      | 'responses_api'
+      | 'gemini_generate_content'
+      | 'ollama_chat'
     fallback?: 'chat_completions'  // Responses API models can fallback
   }
   
@@ -62,6 +66,7 @@ export interface UnifiedRequestParams {
   previousResponseId?: string
   reasoningEffort?: 'minimal' | 'low' | 'medium' | 'high'
   reasoning?: ReasoningConfig  // Full reasoning config
+  maxThinkingTokens?: number  // Thinking budget, where the API takes one
   verbosity?: 'low' | 'medium' | 'high'
   temperature?: number
   allowedTools?: string[]
@@ -76,6 +81,7 @@ export interface UnifiedResponse {
     promptTokens: number
     completionTokens: number
     reasoningTokens?: number
+    cacheReadTokens?: number
   }
   responseId?: string  // For Responses API state management
 }
\ No newline at end of file
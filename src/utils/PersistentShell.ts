@@ -7,6 +7,7 @@ import { isAbsolute, resolve, join } from 'path'
 import { logError } from './log'
 import * as os from 'os'
 import { PRODUCT_COMMAND } from '@constants/product'
+import { isSandboxActive, wrapInSandbox } from './sandbox'
 
 type ExecResult = {
   stdout: string
@@ -36,7 +37,7 @@ const SHELL_CONFIGS: Record<string, string> = {
   '/bin/zsh': '.zshrc',
 }
 
-type DetectedShell = {
+export type DetectedShell = {
   bin: string
   args: string[]
   type: 'posix' | 'msys' | 'wsl'
@@ -121,7 +122,7 @@ function splitPathEntries(pathEnv: string, platform: NodeJS.Platform): string[]
   return entries
 }
 
-function detectShell(): DetectedShell {
+export function detectShell(): DetectedShell {
   const isWin = process.platform === 'win32'
   if (!isWin) {
     const bin = process.env.SHELL || '/bin/bash'
@@ -213,14 +214,22 @@ export class PersistentShell {
   private stdoutFileBashPath: string
   private stderrFileBashPath: string
   private cwdFileBashPath: string
+  // Whether the shell runs inside the bubblewrap sandbox
+  readonly sandboxed: boolean
 
-  constructor(cwd: string) {
+  // projectCwd is the project whose sandbox settings apply, when the shell
+  // starts elsewhere (a task worktree)
+  constructor(cwd: string, projectCwd: string = cwd) {
     const { bin, args, type } = detectShell()
     this.binShell = bin
     this.shellArgs = args
     this.shellType = type
+    this.sandboxed = isSandboxActive(projectCwd)
 
-    this.shell = spawn(this.binShell, this.shellArgs, {
+    const command = this.sandboxed
+      ? wrapInSandbox(this.binShell, this.shellArgs, cwd, projectCwd)
+      : { bin: this.binShell, args: this.shellArgs }
+    this.shell = spawn(command.bin, command.args, {
       stdio: ['pipe', 'pipe', 'pipe'],
       cwd,
       env: {
@@ -303,8 +312,26 @@ export class PersistentShell {
     return PersistentShell.instance
   }
 
+  // In the sandbox, the shell runs below bwrap's own processes. The shell is
+  // the oldest child at each level, started before the network bridge.
+  private getShellPid(): number | undefined {
+    let pid = this.shell.pid
+    try {
+      while (
+        pid &&
+        this.sandboxed &&
+        fs.readFileSync(`/proc/${pid}/comm`, 'utf8').trim() === 'bwrap'
+      ) {
+        pid = Number(execSync(`pgrep -o -P ${pid}`).toString().trim()) || undefined
+      }
+    } catch {
+      // The process tree changed while walking it
+    }
+    return pid
+  }
+
   killChildren() {
-    const parentPid = this.shell.pid
+    const parentPid = this.getShellPid()
     try {
       const childPids = execSync(`pgrep -P ${parentPid}`)
         .toString()
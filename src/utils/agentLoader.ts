@@ -23,6 +23,7 @@ export interface AgentConfig {
   location: 'built-in' | 'user' | 'project'
   color?: string            // Optional UI color
   model_name?: string       // Optional model override
+  isolation?: 'worktree'    // Optional: run in a separate git worktree
 }
 
 // Built-in general-purpose agent as fallback
@@ -110,7 +111,8 @@ async function scanAgentDirectory(dirPath: string, location: 'user' | 'project')
           location,
           ...(frontmatter.color && { color: frontmatter.color }),
           // Only use model_name field, ignore deprecated 'model' field
-          ...(frontmatter.model_name && { model_name: frontmatter.model_name })
+          ...(frontmatter.model_name && { model_name: frontmatter.model_name }),
+          ...(frontmatter.isolation === 'worktree' && { isolation: 'worktree' as const })
         }
         
         agents.push(agent)
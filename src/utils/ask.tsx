@@ -3,12 +3,14 @@ import { Command } from '@commands'
 import { getSystemPrompt } from '@constants/prompts'
 import { getContext } from '@context'
 import { getTotalCost } from '@costTracker'
+import type { ContentBlockParam } from '@anthropic-ai/sdk/resources/index.mjs'
 import { Message, query } from '@query'
 import { CanUseToolFn } from '@hooks/useCanUseTool'
 import { Tool } from '@tool'
 import { getModelManager } from '@utils/model'
+import { BudgetExceededError, MaxTurnsExceededError } from './errors'
 import { setCwd } from './state'
-import { getMessagesPath, overwriteLog } from './log'
+import { appendToTranscript, getMessagesPath } from './log'
 import { createUserMessage } from './messages'
 
 type Props = {
@@ -16,10 +18,15 @@ type Props = {
   safeMode?: boolean
   hasPermissionsToUseTool: CanUseToolFn
   messageLogName: string
-  prompt: string
+  prompt: string | ContentBlockParam[]
   cwd: string
   tools: Tool[]
   verbose?: boolean
+  maxTurns?: number
+  // Earlier turns of the conversation, for multi-turn print mode
+  previousMessages?: Message[]
+  // Called with every message produced by the query loop, as it arrives
+  onMessage?: (message: Message) => void
 }
 
 // Sends a single prompt to the Anthropic Messages API and returns the response.
@@ -34,14 +41,23 @@ export async function ask({
   cwd,
   tools,
   verbose = false,
+  maxTurns,
+  previousMessages = [],
+  onMessage,
 }: Props): Promise<{
   resultText: string
   totalCost: number
   messageHistoryFile: string
+  messages: Message[]
+  numTurns: number
+  isError: boolean
+  maxTurnsReached: boolean
+  budgetExceeded: boolean
 }> {
   await setCwd(cwd)
   const message = createUserMessage(prompt)
-  const messages: Message[] = [message]
+  const messages: Message[] = [...previousMessages, message]
+  let numTurns = 0
 
   const [systemPrompt, context, model] = await Promise.all([
     getSystemPrompt(),
@@ -49,37 +65,74 @@ export async function ask({
     getModelManager().getModelName('main'),
   ])
 
-  for await (const m of query(
-    messages,
-    systemPrompt,
-    context,
-    hasPermissionsToUseTool,
-    {
-      options: {
-        commands,
-        tools,
-        verbose,
-        safeMode,
-        forkNumber: 0,
-        messageLogName: 'unused',
-        maxThinkingTokens: 0,
+  let stopError: MaxTurnsExceededError | BudgetExceededError | null = null
+  try {
+    for await (const m of query(
+      messages,
+      systemPrompt,
+      context,
+      hasPermissionsToUseTool,
+      {
+        options: {
+          commands,
+          tools,
+          verbose,
+          safeMode,
+          forkNumber: 0,
+          messageLogName: 'unused',
+          maxThinkingTokens: 0,
+          maxTurns,
+        },
+        abortController: new AbortController(),
+        messageId: undefined,
+        readFileTimestamps: {},
+        setToolJSX: () => {}, // No-op function for non-interactive use
       },
-      abortController: new AbortController(),
-      messageId: undefined,
-      readFileTimestamps: {},
-      setToolJSX: () => {}, // No-op function for non-interactive use
-    },
-  )) {
-    messages.push(m)
+    )) {
+      messages.push(m)
+      if (m.type === 'assistant') {
+        numTurns++
+      }
+      onMessage?.(m)
+    }
+  } catch (error) {
+    if (
+      !(error instanceof MaxTurnsExceededError) &&
+      !(error instanceof BudgetExceededError)
+    ) {
+      throw error
+    }
+    stopError = error
+  }
+
+  // Write log that can be retrieved with `claude log`
+  const messageHistoryFile = getMessagesPath(messageLogName, 0, 0)
+  appendToTranscript(messageHistoryFile, messages)
+
+  if (stopError) {
+    return {
+      resultText: stopError.message,
+      totalCost: getTotalCost(),
+      messageHistoryFile,
+      messages,
+      numTurns,
+      isError: true,
+      maxTurnsReached: stopError instanceof MaxTurnsExceededError,
+      budgetExceeded: stopError instanceof BudgetExceededError,
+    }
   }
 
   const result = last(messages)
   if (!result || result.type !== 'assistant') {
     throw new Error('Expected content to be an assistant message')
   }
-  if (result.message.content[0]?.type !== 'text') {
+  // Thinking blocks may precede the text, so collect every text block
+  const textBlocks = result.message.content.filter(
+    block => block.type === 'text',
+  )
+  if (textBlocks.length === 0) {
     throw new Error(
-      `Expected first content item to be text, but got ${JSON.stringify(
+      `Expected content to include text, but got ${JSON.stringify(
         result.message.content[0],
         null,
         2,
@@ -87,13 +140,14 @@ export async function ask({
     )
   }
 
-  // Write log that can be retrieved with `claude log`
-  const messageHistoryFile = getMessagesPath(messageLogName, 0, 0)
-  overwriteLog(messageHistoryFile, messages)
-
   return {
-    resultText: result.message.content[0].text,
+    resultText: textBlocks.map(block => block.text).join('\n'),
     totalCost: getTotalCost(),
     messageHistoryFile,
+    messages,
+    numTurns,
+    isError: Boolean(result.isApiErrorMessage),
+    maxTurnsReached: false,
+    budgetExceeded: false,
   }
 }
@@ -0,0 +1,197 @@
+import { spawn, type ChildProcess } from 'child_process'
+import { detectShell } from './PersistentShell'
+import { logError } from './log'
+import { wrapInSandbox } from './sandbox'
+
+/**
+ * Commands started with BashTool's run_in_background. Each job is its own
+ * shell process rather than a command in the PersistentShell queue, so dev
+ * servers and watchers keep running while the agent works. Output is kept in
+ * memory and read incrementally through BashOutput.
+ */
+
+export type BackgroundShellStatus =
+  'running' | 'completed' | 'failed' | 'killed'
+
+export type BackgroundShell = {
+  id: string
+  command: string
+  cwd: string
+  startedAt: number
+  status: BackgroundShellStatus
+  exitCode: number | null
+}
+
+export type BackgroundShellOutput = {
+  status: BackgroundShellStatus
+  exitCode: number | null
+  stdout: string
+  stderr: string
+}
+
+type Job = BackgroundShell & {
+  process: ChildProcess
+  stdout: string
+  stderr: string
+  // How much of stdout/stderr BashOutput has already returned
+  stdoutRead: number
+  stderrRead: number
+}
+
+// Output past this is dropped from the front, oldest first
+const MAX_BUFFERED_OUTPUT = 1024 * 1024
+
+const jobs = new Map<string, Job>()
+let nextId = 1
+
+function append(job: Job, stream: 'stdout' | 'stderr', chunk: string): void {
+  const readKey = stream === 'stdout' ? 'stdoutRead' : 'stderrRead'
+  job[stream] += chunk
+  const overflow = job[stream].length - MAX_BUFFERED_OUTPUT
+  if (overflow > 0) {
+    job[stream] = job[stream].slice(overflow)
+    job[readKey] = Math.max(0, job[readKey] - overflow)
+  }
+}
+
+function toBackgroundShell(job: Job): BackgroundShell {
+  const { id, command, cwd, startedAt, status, exitCode } = job
+  return { id, command, cwd, startedAt, status, exitCode }
+}
+
+/**
+ * Starts a job. With `sandbox`, it runs in the same sandbox as the session's
+ * shell, rooted at `sandbox.root`.
+ */
+export function startBackgroundShell(
+  command: string,
+  cwd: string,
+  sandbox?: { root: string; projectCwd: string },
+): BackgroundShell {
+  const shell = detectShell()
+  const { bin, args } = sandbox
+    ? wrapInSandbox(
+        shell.bin,
+        [...shell.args, '-c', command],
+        sandbox.root,
+        sandbox.projectCwd,
+      )
+    : { bin: shell.bin, args: [...shell.args, '-c', command] }
+  const isPosix = process.platform !== 'win32'
+  const child = spawn(bin, args, {
+    cwd,
+    env: {
+      ...process.env,
+      GIT_EDITOR: 'true',
+    },
+    stdio: ['ignore', 'pipe', 'pipe'],
+    // Own process group, so killing the job also stops what it started
+    detached: isPosix,
+  })
+
+  const job: Job = {
+    id: `bash_${nextId++}`,
+    command,
+    cwd,
+    startedAt: Date.now(),
+    status: 'running',
+    exitCode: null,
+    process: child,
+    stdout: '',
+    stderr: '',
+    stdoutRead: 0,
+    stderrRead: 0,
+  }
+  jobs.set(job.id, job)
+
+  child.stdout?.setEncoding('utf8')
+  child.stderr?.setEncoding('utf8')
+  child.stdout?.on('data', chunk => append(job, 'stdout', chunk))
+  child.stderr?.on('data', chunk => append(job, 'stderr', chunk))
+  child.on('error', error => {
+    append(job, 'stderr', `${error.message}\n`)
+    if (job.status === 'running') {
+      job.status = 'failed'
+    }
+  })
+  child.on('exit', code => {
+    job.exitCode = code
+    if (job.status === 'running') {
+      job.status = code === 0 ? 'completed' : 'failed'
+    }
+  })
+
+  return toBackgroundShell(job)
+}
+
+export function getBackgroundShell(id: string): BackgroundShell | undefined {
+  const job = jobs.get(id)
+  return job && toBackgroundShell(job)
+}
+
+export function listBackgroundShells(): BackgroundShell[] {
+  return [...jobs.values()].map(toBackgroundShell)
+}
+
+function filterLines(output: string, filter?: RegExp): string {
+  if (!filter) {
+    return output
+  }
+  return output
+    .split('\n')
+    .filter(line => filter.test(line))
+    .join('\n')
+}
+
+/**
+ * Output a job produced since the last read. With a filter, only matching
+ * lines are returned, but the rest is still marked as read.
+ */
+export function readBackgroundShellOutput(
+  id: string,
+  filter?: RegExp,
+): BackgroundShellOutput | undefined {
+  const job = jobs.get(id)
+  if (!job) {
+    return undefined
+  }
+  const stdout = job.stdout.slice(job.stdoutRead)
+  const stderr = job.stderr.slice(job.stderrRead)
+  job.stdoutRead = job.stdout.length
+  job.stderrRead = job.stderr.length
+  return {
+    status: job.status,
+    exitCode: job.exitCode,
+    stdout: filterLines(stdout, filter),
+    stderr: filterLines(stderr, filter),
+  }
+}
+
+/**
+ * Stops a running job. Returns false when there is no such job or it has
+ * already finished.
+ */
+export function killBackgroundShell(id: string): boolean {
+  const job = jobs.get(id)
+  if (!job || job.status !== 'running') {
+    return false
+  }
+  try {
+    if (process.platform !== 'win32' && job.process.pid) {
+      process.kill(-job.process.pid, 'SIGTERM')
+    } else {
+      job.process.kill()
+    }
+  } catch (error) {
+    logError(`Failed to kill background shell ${id}: ${error}`)
+    return false
+  }
+  job.status = 'killed'
+  return true
+}
+
+export function killAllBackgroundShells(): void {
+  for (const id of jobs.keys()) {
+    killBackgroundShell(id)
+  }
+}
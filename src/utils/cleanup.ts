@@ -2,6 +2,7 @@ import { promises as fs } from 'fs'
 import { join } from 'path'
 import { logError } from './log'
 import { CACHE_PATHS } from './log'
+import { killAllBackgroundShells } from './backgroundShells'
 
 const THIRTY_DAYS_MS = 30 * 24 * 60 * 60 * 1000
 
@@ -70,3 +71,9 @@ export function cleanupOldMessageFilesInBackground(): void {
   // Prevent the setImmediate from keeping the process alive
   immediate.unref()
 }
+
+// Background shell jobs run in their own process groups, so they would
+// outlive the session unless stopped on exit
+export function cleanupBackgroundShells(): void {
+  killAllBackgroundShells()
+}
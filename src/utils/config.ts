@@ -3,7 +3,7 @@ import { resolve, join } from 'path'
 import { cloneDeep, memoize, pick } from 'lodash-es'
 import { homedir } from 'os'
 import { GLOBAL_CLAUDE_FILE } from './env'
-import { getCwd } from './state'
+import { getCwd, getCwdScope } from './state'
 import { randomBytes } from 'crypto'
 import { safeParseJSON } from './json'
 import { ConfigParseError } from './errors'
@@ -18,15 +18,53 @@ export type McpStdioServerConfig = {
   env?: Record<string, string>
 }
 
+// Header values and URLs of remote servers may reference environment
+// variables as ${VAR} or ${VAR:-default}; they are expanded on connect
 export type McpSSEServerConfig = {
   type: 'sse'
   url: string
+  headers?: Record<string, string>
 }
 
-export type McpServerConfig = McpStdioServerConfig | McpSSEServerConfig
+// Streamable HTTP transport
+export type McpHTTPServerConfig = {
+  type: 'http'
+  url: string
+  headers?: Record<string, string>
+}
+
+export type McpServerConfig =
+  | McpStdioServerConfig
+  | McpSSEServerConfig
+  | McpHTTPServerConfig
+
+// Lifecycle hooks, in the same shape as `.claude/settings.json` hook definitions
+export type HookEventName =
+  | 'PreToolUse'
+  | 'PostToolUse'
+  | 'UserPromptSubmit'
+  | 'Stop'
+
+export type HookCommandConfig = {
+  type: 'command'
+  command: string
+  timeout?: number // Seconds
+}
+
+export type HookMatcherConfig = {
+  matcher?: string // Tool name or regex; empty or '*' matches every tool
+  hooks: HookCommandConfig[]
+}
+
+export type HooksConfig = Partial<Record<HookEventName, HookMatcherConfig[]>>
 
 export type ProjectConfig = {
   allowedTools: string[]
+  deniedTools?: string[]
+  askTools?: string[]
+  // Directories outside the project that read tools may use without asking,
+  // relative to the project or absolute. /add-dir and read approvals add to it.
+  additionalDirectories?: string[]
   context: Record<string, string>
   contextFiles?: string[]
   history: string[]
@@ -36,6 +74,7 @@ export type ProjectConfig = {
   mcpServers?: Record<string, McpServerConfig>
   approvedMcprcServers?: string[]
   rejectedMcprcServers?: string[]
+  disabledMcpServers?: string[]
   lastAPIDuration?: number
   lastCost?: number
   lastDuration?: number
@@ -44,8 +83,28 @@ export type ProjectConfig = {
   exampleFilesGeneratedAt?: number
   hasTrustDialogAccepted?: boolean
   hasCompletedProjectOnboarding?: boolean
+  hooks?: HooksConfig
+  // Spend limits in USD per budgetPeriod. Going over either one pauses the
+  // agent until the user confirms; the soft one asks once, the hard one
+  // before every further request.
+  softBudget?: number
+  hardBudget?: number
+  budgetPeriod?: BudgetPeriod
+  // Run Bash commands in a bubblewrap sandbox (Linux only). Writes are limited
+  // to the project, tmp and sandboxWritablePaths (minus their .claude, .cougar,
+  // .git/hooks and .git/config), and the network to sandboxAllowedHosts
+  // ("example.com" or "*.example.com"). Of the home directory, only the
+  // project, additionalDirectories and sandboxReadablePaths are visible.
+  sandbox?: boolean
+  sandboxWritablePaths?: string[]
+  sandboxReadablePaths?: string[]
+  sandboxAllowedHosts?: string[]
 }
 
+export type BudgetPeriod = 'session' | 'day' | 'week' | 'month'
+
+export const BUDGET_PERIODS: BudgetPeriod[] = ['session', 'day', 'week', 'month']
+
 const DEFAULT_PROJECT_CONFIG: ProjectConfig = {
   allowedTools: [],
   context: {},
@@ -123,6 +182,17 @@ export type ModelProfile = {
   isGPT5?: boolean // Auto-detected GPT-5 model flag
   validationStatus?: 'valid' | 'needs_repair' | 'auto_repaired' // Configuration status
   lastValidation?: number // Last validation timestamp
+  pricing?: ModelPricing // Overrides the built-in prices of the model
+  toolCallingMode?: 'native' | 'prompt' // Overrides the model's detected tool calling
+}
+
+// USD per million tokens; see utils/modelPricing.ts for the defaults
+export type ModelPricing = {
+  input?: number
+  output?: number
+  cacheRead?: number
+  cacheWrite?: number
+  reasoning?: number
 }
 
 export type ModelPointerType = 'main' | 'task' | 'reasoning' | 'quick'
@@ -134,6 +204,9 @@ export type ModelPointers = {
   quick: string // Quick model ID
 }
 
+// Ordered model names to fall back to, per pointer
+export type ModelFallbacks = Partial<Record<ModelPointerType, string[]>>
+
 export type AccountInfo = {
   accountUuid: string
   emailAddress: string
@@ -170,11 +243,28 @@ export type GlobalConfig = {
   // New model system
   modelProfiles?: ModelProfile[] // Model configuration list
   modelPointers?: ModelPointers // Model pointer system
+  modelFallbacks?: ModelFallbacks // Tried in order when a pointer's model fails
   defaultModelName?: string // Default model
   // Update notifications
   lastDismissedUpdateVersion?: string
+  hooks?: HooksConfig
+  // WebSearch providers, tried in order until one answers. Without it, every
+  // configured provider is tried, with DuckDuckGo scraping as the last resort.
+  webSearchProviders?: SearchProviderName[]
+  searxngUrl?: string // e.g. https://searx.example.com, with the JSON format enabled
+  braveSearchApiKey?: string
+  tavilyApiKey?: string
 }
 
+export type SearchProviderName = 'searxng' | 'brave' | 'tavily' | 'duckduckgo'
+
+export const SEARCH_PROVIDER_NAMES: SearchProviderName[] = [
+  'searxng',
+  'brave',
+  'tavily',
+  'duckduckgo',
+]
+
 export const DEFAULT_GLOBAL_CONFIG: GlobalConfig = {
   numStartups: 0,
   autoUpdaterStatus: 'not_configured',
@@ -211,6 +301,10 @@ export const GLOBAL_CONFIG_KEYS = [
   'preferredNotifChannel',
   'shiftEnterKeyBindingInstalled',
   'maxTokens',
+  'webSearchProviders',
+  'searxngUrl',
+  'braveSearchApiKey',
+  'tavilyApiKey',
 ] as const
 
 export type GlobalConfigKey = (typeof GLOBAL_CONFIG_KEYS)[number]
@@ -224,6 +318,14 @@ export const PROJECT_CONFIG_KEYS = [
   'enableArchitectTool',
   'hasTrustDialogAccepted',
   'hasCompletedProjectOnboarding',
+  'softBudget',
+  'hardBudget',
+  'budgetPeriod',
+  'sandbox',
+  'sandboxWritablePaths',
+  'sandboxReadablePaths',
+  'sandboxAllowedHosts',
+  'additionalDirectories',
 ] as const
 
 export type ProjectConfigKey = (typeof PROJECT_CONFIG_KEYS)[number]
@@ -435,12 +537,17 @@ function getConfig<A>(
   }
 }
 
+// Sub-agents running in a worktree keep using the session's project config
+export function getProjectConfigCwd(): string {
+  return getCwdScope()?.projectCwd ?? getCwd()
+}
+
 export function getCurrentProjectConfig(): ProjectConfig {
   if (process.env.NODE_ENV === 'test') {
     return TEST_PROJECT_CONFIG_FOR_TESTING
   }
 
-  const absolutePath = resolve(getCwd())
+  const absolutePath = resolve(getProjectConfigCwd())
   const config = getConfig(GLOBAL_CLAUDE_FILE, DEFAULT_GLOBAL_CONFIG)
 
   if (!config.projects) {
@@ -472,7 +579,7 @@ export function saveCurrentProjectConfig(projectConfig: ProjectConfig): void {
       ...config,
       projects: {
         ...config.projects,
-        [resolve(getCwd())]: projectConfig,
+        [resolve(getProjectConfigCwd())]: projectConfig,
       },
     },
     DEFAULT_GLOBAL_CONFIG,
@@ -603,10 +710,22 @@ export function setConfigForCLI(
       process.exit(1)
     }
 
+    if (key === 'webSearchProviders') {
+      const invalid = splitList(value).filter(
+        name => !SEARCH_PROVIDER_NAMES.includes(name as SearchProviderName),
+      )
+      if (invalid.length > 0) {
+        console.error(
+          `Error: Unknown search provider ${invalid.join(', ')}. Must be one of: ${SEARCH_PROVIDER_NAMES.join(', ')}`,
+        )
+        process.exit(1)
+      }
+    }
+
     const currentConfig = getGlobalConfig()
     saveGlobalConfig({
       ...currentConfig,
-      [key]: value,
+      [key]: key === 'webSearchProviders' ? splitList(value) : value,
     })
   } else {
     if (!isProjectConfigKey(key)) {
@@ -615,10 +734,29 @@ export function setConfigForCLI(
       )
       process.exit(1)
     }
+
+    if (
+      (key === 'softBudget' || key === 'hardBudget') &&
+      !(Number(value) > 0)
+    ) {
+      console.error(`Error: ${key} must be a positive amount in USD`)
+      process.exit(1)
+    }
+
+    if (
+      key === 'budgetPeriod' &&
+      !BUDGET_PERIODS.includes(value as BudgetPeriod)
+    ) {
+      console.error(
+        `Error: Invalid value for budgetPeriod. Must be one of: ${BUDGET_PERIODS.join(', ')}`,
+      )
+      process.exit(1)
+    }
+
     const currentConfig = getCurrentProjectConfig()
     saveCurrentProjectConfig({
       ...currentConfig,
-      [key]: value,
+      [key]: parseProjectConfigValue(key, value),
     })
   }
   // Wait for the output to be flushed, to avoid clearing the screen.
@@ -628,6 +766,33 @@ export function setConfigForCLI(
   }, 100)
 }
 
+function parseProjectConfigValue(key: ProjectConfigKey, value: unknown) {
+  switch (key) {
+    case 'softBudget':
+    case 'hardBudget':
+      return Number(value)
+    case 'sandbox':
+      return value === true || value === 'true'
+    case 'sandboxWritablePaths':
+    case 'sandboxReadablePaths':
+    case 'sandboxAllowedHosts':
+    case 'additionalDirectories':
+      return splitList(value)
+    default:
+      return value
+  }
+}
+
+// Lists are comma-separated on the command line
+function splitList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value
+    : String(value)
+        .split(',')
+        .map(_ => _.trim())
+        .filter(Boolean)
+}
+
 export function deleteConfigForCLI(key: string, global: boolean): void {
   
   if (global) {
@@ -771,6 +936,24 @@ export function setModelPointer(
   })
 }
 
+export function setModelFallbacks(
+  pointer: ModelPointerType,
+  modelNames: string[],
+): void {
+  const config = getGlobalConfig()
+  saveGlobalConfig({
+    ...config,
+    modelFallbacks: {
+      ...config.modelFallbacks,
+      [pointer]: modelNames,
+    },
+  })
+
+  import('./model').then(({ reloadModelManager }) => {
+    reloadModelManager()
+  })
+}
+
 // 🔥 GPT-5 Configuration Validation and Auto-Repair Functions
 
 /**
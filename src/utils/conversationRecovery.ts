@@ -1,5 +1,4 @@
-import fs from 'fs/promises'
-import { logError } from './log'
+import { logError, readTranscript } from './log'
 import { Tool } from '@tool'
 
 /**
@@ -13,8 +12,7 @@ export async function loadMessagesFromLog(
   tools: Tool[],
 ): Promise<any[]> {
   try {
-    const content = await fs.readFile(logPath, 'utf-8')
-    const messages = JSON.parse(content)
+    const messages = await readTranscript(logPath)
     return deserializeMessages(messages, tools)
   } catch (error) {
     logError(`Failed to load messages from ${logPath}: ${error}`)
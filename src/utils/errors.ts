@@ -4,6 +4,31 @@ export class DeprecatedCommandError extends Error {}
 
 export class AbortError extends Error {}
 
+/**
+ * Thrown by the query loop when a non-interactive run reaches its
+ * `--max-turns` limit
+ */
+export class MaxTurnsExceededError extends Error {
+  maxTurns: number
+
+  constructor(maxTurns: number) {
+    super(`Reached maximum number of turns (${maxTurns})`)
+    this.name = 'MaxTurnsExceededError'
+    this.maxTurns = maxTurns
+  }
+}
+
+/**
+ * Thrown by the query loop when a non-interactive run goes past the
+ * project's hard budget
+ */
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BudgetExceededError'
+  }
+}
+
 /**
  * Custom error class for configuration file parsing errors
  * Includes the file path and the default configuration that should be used
@@ -19,3 +44,17 @@ export class ConfigParseError extends Error {
     this.defaultConfig = defaultConfig
   }
 }
+
+/**
+ * Thrown when an OpenAI-compatible provider keeps answering with an HTTP
+ * error after all retries
+ */
+export class ProviderHTTPError extends Error {
+  status: number
+
+  constructor(status: number, message: string) {
+    super(`API error (${status}): ${message}`)
+    this.name = 'ProviderHTTPError'
+    this.status = status
+  }
+}
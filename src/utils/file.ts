@@ -8,6 +8,7 @@ import {
   readdirSync,
 } from 'fs'
 import { logError } from './log'
+import { snapshotFileBeforeWrite } from '@services/checkpoints'
 import {
   isAbsolute,
   normalize,
@@ -142,6 +143,7 @@ export function writeTextContent(
     toWrite = content.split('\n').join('\r\n')
   }
 
+  snapshotFileBeforeWrite(filePath)
   writeFileSync(filePath, toWrite, { encoding, flush: true })
 }
 
@@ -1,3 +1,5 @@
+import type { AsyncLocalStorage } from 'async_hooks'
+
 const NO_VALUE = Symbol('NO_VALUE')
 
 export async function lastX<A>(as: AsyncGenerator<A>): Promise<A> {
@@ -60,3 +62,27 @@ export async function* all<A>(
     }
   }
 }
+
+/**
+ * Drive a generator with every step running inside `storage.run(store)`, so
+ * that all async work it starts sees the store. An async generator otherwise
+ * runs in the context of whoever calls next().
+ */
+export async function* runInAsyncContext<S, A>(
+  storage: AsyncLocalStorage<S>,
+  store: S,
+  generator: AsyncGenerator<A, void>,
+): AsyncGenerator<A, void> {
+  try {
+    while (true) {
+      const result = await storage.run(store, () => generator.next())
+      if (result.done) {
+        return
+      }
+      yield result.value as A
+    }
+  } finally {
+    // Let the generator clean up if the consumer stopped early
+    await storage.run(store, () => generator.return(undefined))
+  }
+}
@@ -1,5 +1,6 @@
 import { memoize } from 'lodash-es'
 import { execFileNoThrow } from './execFileNoThrow'
+import { getOriginalCwd } from './state'
 
 export const getIsGit = memoize(async (): Promise<boolean> => {
   const { code } = await execFileNoThrow('git', [
@@ -7,7 +8,7 @@ export const getIsGit = memoize(async (): Promise<boolean> => {
     '--is-inside-work-tree',
   ])
   return code === 0
-})
+}, getOriginalCwd)
 
 export const getHead = async (): Promise<string> => {
   const { stdout } = await execFileNoThrow('git', ['rev-parse', 'HEAD'])
@@ -90,3 +91,134 @@ export async function getGitState(): Promise<GitRepoState | null> {
     return null
   }
 }
+
+export const getRepoRoot = async (): Promise<string | null> => {
+  const { stdout, code } = await execFileNoThrow(
+    'git',
+    ['rev-parse', '--show-toplevel'],
+    undefined,
+    undefined,
+    false,
+  )
+  return code === 0 ? stdout.trim() : null
+}
+
+async function execGit(args: string[]): Promise<string> {
+  const { stdout, stderr, code } = await execFileNoThrow('git', args)
+  if (code !== 0) {
+    throw new Error(
+      `git ${args.join(' ')} failed: ${stderr.trim() || `exit code ${code}`}`,
+    )
+  }
+  return stdout
+}
+
+export type GitWorktree = {
+  path: string
+  branch: string | null
+  head: string
+}
+
+/**
+ * Create a worktree at `path` on a new branch starting from `base`
+ */
+export async function addWorktree(
+  repoRoot: string,
+  path: string,
+  branch: string,
+  base = 'HEAD',
+): Promise<void> {
+  await execGit(['-C', repoRoot, 'worktree', 'add', '-b', branch, path, base])
+}
+
+export async function removeWorktree(
+  repoRoot: string,
+  path: string,
+): Promise<void> {
+  await execGit(['-C', repoRoot, 'worktree', 'remove', '--force', path])
+}
+
+export async function listWorktrees(repoRoot: string): Promise<GitWorktree[]> {
+  const stdout = await execGit([
+    '-C',
+    repoRoot,
+    'worktree',
+    'list',
+    '--porcelain',
+  ])
+  return stdout
+    .split('\n\n')
+    .filter(Boolean)
+    .map(entry => {
+      const fields = Object.fromEntries(
+        entry.split('\n').map(line => {
+          const separatorIndex = line.indexOf(' ')
+          return separatorIndex === -1
+            ? [line, '']
+            : [line.slice(0, separatorIndex), line.slice(separatorIndex + 1)]
+        }),
+      )
+      return {
+        path: fields.worktree ?? '',
+        branch: fields.branch?.replace(/^refs\/heads\//, '') ?? null,
+        head: fields.HEAD ?? '',
+      }
+    })
+}
+
+export async function deleteBranch(
+  repoRoot: string,
+  branch: string,
+): Promise<void> {
+  await execGit(['-C', repoRoot, 'branch', '-D', branch])
+}
+
+/**
+ * Commit everything in a working tree, including untracked files. Returns
+ * false when there was nothing to commit.
+ */
+export async function commitAll(
+  path: string,
+  message: string,
+): Promise<boolean> {
+  await execGit(['-C', path, 'add', '-A'])
+  const status = await execGit(['-C', path, 'status', '--porcelain'])
+  if (!status.trim()) {
+    return false
+  }
+  await execGit(['-C', path, 'commit', '--no-verify', '-m', message])
+  return true
+}
+
+/**
+ * The changes on `branch` since it forked from `base`
+ */
+export async function getBranchDiff(
+  repoRoot: string,
+  base: string,
+  branch: string,
+): Promise<{ stat: string; diff: string }> {
+  const range = `${base}...${branch}`
+  const [stat, { stdout: diff }] = await Promise.all([
+    execGit(['-C', repoRoot, 'diff', '--stat', range]),
+    // Best effort: a diff too large for the output buffer is left out
+    execFileNoThrow('git', ['-C', repoRoot, 'diff', range]),
+  ])
+  return { stat: stat.trimEnd(), diff }
+}
+
+/**
+ * Merge a branch into the current branch. A conflicting merge is aborted so
+ * the working tree is left as it was.
+ */
+export async function mergeBranch(
+  repoRoot: string,
+  branch: string,
+): Promise<void> {
+  try {
+    await execGit(['-C', repoRoot, 'merge', '--no-edit', branch])
+  } catch (error) {
+    await execFileNoThrow('git', ['-C', repoRoot, 'merge', '--abort'])
+    throw error
+  }
+}
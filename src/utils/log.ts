@@ -1,11 +1,12 @@
 import {
+  appendFileSync,
   existsSync,
   mkdirSync,
   writeFileSync,
   readFileSync,
   promises as fsPromises,
 } from 'fs'
-import { dirname, join } from 'path'
+import { basename, dirname, join } from 'path'
 import { captureException } from '@services/sentry'
 import { randomUUID } from 'crypto'
 import envPaths from 'env-paths'
@@ -52,6 +53,18 @@ function safeWriteFile(path: string, data: string, encoding: BufferEncoding = 'u
   }
 }
 
+function safeAppendFile(path: string, data: string): boolean {
+  try {
+    appendFileSync(path, data, 'utf8')
+    return true
+  } catch (error) {
+    if (isPermissionError(error)) {
+      return false
+    }
+    throw error
+  }
+}
+
 export const SESSION_ID = randomUUID()
 
 const paths = envPaths(PRODUCT_COMMAND)
@@ -65,6 +78,8 @@ export const CACHE_PATHS = {
   messages: () => join(paths.cache, getProjectDir(process.cwd()), 'messages'),
   mcpLogs: (serverName: string) =>
     join(paths.cache, getProjectDir(process.cwd()), `mcp-logs-${serverName}`),
+  // Shared by all projects
+  urlFetch: () => join(paths.cache, 'url-fetch'),
 }
 
 export function dateToFilename(date: Date): string {
@@ -86,10 +101,19 @@ export function getMessagesPath(
     CACHE_PATHS.messages(),
     `${messageLogName}${forkNumber > 0 ? `-${forkNumber}` : ''}${
       sidechainNumber > 0 ? `-sidechain-${sidechainNumber}` : ''
-    }.json`,
+    }.jsonl`,
   )
 }
 
+// Transcripts used to be JSON arrays rewritten on every change
+function isLegacyLogPath(path: string): boolean {
+  return path.endsWith('.json')
+}
+
+function toLegacyLogPath(path: string): string {
+  return path.replace(/\.jsonl$/, '.json')
+}
+
 export function logError(error: unknown): void {
   try {
     if (process.env.NODE_ENV === 'test') {
@@ -167,7 +191,26 @@ function appendToLog(path: string, message: object): void {
   safeWriteFile(path, JSON.stringify(messages, null, 2))
 }
 
-export function overwriteLog(path: string, messages: object[]): void {
+type TranscriptOptions = {
+  parentUuid?: string | null
+  isSidechain?: boolean
+}
+
+// Uuids already written to each transcript by this process
+const TRANSCRIPT_UUIDS = new Map<string, Set<string>>()
+
+/**
+ * Append the messages that are not in the transcript at `path` yet, one JSON
+ * line each. Every line records the uuid of the message before it, so the
+ * conversation can be followed back from its last message even after forks.
+ * The first message of a sidechain points to the assistant message whose
+ * tool use started it.
+ */
+export function appendToTranscript(
+  path: string,
+  messages: { uuid: string }[],
+  { parentUuid = null, isSidechain = false }: TranscriptOptions = {},
+): void {
   if (process.env.USER_TYPE === 'external') {
     return
   }
@@ -181,16 +224,104 @@ export function overwriteLog(path: string, messages: object[]): void {
     return
   }
 
-  const messagesWithMetadata = messages.map(message => ({
-    ...message,
-    cwd: process.cwd(),
-    userType: process.env.USER_TYPE,
-    sessionId: SESSION_ID,
-    timestamp: new Date().toISOString(),
-    version: MACRO.VERSION,
-  }))
+  let written = TRANSCRIPT_UUIDS.get(path)
+  if (!written) {
+    written = new Set()
+    TRANSCRIPT_UUIDS.set(path, written)
+  }
 
-  safeWriteFile(path, JSON.stringify(messagesWithMetadata, null, 2))
+  const lines: string[] = []
+  for (const message of messages) {
+    if (!written.has(message.uuid)) {
+      written.add(message.uuid)
+      lines.push(
+        JSON.stringify({
+          ...message,
+          parentUuid,
+          isSidechain,
+          cwd: process.cwd(),
+          userType: process.env.USER_TYPE,
+          sessionId: SESSION_ID,
+          timestamp: new Date().toISOString(),
+          version: MACRO.VERSION,
+        }),
+      )
+    }
+    parentUuid = message.uuid
+  }
+
+  if (lines.length) {
+    safeAppendFile(path, lines.join('\n') + '\n')
+  }
+}
+
+/**
+ * Parse a JSONL transcript into the conversation that ends with its last
+ * message
+ */
+function parseTranscript(content: string): SerializedMessage[] {
+  const messagesByUuid = new Map<string, SerializedMessage>()
+  let lastMessage: SerializedMessage | undefined
+  for (const line of content.split('\n')) {
+    if (!line.trim()) {
+      continue
+    }
+    try {
+      const message = JSON.parse(line) as SerializedMessage
+      messagesByUuid.set(message.uuid, message)
+      lastMessage = message
+    } catch {
+      // A line cut short by a crash mid-write
+    }
+  }
+
+  const messages: SerializedMessage[] = []
+  const seen = new Set<string>()
+  for (
+    let message = lastMessage;
+    message && !seen.has(message.uuid);
+    message = message.parentUuid
+      ? messagesByUuid.get(message.parentUuid)
+      : undefined
+  ) {
+    seen.add(message.uuid)
+    messages.push(message)
+  }
+  return messages.reverse()
+}
+
+export async function readTranscript(
+  path: string,
+): Promise<SerializedMessage[]> {
+  const content = await fsPromises.readFile(path, 'utf8')
+  return path.endsWith('.jsonl')
+    ? parseTranscript(content)
+    : (JSON.parse(content) as SerializedMessage[])
+}
+
+/**
+ * Rewrite a legacy JSON array log as a JSONL transcript next to it, and
+ * remove the old file. Returns the path of the transcript.
+ */
+async function migrateLegacyLog(path: string): Promise<void> {
+  const transcriptPath = path + 'l'
+  if (!existsSync(transcriptPath)) {
+    const messages = await readTranscript(path)
+    const isSidechain =
+      parseLogFilename(basename(path)).sidechainNumber !== undefined
+    const lines = messages.map((message, i) =>
+      JSON.stringify({
+        ...message,
+        parentUuid: messages[i - 1]?.uuid ?? null,
+        isSidechain,
+      }),
+    )
+    // Write to a temporary file first so a crash cannot leave half a log
+    const tempPath = transcriptPath + '.tmp'
+    await fsPromises.writeFile(tempPath, lines.join('\n') + '\n', 'utf8')
+    await fsPromises.rename(tempPath, transcriptPath)
+  }
+  await fsPromises.unlink(path)
 }
 
 export async function loadLogList(
@@ -201,12 +332,23 @@ export async function loadLogList(
     return []
   }
 
-  const files = await fsPromises.readdir(path)
+  for (const file of await fsPromises.readdir(path)) {
+    if (isLegacyLogPath(file)) {
+      try {
+        await migrateLegacyLog(join(path, file))
+      } catch (error) {
+        logError(error)
+      }
+    }
+  }
+
+  const files = (await fsPromises.readdir(path)).filter(
+    _ => !_.endsWith('.tmp'),
+  )
   const logData = await Promise.all(
     files.map(async (file, i) => {
       const fullPath = join(path, file)
-      const content = await fsPromises.readFile(fullPath, 'utf8')
-      const messages = JSON.parse(content) as SerializedMessage[]
+      const messages = await readTranscript(fullPath)
       const firstMessage = messages[0]
       const lastMessage = messages[messages.length - 1]
       const firstPrompt =
@@ -278,13 +420,17 @@ export function parseLogFilename(filename: string): {
   return { date, forkNumber, sidechainNumber }
 }
 
+function logExists(path: string): boolean {
+  return existsSync(path) || existsSync(toLegacyLogPath(path))
+}
+
 export function getNextAvailableLogForkNumber(
   date: string,
   forkNumber: number,
   // Main chain has sidechainNumber 0
   sidechainNumber: number,
 ): number {
-  while (existsSync(getMessagesPath(date, forkNumber, sidechainNumber))) {
+  while (logExists(getMessagesPath(date, forkNumber, sidechainNumber))) {
     forkNumber++
   }
   return forkNumber
@@ -295,7 +441,7 @@ export function getNextAvailableLogSidechainNumber(
   forkNumber: number,
 ): number {
   let sidechainNumber = 1
-  while (existsSync(getMessagesPath(date, forkNumber, sidechainNumber))) {
+  while (logExists(getMessagesPath(date, forkNumber, sidechainNumber))) {
     sidechainNumber++
   }
   return sidechainNumber
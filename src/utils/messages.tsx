@@ -189,6 +189,23 @@ export function createProgressMessage(
   }
 }
 
+/**
+ * A progress message that isn't tied to a tool use. The REPL shows it in the
+ * transcript; like all progress messages it is never sent to the API.
+ */
+export function createNoticeMessage(notice: string): ProgressMessage {
+  return {
+    ...createProgressMessage(
+      randomUUID(),
+      new Set(),
+      createAssistantMessage(notice),
+      [],
+      [],
+    ),
+    notice,
+  }
+}
+
 export function createToolResultStopMessage(
   toolUseID: string,
 ): ToolResultBlockParam {
@@ -422,10 +439,17 @@ export async function processUserInput(
 
         // Process mentions for system reminder integration
         // Note: We don't call resolveFileReferences here anymore - 
-        // @file mentions should trigger Read tool usage via reminders, not embed content
+        // @file mentions should trigger Read tool usage via reminders, not embed content.
+        // @server:uri MCP resources are inlined, since there is no file to read.
         if (input.includes('@')) {
           const { processMentions } = await import('@services/mentionProcessor')
-          await processMentions(input)
+          const mentions = await processMentions(input)
+          if (mentions.hasResourceMentions) {
+            processedInput = [
+              processedInput,
+              ...mentions.resources.map(resource => resource.metadata.content),
+            ].join('\n\n')
+          }
         }
       } catch (error) {
         console.warn('Dynamic content processing failed:', error)
@@ -926,12 +950,60 @@ export function normalizeMessagesForAPI(
           }
           return
         }
-        case 'assistant':
+        case 'assistant': {
+          // Blocks of one API response that were stored apart go back together,
+          // thinking first
+          const lastMessage = last(result)
+          if (
+            lastMessage?.type === 'assistant' &&
+            message.message.id &&
+            lastMessage.message.id === message.message.id
+          ) {
+            const content = [
+              ...lastMessage.message.content,
+              ...message.message.content,
+            ]
+            result[result.indexOf(lastMessage)] = {
+              ...lastMessage,
+              message: {
+                ...lastMessage.message,
+                content: [
+                  ...content.filter(isThinkingBlock),
+                  ...content.filter(_ => !isThinkingBlock(_)),
+                ],
+              },
+            }
+            return
+          }
           result.push(message)
           return
+        }
       }
     })
-  return result
+
+  // A thinking block cannot be the last block of an assistant message
+  return result.map((message): UserMessage | AssistantMessage => {
+    if (message.type !== 'assistant') {
+      return message
+    }
+    const content = [...message.message.content]
+    while (content.length > 0 && isThinkingBlock(content[content.length - 1])) {
+      content.pop()
+    }
+    if (content.length === message.message.content.length) {
+      return message
+    }
+    // Dropping a thinking-only message would leave two user turns in a row,
+    // so it keeps a placeholder, as empty responses from the API do
+    if (content.length === 0) {
+      content.push({ type: 'text', text: NO_CONTENT_MESSAGE, citations: [] })
+    }
+    return { ...message, message: { ...message.message, content } }
+  })
+}
+
+function isThinkingBlock(block: ContentBlock): boolean {
+  return block.type === 'thinking' || block.type === 'redacted_thinking'
 }
 
 // Sometimes the API returns empty messages (eg. "\n\n"). We need to filter these out,
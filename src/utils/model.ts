@@ -4,6 +4,7 @@ import { logError } from './log'
 import {
   getGlobalConfig,
   ModelProfile,
+  ModelPricing,
   ModelPointerType,
   saveGlobalConfig,
 } from './config'
@@ -665,6 +666,17 @@ export class ModelManager {
       p => p.modelName !== modelName,
     )
 
+    // Drop the deleted model from fallback lists
+    if (this.config.modelFallbacks) {
+      for (const pointer of Object.keys(
+        this.config.modelFallbacks,
+      ) as ModelPointerType[]) {
+        this.config.modelFallbacks[pointer] = this.config.modelFallbacks[
+          pointer
+        ]?.filter(name => name !== modelName)
+      }
+    }
+
     // Clean up pointers that reference deleted model
     if (this.config.modelPointers) {
       Object.keys(this.config.modelPointers).forEach(pointer => {
@@ -680,6 +692,32 @@ export class ModelManager {
     this.saveConfig()
   }
 
+  /**
+   * Set or clear the pricing of a model profile
+   */
+  updateModelPricing(
+    modelName: string,
+    pricing: ModelPricing | undefined,
+  ): void {
+    this.modelProfiles = this.modelProfiles.map(p =>
+      p.modelName === modelName ? { ...p, pricing } : p,
+    )
+    this.saveConfig()
+  }
+
+  /**
+   * Set how tools are offered to a model; undefined follows its capabilities
+   */
+  updateModelToolCallingMode(
+    modelName: string,
+    toolCallingMode: ModelProfile['toolCallingMode'],
+  ): void {
+    this.modelProfiles = this.modelProfiles.map(p =>
+      p.modelName === modelName ? { ...p, toolCallingMode } : p,
+    )
+    this.saveConfig()
+  }
+
   /**
    * Get default model profile
    */
@@ -761,6 +799,24 @@ export class ModelManager {
     return this.getDefaultModel()
   }
 
+  /**
+   * Active profiles to fall back to, in order, when the model of a pointer
+   * fails. Models that are not pointers have no fallbacks.
+   */
+  getFallbackModels(modelParam: string | ModelPointerType): ModelProfile[] {
+    const modelNames =
+      this.config.modelFallbacks?.[modelParam as ModelPointerType] ?? []
+    const primary = this.resolveModel(modelParam)
+    return modelNames
+      .map(name => this.findModelProfileByModelName(name))
+      .filter(
+        (profile): profile is ModelProfile =>
+          !!profile &&
+          profile.isActive &&
+          profile.modelName !== primary?.modelName,
+      )
+  }
+
   /**
    * 解析模型参数并返回完整信息
    */
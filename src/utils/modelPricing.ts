@@ -0,0 +1,117 @@
+import models from '@constants/models'
+import type { ModelPricing, ModelProfile, ProviderType } from './config'
+
+/**
+ * Model pricing
+ *
+ * Every model profile may carry its own prices in USD per million tokens.
+ * Profiles without them fall back to the built-in model list, and when the
+ * model is not in the list either its cost is unknown rather than zero.
+ */
+
+export type TokenUsage = {
+  inputTokens: number
+  outputTokens: number
+  cacheReadTokens: number
+  cacheWriteTokens: number
+  reasoningTokens: number
+}
+
+export const PRICING_FIELDS: {
+  key: keyof ModelPricing
+  label: string
+}[] = [
+  { key: 'input', label: 'Input' },
+  { key: 'output', label: 'Output' },
+  { key: 'cacheRead', label: 'Cache read' },
+  { key: 'cacheWrite', label: 'Cache write' },
+  { key: 'reasoning', label: 'Reasoning' },
+]
+
+// Models served from the user's own machine
+const FREE_PROVIDERS: ProviderType[] = ['ollama']
+
+function perMillion(costPerToken: unknown): number | undefined {
+  return typeof costPerToken === 'number'
+    ? Number((costPerToken * 1_000_000).toPrecision(6))
+    : undefined
+}
+
+/**
+ * Prices of a model from the built-in model list, looking in the given
+ * provider's list first and then in every other one
+ */
+export function getDefaultModelPricing(
+  modelName: string,
+  provider?: ProviderType,
+): ModelPricing | undefined {
+  if (provider && FREE_PROVIDERS.includes(provider)) {
+    return { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, reasoning: 0 }
+  }
+
+  const modelLists = models as Record<string, Record<string, unknown>[]>
+  const candidates = [
+    ...((provider && modelLists[provider]) || []),
+    ...Object.values(modelLists).flat(),
+  ]
+  const info = candidates.find(_ => _.model === modelName)
+  if (!info || typeof info.input_cost_per_token !== 'number') {
+    return undefined
+  }
+  return {
+    input: perMillion(info.input_cost_per_token),
+    output: perMillion(info.output_cost_per_token),
+    cacheRead: perMillion(
+      info.cache_read_input_token_cost ?? info.input_cost_per_token_cache_hit,
+    ),
+    cacheWrite: perMillion(info.cache_creation_input_token_cost),
+    reasoning: perMillion(info.output_cost_per_reasoning_token),
+  }
+}
+
+export function getModelPricing(
+  profile: ModelProfile | null | undefined,
+  modelName: string,
+): ModelPricing | undefined {
+  if (profile?.pricing) {
+    return profile.pricing
+  }
+  return getDefaultModelPricing(
+    profile?.modelName ?? modelName,
+    profile?.provider,
+  )
+}
+
+/**
+ * Cost of a request in USD, or null when the model's input or output price
+ * is unknown. Cache reads and writes default to the input price, and
+ * reasoning tokens (which are part of the output tokens) to the output price.
+ * Input tokens must not include cache reads, as in Anthropic's usage.
+ */
+export function calculateCostUSD(
+  pricing: ModelPricing | undefined,
+  usage: TokenUsage,
+): number | null {
+  if (pricing?.input === undefined || pricing.output === undefined) {
+    return null
+  }
+  const reasoningTokens = Math.min(usage.reasoningTokens, usage.outputTokens)
+  return (
+    (usage.inputTokens * pricing.input +
+      (usage.outputTokens - reasoningTokens) * pricing.output +
+      reasoningTokens * (pricing.reasoning ?? pricing.output) +
+      usage.cacheReadTokens * (pricing.cacheRead ?? pricing.input) +
+      usage.cacheWriteTokens * (pricing.cacheWrite ?? pricing.input)) /
+    1_000_000
+  )
+}
+
+export function formatModelPricing(pricing: ModelPricing | undefined): string {
+  if (pricing?.input === undefined || pricing.output === undefined) {
+    return 'unknown'
+  }
+  return PRICING_FIELDS.filter(({ key }) => pricing[key] !== undefined)
+    .map(({ key, label }) => `${label} $${pricing[key]}`)
+    .join(' · ')
+    .concat(' per 1M tokens')
+}
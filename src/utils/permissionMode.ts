@@ -0,0 +1,44 @@
+import {
+  MODE_CONFIGS,
+  type ModeConfig,
+  type PermissionMode,
+} from '@cougar-types/PermissionMode'
+
+// Mirror of the active permission mode so that non-React code (the query
+// loop, tools, print mode) can read it. The REPL's PermissionProvider keeps
+// this in sync and registers itself as the change handler.
+let currentPermissionMode: PermissionMode = 'default'
+let onPermissionModeChange: ((mode: PermissionMode) => void) | null = null
+
+export function getPermissionMode(): PermissionMode {
+  return currentPermissionMode
+}
+
+export function getPermissionModeConfig(): ModeConfig {
+  return MODE_CONFIGS[currentPermissionMode]
+}
+
+/**
+ * Switch the active permission mode. Used by tools (e.g. ExitPlanMode) and
+ * CLI flags; the UI is notified through the registered change handler.
+ */
+export function setPermissionMode(mode: PermissionMode): void {
+  currentPermissionMode = mode
+  if (onPermissionModeChange) {
+    onPermissionModeChange(mode)
+  }
+}
+
+/**
+ * Update the mirrored mode without notifying the handler. Called by the
+ * PermissionProvider after its own state has changed.
+ */
+export function syncPermissionMode(mode: PermissionMode): void {
+  currentPermissionMode = mode
+}
+
+export function setPermissionModeChangeHandler(
+  handler: ((mode: PermissionMode) => void) | null,
+): void {
+  onPermissionModeChange = handler
+}
@@ -1,8 +1,15 @@
-import { isAbsolute, resolve, relative, sep } from 'path'
-import { getCwd, getOriginalCwd } from '@utils/state'
+import { statSync } from 'fs'
+import { homedir } from 'os'
+import { basename, dirname, isAbsolute, join, resolve, relative, sep } from 'path'
+import {
+  getCurrentProjectConfig,
+  saveCurrentProjectConfig,
+} from '@utils/config'
+import { getCwd, getCwdScope, getOriginalCwd } from '@utils/state'
 
 // In-memory storage for file permissions that resets each session
-// Sets of allowed directories for read and write operations
+// Sets of allowed directories for read and write operations. Reads also
+// cover the project's additionalDirectories.
 const readFileAllowedDirectories: Set<string> = new Set()
 const writeFileAllowedDirectories: Set<string> = new Set()
 
@@ -45,6 +52,46 @@ export function pathInOriginalCwd(path: string): boolean {
   return isSubpath(base, absolutePath)
 }
 
+/**
+ * The project's additionalDirectories, as absolute paths
+ */
+export function getConfiguredAdditionalDirectories(): string[] {
+  return (getCurrentProjectConfig().additionalDirectories ?? []).map(
+    directory => resolveDirectory(directory, getOriginalCwd()),
+  )
+}
+
+/**
+ * Resolves a directory given by the user against `base`, expanding `~`
+ */
+export function resolveDirectory(directory: string, base: string): string {
+  return normalizeForCompare(
+    directory === '~' || directory.startsWith('~/')
+      ? join(homedir(), directory.slice(1))
+      : resolve(base, directory),
+  )
+}
+
+/**
+ * Every directory read tools may use without asking: the project, its
+ * additionalDirectories, the directories added this session and those of
+ * the current cwd scope
+ */
+export function getWorkspaceDirectories(): string[] {
+  const directories: string[] = []
+  for (const directory of [
+    toAbsolutePath(getOriginalCwd()),
+    ...getConfiguredAdditionalDirectories(),
+    ...readFileAllowedDirectories,
+    ...(getCwdScope()?.readDirectories ?? []),
+  ]) {
+    if (!directories.some(existing => isSubpath(existing, directory))) {
+      directories.push(directory)
+    }
+  }
+  return directories
+}
+
 /**
  * Check if read permission exists for the specified directory
  * @param directory The directory to check permission for
@@ -52,19 +99,85 @@ export function pathInOriginalCwd(path: string): boolean {
  */
 export function hasReadPermission(directory: string): boolean {
   const absolutePath = toAbsolutePath(directory)
-  for (const allowedPath of readFileAllowedDirectories) {
-    if (isSubpath(allowedPath, absolutePath)) return true
+  const scope = getCwdScope()
+  if (scope && isSubpath(toAbsolutePath(scope.root), absolutePath)) {
+    return true
   }
-  return false
+  return getWorkspaceDirectories().some(allowedPath =>
+    isSubpath(allowedPath, absolutePath),
+  )
+}
+
+// Files that commonly hold credentials. Examples and public keys are fine.
+const SECRET_FILE_PATTERNS = [
+  /^\.env(\.(?!example$|sample$|template$)[^/]+)?$/,
+  /\.pem$/,
+  /^id_[^/]+$(?<!\.pub)/,
+]
+
+export function isSecretFile(path: string): boolean {
+  const name = basename(path)
+  return SECRET_FILE_PATTERNS.some(pattern => pattern.test(name))
+}
+
+/**
+ * Whether reading `path` has to be approved: it is outside the project and
+ * the additional directories, or it looks like it holds secrets. Unlike other
+ * permissions, this applies even when safe mode is off.
+ */
+export function needsReadPermission(path: string): boolean {
+  return isSecretFile(path) || !hasReadPermission(path)
 }
 
 /**
- * Check if write permission exists for the specified directory
+ * Whether a sandboxed command that reads `path` still has to be approved:
+ * the sandbox lets it read secrets in the project, and everything outside
+ * the home directory. Paths the sandbox mounts (`sandboxPaths`) are fine.
+ */
+export function needsSandboxedReadPermission(
+  path: string,
+  sandboxPaths: string[],
+): boolean {
+  if (isSecretFile(path)) {
+    return true
+  }
+  const absolutePath = toAbsolutePath(path)
+  return (
+    !hasReadPermission(absolutePath) &&
+    !sandboxPaths.some(allowedPath =>
+      isSubpath(normalizeForCompare(allowedPath), absolutePath),
+    )
+  )
+}
+
+/**
+ * The directory an approval to read `path` covers: the path itself for a
+ * directory, otherwise the one containing it
+ */
+export function getReadPermissionDirectory(path: string): string {
+  const absolutePath = toAbsolutePath(path)
+  try {
+    if (statSync(absolutePath).isDirectory()) {
+      return absolutePath
+    }
+  } catch {
+    // Doesn't exist (yet); treat it as a file
+  }
+  return dirname(absolutePath)
+}
+
+/**
+ * Check if write permission exists for the specified directory. Inside a
+ * worktree scope, writes are allowed in the worktree and nowhere else.
  * @param directory The directory to check permission for
  * @returns true if write permission exists, false otherwise
  */
 export function hasWritePermission(directory: string): boolean {
   const absolutePath = toAbsolutePath(directory)
+  const scope = getCwdScope()
+  if (scope?.isolated) {
+    return isSubpath(toAbsolutePath(scope.root), absolutePath)
+  }
   for (const allowedPath of writeFileAllowedDirectories) {
     if (isSubpath(allowedPath, absolutePath)) return true
   }
@@ -88,6 +201,36 @@ function saveReadPermission(directory: string): void {
 
 export const saveReadPermissionForTest = saveReadPermission
 
+/**
+ * Lets read tools use a directory without asking for the rest of the session,
+ * as with --add-dir and /add-dir
+ */
+export function grantReadPermission(directory: string): void {
+  saveReadPermission(directory)
+}
+
+/**
+ * Adds a directory to the project's additionalDirectories, so reading from
+ * it is allowed in later sessions too
+ */
+export function saveReadPermissionForProject(directory: string): void {
+  const absolutePath = toAbsolutePath(directory)
+  const projectConfig = getCurrentProjectConfig()
+  const existing = getConfiguredAdditionalDirectories()
+  if (existing.some(allowedPath => isSubpath(allowedPath, absolutePath))) {
+    return
+  }
+  saveCurrentProjectConfig({
+    ...projectConfig,
+    additionalDirectories: [
+      ...(projectConfig.additionalDirectories ?? []).filter(
+        (_, i) => !isSubpath(absolutePath, existing[i]!),
+      ),
+      absolutePath,
+    ],
+  })
+}
+
 /**
  * Grants read permission for the original project directory.
  * This is useful for initializing read access to the project root.
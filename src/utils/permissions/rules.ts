@@ -0,0 +1,377 @@
+import { homedir } from 'os'
+import { basename, isAbsolute, join, resolve } from 'path'
+import { getCurrentProjectConfig } from '@utils/config'
+import { splitCommand } from '@utils/commands'
+import { getCwd, getOriginalCwd } from '@utils/state'
+import { toAbsolutePath } from './filesystem'
+
+/**
+ * Permission rules
+ *
+ * A rule is a tool name, optionally followed by a specifier in parentheses:
+ *
+ *   Bash                      every Bash command
+ *   Bash(git diff:*)          commands starting with `git diff`
+ *   Bash(rm -rf *)            commands matching a glob
+ *   Edit(infra/prod/**)       file edits under a path (relative to the project)
+ *   View(~/.ssh/**)           reads under a path
+ *   URLFetcher(domain:docs.example.com)  fetches from a host and its subdomains
+ *   mcp__github(owner:*)      any string argument of other tools matching a glob
+ *
+ * Rules live in three project lists: `deniedTools`, `askTools` and the
+ * existing `allowedTools`. Deny always wins. Ask wins over allow, except that
+ * a scoped allow rule overrides a bare ask rule for the same tool, so
+ * `ask: [URLFetcher]` plus `allow: [URLFetcher(domain:docs.example.com)]`
+ * only lets that one domain through silently.
+ *
+ * For Bash, deny and ask rules are checked against the full command and
+ * against every sub-command, so `cd foo && rm -rf /` matches `Bash(rm -rf:*)`.
+ *
+ * Rules given on the command line (`--allowedTools`, `--disallowedTools`)
+ * are kept in memory for the current invocation and never saved.
+ */
+
+export type PermissionRuleBehavior = 'allow' | 'deny' | 'ask'
+
+export type PermissionRule = {
+  toolName: string
+  specifier: string | null
+  source: string
+}
+
+export type PermissionRuleMatch = {
+  behavior: PermissionRuleBehavior
+  rule: PermissionRule
+}
+
+// Claude Code tool names and tool groups, so rules copied from
+// `.claude/settings.json` keep working
+export const TOOL_NAME_ALIASES: Record<string, string[]> = {
+  Read: ['View', 'GrepTool', 'GlobTool', 'LS', 'ReadNotebook'],
+  Edit: ['Edit', 'MultiEdit', 'Replace', 'NotebookEditCell'],
+  Write: ['Replace'],
+  Grep: ['GrepTool'],
+  Glob: ['GlobTool'],
+  WebFetch: ['URLFetcher'],
+  NotebookEdit: ['NotebookEditCell'],
+  NotebookRead: ['ReadNotebook'],
+}
+
+const PATH_INPUT_KEYS = ['file_path', 'notebook_path', 'path']
+const PATH_TOOLS = new Set([
+  ...TOOL_NAME_ALIASES.Read!,
+  ...TOOL_NAME_ALIASES.Edit!,
+])
+
+const RULE_PATTERN = /^([^()\s]+)(?:\((.*)\))?$/s
+
+export function parsePermissionRule(source: string): PermissionRule | null {
+  const match = source.trim().match(RULE_PATTERN)
+  if (!match) {
+    return null
+  }
+  const specifier = match[2]?.trim()
+  return {
+    toolName: match[1]!,
+    specifier: specifier ? specifier : null,
+    source,
+  }
+}
+
+export function formatPermissionRule(rule: PermissionRule): string {
+  return rule.specifier ? `${rule.toolName}(${rule.specifier})` : rule.toolName
+}
+
+function ruleAppliesToTool(rule: PermissionRule, toolName: string): boolean {
+  return (
+    rule.toolName === toolName ||
+    (TOOL_NAME_ALIASES[rule.toolName]?.includes(toolName) ?? false)
+  )
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Convert a glob to a regular expression. `**` matches across path
+ * separators, `*` matches within one segment unless `anyChar` is set.
+ */
+function globToRegExp(glob: string, anyChar = false): RegExp {
+  let pattern = ''
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // `**/` also matches zero directories
+        if (glob[i + 2] === '/') {
+          pattern += '(?:.*/)?'
+          i += 2
+        } else {
+          pattern += '.*'
+          i += 1
+        }
+      } else {
+        pattern += anyChar ? '.*' : '[^/]*'
+      }
+    } else if (char === '?') {
+      pattern += anyChar ? '.' : '[^/]'
+    } else {
+      pattern += escapeRegExp(char)
+    }
+  }
+  return new RegExp(`^${pattern}$`, process.platform === 'win32' ? 'i' : '')
+}
+
+function matchesCommand(specifier: string, command: string): boolean {
+  // Legacy prefix form: `git diff:*`
+  if (specifier.endsWith(':*')) {
+    const prefix = specifier.slice(0, -2)
+    return command === prefix || command.startsWith(prefix + ' ')
+  }
+  if (specifier.includes('*') || specifier.includes('?')) {
+    return globToRegExp(specifier, true).test(command)
+  }
+  return command === specifier
+}
+
+function resolveRulePath(pattern: string): string {
+  if (pattern === '~' || pattern.startsWith('~/')) {
+    return join(homedir(), pattern.slice(1))
+  }
+  if (isAbsolute(pattern)) {
+    return pattern
+  }
+  return resolve(getOriginalCwd(), pattern)
+}
+
+function matchesPath(specifier: string, path: string): boolean {
+  const absolutePath = toAbsolutePath(path)
+  // Patterns without a directory part match the file name anywhere: `*.pem`
+  if (!specifier.includes('/')) {
+    return globToRegExp(specifier).test(basename(absolutePath))
+  }
+  const resolvedPattern = toAbsolutePath(resolveRulePath(specifier))
+  return (
+    globToRegExp(resolvedPattern).test(absolutePath) ||
+    // A directory pattern also covers everything below it
+    globToRegExp(`${resolvedPattern.replace(/\/$/, '')}/**`).test(absolutePath)
+  )
+}
+
+function matchesDomain(domainPattern: string, url: string): boolean {
+  let hostname: string
+  try {
+    hostname = new URL(url).hostname.toLowerCase()
+  } catch {
+    return false
+  }
+  const pattern = domainPattern.toLowerCase()
+  if (pattern.includes('*')) {
+    return globToRegExp(pattern, true).test(hostname)
+  }
+  return hostname === pattern || hostname.endsWith('.' + pattern)
+}
+
+function getInputPath(input: { [key: string]: unknown }): string | null {
+  for (const key of PATH_INPUT_KEYS) {
+    if (typeof input[key] === 'string' && input[key]) {
+      return input[key] as string
+    }
+  }
+  return null
+}
+
+/**
+ * Check whether a single rule matches a tool call. For Bash, `command` is
+ * matched as given; callers decide whether to pass sub-commands.
+ */
+function ruleMatches(
+  rule: PermissionRule,
+  toolName: string,
+  input: { [key: string]: unknown },
+): boolean {
+  if (!ruleAppliesToTool(rule, toolName)) {
+    return false
+  }
+  if (rule.specifier === null) {
+    return true
+  }
+
+  const { specifier } = rule
+  if (toolName === 'Bash') {
+    return (
+      typeof input.command === 'string' &&
+      matchesCommand(specifier, input.command)
+    )
+  }
+  if (specifier.startsWith('domain:')) {
+    return (
+      typeof input.url === 'string' &&
+      matchesDomain(specifier.slice('domain:'.length), input.url)
+    )
+  }
+
+  const path = getInputPath(input)
+  if (path !== null || PATH_TOOLS.has(toolName)) {
+    // Search tools default to the current directory when no path is given
+    return matchesPath(specifier, path ?? getCwd())
+  }
+
+  // Generic tools: match any string argument against the glob
+  const regexp = globToRegExp(specifier, true)
+  return Object.values(input).some(
+    value => typeof value === 'string' && regexp.test(value),
+  )
+}
+
+const sessionRules: Record<PermissionRuleBehavior, string[]> = {
+  allow: [],
+  deny: [],
+  ask: [],
+}
+
+export function addSessionPermissionRules(
+  behavior: PermissionRuleBehavior,
+  sources: string[],
+): void {
+  sessionRules[behavior].push(...sources)
+}
+
+export function getSessionPermissionRules(
+  behavior: PermissionRuleBehavior,
+): string[] {
+  return sessionRules[behavior]
+}
+
+/**
+ * Split a comma or whitespace separated list of rules, keeping separators
+ * inside parentheses: `Read,Bash(git diff:*) Edit` is three rules.
+ */
+export function parsePermissionRuleList(value: string): string[] {
+  const rules: string[] = []
+  let current = ''
+  let depth = 0
+  for (const char of value) {
+    if (char === '(') depth++
+    if (char === ')') depth = Math.max(0, depth - 1)
+    if (depth === 0 && (char === ',' || /\s/.test(char))) {
+      if (current) rules.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  if (current) rules.push(current)
+  return rules
+}
+
+function parseRules(sources: string[] | undefined): PermissionRule[] {
+  return (sources ?? [])
+    .map(parsePermissionRule)
+    .filter((rule): rule is PermissionRule => rule !== null)
+}
+
+export function getPermissionRules(): Record<
+  PermissionRuleBehavior,
+  PermissionRule[]
+> {
+  const projectConfig = getCurrentProjectConfig()
+  return {
+    allow: parseRules([...projectConfig.allowedTools, ...sessionRules.allow]),
+    deny: parseRules([
+      ...(projectConfig.deniedTools ?? []),
+      ...sessionRules.deny,
+    ]),
+    ask: parseRules([...(projectConfig.askTools ?? []), ...sessionRules.ask]),
+  }
+}
+
+function findMatch(
+  rules: PermissionRule[],
+  toolName: string,
+  inputs: { [key: string]: unknown }[],
+): PermissionRule | undefined {
+  return rules.find(rule =>
+    inputs.some(input => ruleMatches(rule, toolName, input)),
+  )
+}
+
+/**
+ * Evaluate deny, ask and allow rules for a tool call. Returns null when no
+ * rule matches and the regular permission flow should decide.
+ */
+export function evaluatePermissionRules(
+  toolName: string,
+  input: { [key: string]: unknown },
+  rules = getPermissionRules(),
+): PermissionRuleMatch | null {
+  // Bash deny/ask rules apply to every sub-command as well as the whole line
+  const inputs =
+    toolName === 'Bash' && typeof input.command === 'string'
+      ? [
+          input,
+          ...splitCommand(input.command).map(command => ({
+            ...input,
+            command,
+          })),
+        ]
+      : [input]
+
+  const denyRule = findMatch(rules.deny, toolName, inputs)
+  if (denyRule) {
+    return { behavior: 'deny', rule: denyRule }
+  }
+
+  const allowRule = findAllowRule(rules.allow, toolName, input)
+  const askRule = findMatch(rules.ask, toolName, inputs)
+  if (askRule && !(allowRule?.specifier && askRule.specifier === null)) {
+    return { behavior: 'ask', rule: askRule }
+  }
+  if (allowRule) {
+    return { behavior: 'allow', rule: allowRule }
+  }
+  return null
+}
+
+// Command substitution and process substitution can hide arbitrary commands
+// inside an otherwise allowed one, so glob allow rules never cover them
+const COMMAND_SUBSTITUTION_PATTERN = /\$\(|`|<\(|>\(/
+
+/**
+ * The `Bash(prefix:*)` keys written by the permission dialog are handled by
+ * the prefix-detection logic in permissions.ts rather than here. A Bash
+ * command is allowed only when every sub-command is covered by a glob rule.
+ */
+function findAllowRule(
+  rules: PermissionRule[],
+  toolName: string,
+  input: { [key: string]: unknown },
+): PermissionRule | undefined {
+  const toolRules = rules.filter(rule => ruleAppliesToTool(rule, toolName))
+  const bareRule = toolRules.find(rule => rule.specifier === null)
+  if (bareRule) {
+    return bareRule
+  }
+  if (toolName !== 'Bash') {
+    return toolRules.find(rule => ruleMatches(rule, toolName, input))
+  }
+
+  if (
+    typeof input.command !== 'string' ||
+    COMMAND_SUBSTITUTION_PATTERN.test(input.command)
+  ) {
+    return undefined
+  }
+  const globRules = toolRules.filter(rule => !rule.specifier!.endsWith(':*'))
+  let lastMatch: PermissionRule | undefined
+  for (const command of splitCommand(input.command)) {
+    lastMatch = globRules.find(rule =>
+      ruleMatches(rule, toolName, { ...input, command }),
+    )
+    if (!lastMatch) {
+      return undefined
+    }
+  }
+  return lastMatch
+}
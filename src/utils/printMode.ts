@@ -0,0 +1,280 @@
+import { createInterface } from 'readline'
+import type { ContentBlockParam } from '@anthropic-ai/sdk/resources/index.mjs'
+import {
+  getTotalAPIDuration,
+  getTotalCost,
+  getTotalDuration,
+} from '@costTracker'
+import type { Message } from '@query'
+import { ask } from './ask'
+import { SESSION_ID } from './log'
+
+/**
+ * Non-interactive (`-p`) output and input formats
+ *
+ *   text         print the final assistant text (default)
+ *   json         print one result object per turn
+ *   stream-json  print one NDJSON event per message produced by query(),
+ *                followed by a result event per turn
+ *
+ * With `--input-format stream-json`, each stdin line is a user turn in the
+ * form `{"type":"user","message":{"role":"user","content":"..."}}`.
+ */
+
+export const OUTPUT_FORMATS = ['text', 'json', 'stream-json'] as const
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number]
+
+// Distinct from the generic failure code so CI can tell a run that was cut
+// off by --max-turns from one that failed
+export const MAX_TURNS_EXIT_CODE = 3
+// Likewise for a run stopped by the project's hard budget
+export const BUDGET_EXCEEDED_EXIT_CODE = 4
+
+export const INPUT_FORMATS = ['text', 'stream-json'] as const
+export type InputFormat = (typeof INPUT_FORMATS)[number]
+
+type AskOptions = Omit<
+  Parameters<typeof ask>[0],
+  'prompt' | 'previousMessages' | 'onMessage'
+>
+
+type StreamEvent = { type: string; session_id: string } & Record<
+  string,
+  unknown
+>
+
+type TurnResult = {
+  resultText: string
+  isError: boolean
+  numTurns: number
+  maxTurnsReached: boolean
+  budgetExceeded: boolean
+}
+
+function writeEvent(event: StreamEvent): void {
+  process.stdout.write(JSON.stringify(event) + '\n')
+}
+
+/**
+ * Convert a message produced by query() into stream-json events. Tool uses
+ * and tool results get their own events so drivers don't need to unpack
+ * message content.
+ */
+export function messageToStreamEvents(message: Message): StreamEvent[] {
+  switch (message.type) {
+    case 'assistant': {
+      const events: StreamEvent[] = [
+        {
+          type: 'assistant',
+          session_id: SESSION_ID,
+          uuid: message.uuid,
+          message: message.message,
+          cost_usd: message.costUSD,
+          duration_ms: message.durationMs,
+        },
+      ]
+      for (const block of message.message.content) {
+        if (block.type === 'tool_use') {
+          events.push({
+            type: 'tool_use',
+            session_id: SESSION_ID,
+            id: block.id,
+            name: block.name,
+            input: block.input,
+          })
+        }
+      }
+      return events
+    }
+    case 'user': {
+      const { content } = message.message
+      const toolResults = Array.isArray(content)
+        ? content.filter(block => block.type === 'tool_result')
+        : []
+      if (toolResults.length === 0) {
+        return [
+          {
+            type: 'user',
+            session_id: SESSION_ID,
+            uuid: message.uuid,
+            message: message.message,
+          },
+        ]
+      }
+      return toolResults.map(block => ({
+        type: 'tool_result',
+        session_id: SESSION_ID,
+        tool_use_id: block.tool_use_id,
+        content: block.content,
+        is_error: block.is_error ?? false,
+      }))
+    }
+    case 'progress':
+      return [
+        {
+          type: 'progress',
+          session_id: SESSION_ID,
+          tool_use_id: message.toolUseID,
+          message: message.content.message,
+        },
+      ]
+  }
+}
+
+function createResultEvent(
+  result: TurnResult | { error: string },
+): StreamEvent {
+  const base = {
+    type: 'result',
+    session_id: SESSION_ID,
+    total_cost_usd: getTotalCost(),
+    duration_ms: getTotalDuration(),
+    duration_api_ms: getTotalAPIDuration(),
+  }
+  if ('error' in result) {
+    return {
+      ...base,
+      subtype: 'error_during_execution',
+      is_error: true,
+      num_turns: 0,
+      result: result.error,
+    }
+  }
+  return {
+    ...base,
+    subtype: result.maxTurnsReached
+      ? 'error_max_turns'
+      : result.budgetExceeded
+        ? 'error_budget_exceeded'
+        : result.isError
+          ? 'error_during_execution'
+          : 'success',
+    is_error: result.isError,
+    num_turns: result.numTurns,
+    result: result.resultText,
+  }
+}
+
+function printTurnResult(
+  outputFormat: OutputFormat,
+  result: TurnResult | { error: string },
+): void {
+  if (outputFormat !== 'text') {
+    writeEvent(createResultEvent(result))
+  } else if ('error' in result) {
+    console.error(result.error)
+  } else if (result.maxTurnsReached || result.budgetExceeded) {
+    console.error(`Error: ${result.resultText}`)
+  } else {
+    console.log(result.resultText)
+  }
+}
+
+/**
+ * Read user turns from stdin in stream-json format. Lines that are not
+ * valid user messages are rejected rather than skipped, so a driver notices
+ * protocol mistakes.
+ */
+async function* readStreamJsonInput(): AsyncGenerator<
+  string | ContentBlockParam[]
+> {
+  const lines = createInterface({ input: process.stdin, terminal: false })
+  for await (const line of lines) {
+    if (!line.trim()) {
+      continue
+    }
+    let parsed: { type?: string; message?: { content?: unknown } }
+    try {
+      parsed = JSON.parse(line)
+    } catch {
+      throw new Error(`Invalid stream-json input line: ${line}`)
+    }
+    const content = parsed.message?.content
+    if (
+      parsed.type !== 'user' ||
+      (typeof content !== 'string' && !Array.isArray(content))
+    ) {
+      throw new Error(
+        `Expected a user message on stdin, got: ${line.slice(0, 200)}`,
+      )
+    }
+    yield content as string | ContentBlockParam[]
+  }
+}
+
+/**
+ * Run print mode and return the process exit code.
+ */
+export async function runPrintMode({
+  prompt,
+  outputFormat,
+  inputFormat,
+  ...askOptions
+}: AskOptions & {
+  prompt: string
+  outputFormat: OutputFormat
+  inputFormat: InputFormat
+}): Promise<number> {
+  if (outputFormat === 'stream-json') {
+    writeEvent({
+      type: 'system',
+      subtype: 'init',
+      session_id: SESSION_ID,
+      cwd: askOptions.cwd,
+      tools: askOptions.tools.map(tool => tool.name),
+    })
+  }
+
+  let previousMessages: Message[] = []
+  let exitCode = 0
+
+  const runTurn = async (turnPrompt: string | ContentBlockParam[]) => {
+    try {
+      const result = await ask({
+        ...askOptions,
+        prompt: turnPrompt,
+        previousMessages,
+        onMessage: message => {
+          // Notices such as a model fallback go to stderr in every format,
+          // so they never mix with the output on stdout
+          if (message.type === 'progress' && message.notice) {
+            console.error(message.notice)
+          } else if (outputFormat === 'stream-json') {
+            messageToStreamEvents(message).forEach(writeEvent)
+          }
+        },
+      })
+      previousMessages = result.messages
+      printTurnResult(outputFormat, result)
+      if (result.maxTurnsReached) {
+        exitCode = MAX_TURNS_EXIT_CODE
+      } else if (result.budgetExceeded) {
+        exitCode = BUDGET_EXCEEDED_EXIT_CODE
+      } else if (result.isError) {
+        exitCode = 1
+      }
+    } catch (error) {
+      printTurnResult(outputFormat, {
+        error: error instanceof Error ? error.message : String(error),
+      })
+      exitCode = 1
+    }
+  }
+
+  if (prompt) {
+    await runTurn(prompt)
+  }
+  if (inputFormat === 'stream-json') {
+    try {
+      for await (const turnPrompt of readStreamJsonInput()) {
+        await runTurn(turnPrompt)
+      }
+    } catch (error) {
+      printTurnResult(outputFormat, {
+        error: error instanceof Error ? error.message : String(error),
+      })
+      return 1
+    }
+  }
+  return exitCode
+}
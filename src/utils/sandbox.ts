@@ -0,0 +1,400 @@
+import { execFileSync } from 'child_process'
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  unlinkSync,
+  writeFileSync,
+} from 'fs'
+import { connect, createServer, type Socket } from 'net'
+import { homedir, tmpdir } from 'os'
+import { dirname, join, resolve } from 'path'
+import { memoize, uniq } from 'lodash-es'
+import { PRODUCT_COMMAND } from '@constants/product'
+import { getGlobalConfig, type ProjectConfig } from './config'
+import { logError } from './log'
+
+/**
+ * Optional OS sandbox for Bash commands on Linux, built on bubblewrap
+ * (`bwrap`). The whole filesystem is mounted read-only except the project,
+ * the temp directory and the configured sandboxWritablePaths. Inside those,
+ * settings directories and git hooks and config stay read-only, since
+ * changing them would run code outside the sandbox. The home directory, where
+ * credentials live, is replaced by an empty one holding only the project, the
+ * additionalDirectories and the configured sandboxReadablePaths. The network
+ * namespace is unshared, so nothing is reachable; when sandboxAllowedHosts is
+ * set, a proxy in this process forwards HTTP(S) to those hosts only, through
+ * a Unix socket bridged into the sandbox.
+ *
+ * Only bubblewrap is supported; without it Bash runs unsandboxed, with the
+ * usual permission prompts.
+ */
+
+// Where the bridge listens inside the sandbox; the network namespace is the
+// sandbox's own, so the port cannot clash
+const PROXY_PORT = 3128
+
+// Body of the proxy's refusal, so failed commands can be recognized
+const NETWORK_DENIED_MARKER = 'Blocked by sandbox'
+
+// Read-only even inside writable paths: settings files carry lifecycle hooks
+// and permission rules, and git runs hooks and commands from its config
+// (core.fsmonitor, core.hooksPath)
+const PROTECTED_PATHS = ['.claude', '.cougar', '.git/hooks', '.git/config']
+
+// Created in the root when missing, so that a command cannot add them either
+const PROTECTED_SETTINGS_DIRS = ['.claude', '.cougar']
+
+// Forwards connections on the sandbox's loopback to the proxy's Unix socket
+const BRIDGE_SCRIPT = `const net = require('net')
+const [socketPath, port] = process.argv.slice(2)
+net
+  .createServer(client => {
+    const upstream = net.connect(socketPath)
+    client.pipe(upstream).pipe(client)
+    client.on('error', () => upstream.destroy())
+    upstream.on('error', () => client.destroy())
+  })
+  .listen(Number(port), '127.0.0.1')
+`
+
+export type SandboxSettings = {
+  // The home directory is hidden; these are mounted read-only into it
+  readablePaths: string[]
+  writablePaths: string[]
+  // Inside writablePaths, mounted read-only over them
+  readOnlyPaths: string[]
+  allowedHosts: string[]
+}
+
+// Looked up by directory rather than through getCurrentProjectConfig(),
+// which asks the shell for its cwd and so cannot be used while starting one
+function getSandboxConfig(
+  projectCwd: string,
+): Pick<
+  ProjectConfig,
+  | 'sandbox'
+  | 'sandboxWritablePaths'
+  | 'sandboxReadablePaths'
+  | 'sandboxAllowedHosts'
+  | 'additionalDirectories'
+> {
+  return getGlobalConfig().projects?.[resolve(projectCwd)] ?? {}
+}
+
+// Configured paths are relative to the project, or absolute, or under ~
+function resolveConfiguredPath(path: string, projectCwd: string): string {
+  return path === '~' || path.startsWith('~/')
+    ? join(homedir(), path.slice(1))
+    : resolve(projectCwd, path)
+}
+
+export function isSandboxEnabled(projectCwd: string): boolean {
+  return getSandboxConfig(projectCwd).sandbox === true
+}
+
+export const isSandboxAvailable = memoize((): boolean => {
+  if (process.platform !== 'linux') {
+    return false
+  }
+  try {
+    execFileSync('bwrap', ['--version'], { stdio: 'ignore', timeout: 2000 })
+    return true
+  } catch {
+    return false
+  }
+})
+
+export function isSandboxActive(projectCwd: string): boolean {
+  return isSandboxEnabled(projectCwd) && isSandboxAvailable()
+}
+
+/**
+ * What a sandbox rooted at `root` may reach. The settings come from the
+ * project at `projectCwd`, which differs from the root in task worktrees.
+ */
+export function getSandboxSettings(
+  root: string,
+  projectCwd: string = root,
+): SandboxSettings {
+  const config = getSandboxConfig(projectCwd)
+  const writablePaths = uniq(
+    [
+      root,
+      tmpdir(),
+      '/tmp',
+      ...(config.sandboxWritablePaths ?? []).map(path =>
+        resolveConfiguredPath(path, projectCwd),
+      ),
+    ].filter(path => existsSync(path)),
+  )
+  return {
+    readablePaths: uniq(
+      [
+        ...(config.additionalDirectories ?? []),
+        ...(config.sandboxReadablePaths ?? []),
+      ].map(path => resolveConfiguredPath(path, projectCwd)),
+    ).filter(path => existsSync(path)),
+    writablePaths,
+    readOnlyPaths: uniq(
+      writablePaths.flatMap(path =>
+        PROTECTED_PATHS.map(name => join(path, name)),
+      ),
+    ).filter(path => existsSync(path)),
+    allowedHosts: config.sandboxAllowedHosts ?? [],
+  }
+}
+
+let unavailableWarningShown = false
+
+/**
+ * Explains, once per session, that the sandbox is turned on but cannot run
+ */
+export function getSandboxUnavailableWarning(
+  projectCwd: string,
+): string | null {
+  if (
+    unavailableWarningShown ||
+    !isSandboxEnabled(projectCwd) ||
+    isSandboxAvailable()
+  ) {
+    return null
+  }
+  unavailableWarningShown = true
+  return process.platform === 'linux'
+    ? 'Sandbox is enabled but bubblewrap (bwrap) was not found, so commands run without it. Install bubblewrap to sandbox commands.'
+    : 'Sandbox is enabled but only supported on Linux, so commands run without it.'
+}
+
+function isHostAllowed(host: string, allowedHosts: string[]): boolean {
+  return allowedHosts.some(pattern =>
+    pattern.startsWith('*.')
+      ? host === pattern.slice(2) || host.endsWith(pattern.slice(1))
+      : host === pattern,
+  )
+}
+
+/**
+ * Handles one proxied connection: a CONNECT tunnel or a plain HTTP request
+ * with an absolute URL. Anything not going to an allowed host gets a 403.
+ */
+function handleProxyConnection(client: Socket, allowedHosts: string[]): void {
+  let buffer = Buffer.alloc(0)
+  client.on('error', () => client.destroy())
+
+  const onData = (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk])
+    const headerEnd = buffer.indexOf('\r\n\r\n')
+    if (headerEnd === -1) {
+      if (buffer.length > 64 * 1024) {
+        client.destroy()
+      }
+      return
+    }
+    client.off('data', onData)
+
+    const [requestLine = '', ...headers] = buffer
+      .subarray(0, headerEnd)
+      .toString('latin1')
+      .split('\r\n')
+    const [method, target = '', version = 'HTTP/1.1'] = requestLine.split(' ')
+    const body = buffer.subarray(headerEnd + 4)
+    const isConnect = method === 'CONNECT'
+
+    let url: URL
+    try {
+      url = new URL(isConnect ? `http://${target}` : target)
+    } catch {
+      client.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n')
+      return
+    }
+    const host = url.hostname.replace(/^\[|\]$/g, '')
+    const port = Number(url.port) || (isConnect ? 443 : 80)
+
+    if (!isHostAllowed(host, allowedHosts)) {
+      client.end(
+        `HTTP/1.1 403 Forbidden\r\nContent-Type: text/plain\r\nConnection: close\r\n\r\n${NETWORK_DENIED_MARKER}: ${host} is not in sandboxAllowedHosts\n`,
+      )
+      return
+    }
+
+    const upstream = connect(port, host, () => {
+      if (isConnect) {
+        client.write('HTTP/1.1 200 Connection Established\r\n\r\n')
+      } else {
+        // One request per connection, so every request gets its host checked
+        const forwarded = [
+          `${method} ${url.pathname}${url.search} ${version}`,
+          ...headers.filter(header => !/^(proxy-)?connection:/i.test(header)),
+          'Connection: close',
+        ]
+        upstream.write(forwarded.join('\r\n') + '\r\n\r\n')
+      }
+      if (body.length > 0) {
+        upstream.write(body)
+      }
+      client.pipe(upstream).pipe(client)
+    })
+    upstream.on('error', () => {
+      client.end('HTTP/1.1 502 Bad Gateway\r\nConnection: close\r\n\r\n')
+    })
+    client.on('close', () => upstream.destroy())
+  }
+  client.on('data', onData)
+}
+
+/**
+ * Starts the proxy for allowed hosts, once per process, and returns its
+ * socket path
+ */
+const startSandboxProxy = memoize(
+  (allowedHosts: string[]): string => {
+    const socketPath = join(
+      tmpdir(),
+      `${PRODUCT_COMMAND}-sandbox-${process.pid}.sock`,
+    )
+    if (existsSync(socketPath)) {
+      unlinkSync(socketPath)
+    }
+    const server = createServer(client =>
+      handleProxyConnection(client, allowedHosts),
+    )
+    server.on('error', error => logError(`Sandbox proxy error: ${error}`))
+    server.listen(socketPath)
+    server.unref()
+    return socketPath
+  },
+  allowedHosts => allowedHosts.join(','),
+)
+
+function getBridgeScriptPath(): string {
+  const path = join(tmpdir(), `${PRODUCT_COMMAND}-sandbox-bridge.cjs`)
+  if (!existsSync(path) || readFileSync(path, 'utf8') !== BRIDGE_SCRIPT) {
+    writeFileSync(path, BRIDGE_SCRIPT)
+  }
+  return path
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/'/g, "'\\''")}'`
+}
+
+/**
+ * Command line that runs `bin args` inside the sandbox
+ */
+export function wrapInSandbox(
+  bin: string,
+  args: string[],
+  root: string,
+  projectCwd: string = root,
+): { bin: string; args: string[] } {
+  for (const name of PROTECTED_SETTINGS_DIRS) {
+    try {
+      mkdirSync(join(root, name), { recursive: true })
+    } catch (error) {
+      logError(`Failed to create ${join(root, name)}: ${error}`)
+    }
+  }
+  const { readablePaths, writablePaths, readOnlyPaths, allowedHosts } =
+    getSandboxSettings(root, projectCwd)
+  const home = homedir()
+  const bwrapArgs = [
+    '--die-with-parent',
+    '--unshare-net',
+    '--unshare-pid',
+    '--ro-bind',
+    '/',
+    '/',
+    '--dev',
+    '/dev',
+    '--proc',
+    '/proc',
+    ...(home && resolve(home) !== '/' ? ['--tmpfs', home] : []),
+    // After the home directory is hidden, so they are mounted into it
+    ...readablePaths.flatMap(path => ['--ro-bind', path, path]),
+    ...writablePaths.flatMap(path => ['--bind', path, path]),
+    // After the writable binds, so they are mounted over them
+    ...readOnlyPaths.flatMap(path => ['--ro-bind', path, path]),
+  ]
+
+  if (allowedHosts.length === 0) {
+    return { bin: 'bwrap', args: [...bwrapArgs, '--', bin, ...args] }
+  }
+
+  const proxyUrl = `http://127.0.0.1:${PROXY_PORT}`
+  for (const name of [
+    'HTTP_PROXY',
+    'HTTPS_PROXY',
+    'http_proxy',
+    'https_proxy',
+  ]) {
+    bwrapArgs.push('--setenv', name, proxyUrl)
+  }
+  bwrapArgs.push('--unsetenv', 'NO_PROXY', '--unsetenv', 'no_proxy')
+  // The bridge runs on this Node, which may be installed under the home
+  // directory
+  const nodeDir = dirname(process.execPath)
+  bwrapArgs.push('--ro-bind', nodeDir, nodeDir)
+
+  const bridge = [
+    process.execPath,
+    getBridgeScriptPath(),
+    startSandboxProxy(allowedHosts),
+    String(PROXY_PORT),
+  ]
+    .map(quote)
+    .join(' ')
+  return {
+    bin: 'bwrap',
+    args: [
+      ...bwrapArgs,
+      '--',
+      '/bin/sh',
+      '-c',
+      // In a subshell, so the bridge is not one of the shell's children
+      `(${bridge} &)\nexec "$@"`,
+      'sandbox',
+      bin,
+      ...args,
+    ],
+  }
+}
+
+/**
+ * A note for the model when a sandboxed command's output suggests the
+ * sandbox stopped it, or null
+ */
+export function getSandboxViolationHint(
+  output: string,
+  root: string,
+  projectCwd: string = root,
+): string | null {
+  const { readablePaths, writablePaths, allowedHosts } = getSandboxSettings(
+    root,
+    projectCwd,
+  )
+  const networkRule = allowedHosts.length
+    ? `network access only to ${allowedHosts.join(', ')} through an HTTP(S) proxy`
+    : 'no network access'
+
+  if (/Read-only file system/.test(output)) {
+    return `This command runs in a sandbox that only allows writes in ${writablePaths.join(', ')}, except for ${PROTECTED_PATHS.join(', ')} in them, and it appears to have failed because of that. If the user agrees, they can allow another path with \`${PRODUCT_COMMAND} config set sandboxWritablePaths <paths>\`.`
+  }
+  const home = homedir()
+  if (
+    home &&
+    output.includes(home) &&
+    /No such file or directory|cannot access/.test(output)
+  ) {
+    return `This command runs in a sandbox that hides the home directory except for ${[...readablePaths, ...writablePaths].filter(path => path.startsWith(home)).join(', ') || 'nothing'}, and it appears to have failed because of that. If the user agrees, they can make another path readable with \`${PRODUCT_COMMAND} config set sandboxReadablePaths <paths>\`.`
+  }
+  if (
+    output.includes(NETWORK_DENIED_MARKER) ||
+    /Network is unreachable|Could not resolve host|Temporary failure in name resolution|Name or service not known|ENOTFOUND|EAI_AGAIN/.test(
+      output,
+    )
+  ) {
+    return `This command runs in a sandbox with ${networkRule}, and it appears to have failed because of that. If the user agrees, they can allow hosts with \`${PRODUCT_COMMAND} config set sandboxAllowedHosts <hosts>\`.`
+  }
+  return null
+}
@@ -2,6 +2,8 @@
 type SessionState = {
   modelErrors: Record<string, unknown>
   currentError: string | null
+  thinkingLevel: 'off' | 'low' | 'medium' | 'high' | null // Set with /think
+  thinkingExpanded: boolean // Thinking blocks shown in full instead of collapsed
 }
 
 const isDebug =
@@ -12,6 +14,8 @@ const isDebug =
 const sessionState: SessionState = {
   modelErrors: {},
   currentError: null,
+  thinkingLevel: null,
+  thinkingExpanded: false,
 } as const
 
 function setSessionState<K extends keyof SessionState>(
@@ -24,7 +28,7 @@ function setSessionState(
   value?: any,
 ): void {
   if (typeof keyOrState === 'string') {
-    sessionState[keyOrState] = value
+    Object.assign(sessionState, { [keyOrState]: value })
   } else {
     Object.assign(sessionState, keyOrState)
   }
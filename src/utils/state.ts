@@ -1,4 +1,6 @@
+import { AsyncLocalStorage } from 'async_hooks'
 import { cwd } from 'process'
+import { runInAsyncContext } from './generators'
 import { PersistentShell } from './PersistentShell'
 
 // DO NOT ADD MORE STATE HERE OR BORIS WILL CURSE YOU
@@ -8,9 +10,44 @@ const STATE: {
   originalCwd: cwd(),
 }
 
+/**
+ * A directory that stands in for the working directory while a sub-agent
+ * runs in its worktree (see utils/worktree.ts) or an SDK query runs (see
+ * entrypoints/sdk.ts). Inside the scope, getCwd(), getOriginalCwd() and
+ * getShell() refer to the scope instead of the session.
+ */
+export type CwdScope = {
+  root: string
+  // The session's directory, which project config stays keyed by
+  projectCwd: string
+  shell: PersistentShell
+  // A sub-agent's worktree: writes are confined to it and not checkpointed
+  isolated: boolean
+  // Directories besides the root that read tools may use without asking
+  readDirectories?: string[]
+}
+
+const cwdScope = new AsyncLocalStorage<CwdScope>()
+
+export function getCwdScope(): CwdScope | undefined {
+  return cwdScope.getStore()
+}
+
+// Tool calls made by the generator see the scoped directory
+export function runInCwdScope<T>(
+  scope: CwdScope,
+  generator: AsyncGenerator<T, void>,
+): AsyncGenerator<T, void> {
+  return runInAsyncContext(cwdScope, scope, generator)
+}
+
+export function getShell(): PersistentShell {
+  return cwdScope.getStore()?.shell ?? PersistentShell.getInstance()
+}
+
 export async function setCwd(cwd: string): Promise<void> {
   try {
-    await PersistentShell.getInstance().setCwd(cwd)
+    await getShell().setCwd(cwd)
   } catch {
     process.chdir(cwd)
   }
@@ -21,12 +58,12 @@ export function setOriginalCwd(cwd: string): void {
 }
 
 export function getOriginalCwd(): string {
-  return STATE.originalCwd
+  return cwdScope.getStore()?.root ?? STATE.originalCwd
 }
 
 export function getCwd(): string {
   try {
-    return PersistentShell.getInstance().pwd()
+    return getShell().pwd()
   } catch {
     return process.cwd()
   }
@@ -1,7 +1,7 @@
 import { existsSync, readFileSync } from 'fs'
 import { join, parse, dirname } from 'path'
 import { memoize } from 'lodash-es'
-import { getCwd } from './state'
+import { getCwd, getOriginalCwd } from './state'
 import { PROJECT_FILE } from '@constants/product'
 
 const STYLE_PROMPT =
@@ -26,4 +26,4 @@ export const getCodeStyle = memoize((): string => {
   }
 
   return `${STYLE_PROMPT}\n\n${styles.reverse().join('\n\n')}`
-})
+}, getOriginalCwd)
@@ -3,6 +3,35 @@ import type { Message } from '@query'
 import { getLastAssistantMessageId } from './messages'
 import { ThinkTool } from '@tools/ThinkTool/ThinkTool'
 import { USE_BEDROCK, USE_VERTEX, getModelManager } from './model'
+import {
+  SessionState,
+  getSessionState,
+  setSessionState,
+} from './sessionState'
+
+export type ThinkingLevel = NonNullable<SessionState['thinkingLevel']>
+
+export const THINKING_LEVELS: ThinkingLevel[] = ['off', 'low', 'medium', 'high']
+
+// Thinking budgets in tokens, the same ones the "think" keywords ask for
+export const THINKING_BUDGETS: Record<ThinkingLevel, number> = {
+  off: 0,
+  low: 4_000,
+  medium: 10_000,
+  high: 32_000 - 1,
+}
+
+/**
+ * Session thinking level set with /think, or null when thinking follows the
+ * keywords in each prompt
+ */
+export function getThinkingLevel(): ThinkingLevel | null {
+  return getSessionState('thinkingLevel')
+}
+
+export function setThinkingLevel(level: ThinkingLevel | null): void {
+  setSessionState('thinkingLevel', level)
+}
 
 export async function getMaxThinkingTokens(
   messages: Message[],
@@ -12,10 +41,23 @@ export async function getMaxThinkingTokens(
     return tokens
   }
 
+  // A session level is a floor that keywords in a prompt can still raise
+  const level = getThinkingLevel()
+  if (level === 'off') {
+    return 0
+  }
+  if (level) {
+    return Math.max(THINKING_BUDGETS[level], getKeywordThinkingTokens(messages))
+  }
+
   if (await ThinkTool.isEnabled()) {
     return 0
   }
 
+  return getKeywordThinkingTokens(messages)
+}
+
+function getKeywordThinkingTokens(messages: Message[]): number {
   const lastMessage = last(messages)
   if (
     lastMessage?.type !== 'user' ||
@@ -34,7 +76,7 @@ export async function getMaxThinkingTokens(
     content.includes('think very hard') ||
     content.includes('ultrathink')
   ) {
-    return 32_000 - 1
+    return THINKING_BUDGETS.high
   }
 
   if (
@@ -44,11 +86,11 @@ export async function getMaxThinkingTokens(
     content.includes('think more') ||
     content.includes('megathink')
   ) {
-    return 10_000
+    return THINKING_BUDGETS.medium
   }
 
   if (content.includes('think')) {
-    return 4_000
+    return THINKING_BUDGETS.low
   }
 
   return 0
@@ -60,6 +102,19 @@ export async function getReasoningEffort(
 ): Promise<'low' | 'medium' | 'high' | null> {
   const thinkingTokens = await getMaxThinkingTokens(messages)
 
+  // A session level overrides the model's configured effort
+  const level = getThinkingLevel()
+  if (level === 'off') {
+    return null
+  }
+  if (level) {
+    return thinkingTokens >= 30_000
+      ? 'high'
+      : thinkingTokens >= 10_000
+        ? 'medium'
+        : 'low'
+  }
+
   // Get reasoning effort from ModelProfile first, then fallback to config
   let reasoningEffort: 'low' | 'medium' | 'high' | undefined
   if (modelProfile?.reasoningEffort) {
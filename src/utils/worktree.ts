@@ -0,0 +1,194 @@
+import { basename, join, relative } from 'path'
+import { PRODUCT_COMMAND } from '@constants/product'
+import { CLAUDE_BASE_DIR } from './env'
+import {
+  addWorktree,
+  commitAll,
+  deleteBranch,
+  getBranchDiff,
+  getHead,
+  getRepoRoot,
+  listWorktrees,
+  mergeBranch,
+  removeWorktree,
+} from './git'
+import { logError } from './log'
+import { PersistentShell } from './PersistentShell'
+import {
+  type CwdScope,
+  getCwdScope,
+  getOriginalCwd,
+  runInCwdScope,
+} from './state'
+
+/**
+ * Worktree isolation for sub-agents
+ *
+ * A task started with `isolation: "worktree"` runs in a fresh `git worktree`
+ * on its own branch, so parallel tasks can edit files without trampling each
+ * other or the main session. When the task finishes its changes are committed
+ * on that branch and reported back; the worktree is kept until the user
+ * merges or discards it with /worktree.
+ */
+
+const BRANCH_PREFIX = `${PRODUCT_COMMAND}/task-`
+const WORKTREES_DIR = join(CLAUDE_BASE_DIR, 'worktrees')
+
+// Diffs beyond this are cut off in the report to the parent agent
+const MAX_REPORTED_DIFF_LENGTH = 20_000
+
+export type TaskWorktree = {
+  id: string
+  repoRoot: string
+  path: string
+  branch: string
+  baseCommit: string
+}
+
+export type TaskWorktreeReport = TaskWorktree & {
+  hasChanges: boolean
+  stat: string
+  diff: string
+}
+
+/**
+ * Create a worktree for a task and the scope its sub-agent runs in. The
+ * scope mirrors the session's position in the repository, so a session
+ * started in `packages/app` continues in `packages/app` of the worktree.
+ */
+export async function createTaskWorktree(
+  taskId: string,
+): Promise<{ worktree: TaskWorktree; scope: CwdScope }> {
+  if (getCwdScope()?.isolated) {
+    throw new Error('Nested worktree isolation is not supported')
+  }
+  const repoRoot = await getRepoRoot()
+  if (!repoRoot) {
+    throw new Error('Worktree isolation requires a git repository')
+  }
+
+  const id = taskId.slice(0, 8)
+  const worktree: TaskWorktree = {
+    id,
+    repoRoot,
+    path: join(WORKTREES_DIR, `${basename(repoRoot)}-${id}`),
+    branch: BRANCH_PREFIX + id,
+    baseCommit: await getHead(),
+  }
+  await addWorktree(repoRoot, worktree.path, worktree.branch)
+
+  const projectCwd = getOriginalCwd()
+  const root = join(worktree.path, relative(repoRoot, projectCwd))
+  return {
+    worktree,
+    scope: {
+      root,
+      projectCwd,
+      shell: new PersistentShell(root, projectCwd),
+      isolated: true,
+    },
+  }
+}
+
+/**
+ * Run a sub-agent's query loop inside the worktree scope, and shut down the
+ * worktree's shell when the loop ends
+ */
+export async function* runInWorktree<T>(
+  scope: CwdScope,
+  generator: AsyncGenerator<T, void>,
+): AsyncGenerator<T, void> {
+  try {
+    yield* runInCwdScope(scope, generator)
+  } finally {
+    scope.shell.close()
+  }
+}
+
+/**
+ * Commit what the task left in its worktree and describe the changes. A
+ * worktree without changes is removed right away.
+ */
+export async function finishTaskWorktree(
+  worktree: TaskWorktree,
+  message: string,
+): Promise<TaskWorktreeReport> {
+  // The sub-agent may also have committed on its own
+  await commitAll(worktree.path, message)
+  const { stat, diff } = await getBranchDiff(
+    worktree.repoRoot,
+    worktree.baseCommit,
+    worktree.branch,
+  )
+  if (!stat) {
+    await discardWorktree(worktree)
+    return { ...worktree, hasChanges: false, stat, diff }
+  }
+  return {
+    ...worktree,
+    hasChanges: true,
+    stat,
+    diff:
+      diff.length > MAX_REPORTED_DIFF_LENGTH
+        ? diff.slice(0, MAX_REPORTED_DIFF_LENGTH) +
+          `\n... (diff truncated, ${diff.length} characters in total)`
+        : diff,
+  }
+}
+
+/**
+ * Task worktrees of the current repository, including ones kept from
+ * earlier sessions
+ */
+export async function listTaskWorktrees(): Promise<TaskWorktree[]> {
+  const repoRoot = await getRepoRoot()
+  if (!repoRoot) {
+    return []
+  }
+  const baseCommit = await getHead()
+  return (await listWorktrees(repoRoot))
+    .filter(_ => _.branch?.startsWith(BRANCH_PREFIX))
+    .map(_ => ({
+      id: _.branch!.slice(BRANCH_PREFIX.length),
+      repoRoot,
+      path: _.path,
+      branch: _.branch!,
+      baseCommit,
+    }))
+}
+
+export async function getTaskWorktree(id: string): Promise<TaskWorktree> {
+  const worktree = (await listTaskWorktrees()).find(_ => _.id === id)
+  if (!worktree) {
+    throw new Error(`No task worktree found with id: ${id}`)
+  }
+  return worktree
+}
+
+/**
+ * Merge the task's branch into the current branch, then remove the worktree
+ */
+export async function mergeWorktree(worktree: TaskWorktree): Promise<void> {
+  await mergeBranch(worktree.repoRoot, worktree.branch)
+  await discardWorktree(worktree)
+}
+
+export async function discardWorktree(worktree: TaskWorktree): Promise<void> {
+  await removeWorktree(worktree.repoRoot, worktree.path)
+  try {
+    await deleteBranch(worktree.repoRoot, worktree.branch)
+  } catch (error) {
+    logError(error)
+  }
+}
+
+export function formatWorktreeReport(report: TaskWorktreeReport): string {
+  if (!report.hasChanges) {
+    return 'The task made no changes; its worktree was removed.'
+  }
+  return [
+    `The task's changes were committed on branch ${report.branch} in the worktree ${report.path}:`,
+    report.stat,
+    `The user can merge them with \`/worktree merge ${report.id}\`, discard them with \`/worktree discard ${report.id}\`, or keep the worktree as is.`,
+  ].join('\n\n')
+}